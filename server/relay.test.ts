@@ -0,0 +1,94 @@
+import { spawn, type ChildProcess } from "node:child_process";
+import { once } from "node:events";
+import { createServer } from "node:net";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { WebSocket } from "ws";
+import { parseServerMessage, PROTOCOL_VERSION, type ServerMessage } from "../src/party/protocol";
+
+type TestGuest = {
+  socket: WebSocket;
+  received: ServerMessage[];
+  id: string;
+};
+
+let relay: ChildProcess;
+let url: string;
+
+async function freePort(): Promise<number> {
+  const probe = createServer().listen(0);
+  await once(probe, "listening");
+  const address = probe.address();
+  probe.close();
+  return typeof address === "object" && address ? address.port : 0;
+}
+
+async function connect(room: string, name: string): Promise<TestGuest> {
+  const socket = new WebSocket(url);
+  const received: ServerMessage[] = [];
+  socket.on("message", (data) => {
+    const message = parseServerMessage(data.toString());
+    if (message) {
+      received.push(message);
+    }
+  });
+  await once(socket, "open");
+  socket.send(JSON.stringify({ type: "hello", version: PROTOCOL_VERSION, room, name }));
+  const welcome = await vi.waitFor(() => {
+    const message = received.find((message) => message.type === "welcome");
+    expect(message).toBeDefined();
+    return message!;
+  });
+  return { socket, received, id: welcome.you };
+}
+
+beforeAll(async () => {
+  const port = await freePort();
+  url = `ws://127.0.0.1:${port}`;
+  relay = spawn(process.execPath, ["--import", "tsx", "server/relay.ts"], {
+    env: { ...process.env, PORT: String(port) },
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+  const [output] = await once(relay.stdout!, "data");
+  expect(String(output)).toContain("listening");
+}, 20_000);
+
+afterAll(() => {
+  relay.kill();
+});
+
+describe("relay", () => {
+  it("drops only the guest who sends an oversized frame", async () => {
+    const sender = await connect("oversized", "Sam");
+    const other = await connect("oversized", "Priya");
+
+    sender.socket.send("x".repeat(20 * 1024));
+    await once(sender.socket, "close");
+
+    await vi.waitFor(() => expect(other.received).toContainEqual({ type: "left", id: sender.id }));
+    expect(other.socket.readyState).toBe(WebSocket.OPEN);
+    expect(relay.exitCode).toBeNull();
+
+    const late = await connect("oversized", "Lee");
+    await vi.waitFor(() =>
+      expect(other.received).toContainEqual(expect.objectContaining({ type: "joined" }))
+    );
+    other.socket.close();
+    late.socket.close();
+  });
+
+  it("answers a garbage frame with an error and keeps everyone connected", async () => {
+    const sender = await connect("garbage", "Sam");
+    const other = await connect("garbage", "Priya");
+
+    sender.socket.send("{not json");
+
+    await vi.waitFor(() =>
+      expect(sender.received).toContainEqual({ type: "error", message: "malformed message" })
+    );
+    expect(sender.socket.readyState).toBe(WebSocket.OPEN);
+    expect(other.socket.readyState).toBe(WebSocket.OPEN);
+    expect(other.received).not.toContainEqual(expect.objectContaining({ type: "left" }));
+    sender.socket.close();
+    other.socket.close();
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * The party-mode relay: a small WebSocket server that keeps each room's
+ * shared state and passes guests' messages around. The protocol itself is
+ * in src/party/protocol.ts; this file only moves bytes.
+ *
+ *   npm run party                 listens on ws://0.0.0.0:8787
+ *   PORT=9000 npm run party       on another port
+ */
+import { randomUUID } from "node:crypto";
+import { WebSocketServer, type WebSocket } from "ws";
+import {
+  createRoom,
+  DEFAULT_RELAY_PORT,
+  join,
+  leave,
+  parseClientMessage,
+  PROTOCOL_VERSION,
+  receive,
+  type Outgoing,
+  type Room,
+  type ServerMessage,
+} from "../src/party/protocol";
+
+const HEARTBEAT_MS = 30_000;
+const MAX_MESSAGE_BYTES = 16 * 1024;
+
+type Connection = {
+  socket: WebSocket;
+  id: string;
+  room: string | null;
+  alive: boolean;
+};
+
+const port = Number(process.env.PORT) || DEFAULT_RELAY_PORT;
+const rooms = new Map<string, Room>();
+const connections = new Set<Connection>();
+
+const send = (connection: Connection, message: ServerMessage) => {
+  if (connection.socket.readyState === connection.socket.OPEN) {
+    connection.socket.send(JSON.stringify(message));
+  }
+};
+
+function deliver(roomName: string, outgoing: Outgoing[]) {
+  for (const { message, to, except } of outgoing) {
+    for (const connection of connections) {
+      if (connection.room !== roomName) {
+        continue;
+      }
+      const isRecipient = to ? connection.id === to : connection.id !== except;
+      if (isRecipient) {
+        send(connection, message);
+      }
+    }
+  }
+}
+
+function update(roomName: string, [room, outgoing]: [Room, Outgoing[]]) {
+  if (room.guests.length === 0) {
+    // The party is over once everyone has left
+    rooms.delete(roomName);
+  } else {
+    rooms.set(roomName, room);
+  }
+  deliver(roomName, outgoing);
+}
+
+const server = new WebSocketServer({ port, maxPayload: MAX_MESSAGE_BYTES });
+
+server.on("connection", (socket) => {
+  const connection: Connection = { socket, id: randomUUID(), room: null, alive: true };
+  connections.add(connection);
+
+  socket.on("pong", () => {
+    connection.alive = true;
+  });
+
+  // An oversized or broken frame only ends this guest's connection; the
+  // "close" handler below then takes them out of their room
+  socket.on("error", (error) => {
+    console.warn(`dropping guest ${connection.id}: ${error.message}`);
+    socket.terminate();
+  });
+
+  socket.on("message", (data) => {
+    const message = parseClientMessage(data.toString());
+    if (!message) {
+      send(connection, { type: "error", message: "malformed message" });
+      return;
+    }
+    if (connection.room === null) {
+      if (message.type !== "hello") {
+        send(connection, { type: "error", message: "say hello first" });
+        return;
+      }
+      if (message.version !== PROTOCOL_VERSION) {
+        send(connection, {
+          type: "error",
+          message: `protocol version ${message.version} is not supported (relay speaks ${PROTOCOL_VERSION})`,
+        });
+        socket.close();
+        return;
+      }
+      connection.room = message.room;
+      update(
+        message.room,
+        join(rooms.get(message.room) ?? createRoom(), connection.id, message.name)
+      );
+      return;
+    }
+    const room = rooms.get(connection.room);
+    if (room) {
+      update(connection.room, receive(room, connection.id, message));
+    }
+  });
+
+  socket.on("close", () => {
+    connections.delete(connection);
+    const room = connection.room && rooms.get(connection.room);
+    if (connection.room && room) {
+      update(connection.room, leave(room, connection.id));
+    }
+  });
+});
+
+// Drop guests whose connection died without a close
+const heartbeat = setInterval(() => {
+  for (const connection of connections) {
+    if (!connection.alive) {
+      connection.socket.terminate();
+      continue;
+    }
+    connection.alive = false;
+    connection.socket.ping();
+  }
+}, HEARTBEAT_MS);
+
+server.on("listening", () => {
+  console.log(`party relay listening on ws://0.0.0.0:${port}`);
+});
+
+server.on("close", () => clearInterval(heartbeat));
+
+process.on("SIGINT", () => {
+  server.close();
+  process.exit(0);
+});
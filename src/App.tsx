@@ -5,18 +5,107 @@ import {
   useCallback,
   useEffect,
   useMemo,
+  useReducer,
   useRef,
   useState,
+  type MouseEvent,
+  type RefObject,
 } from "react";
 import type { Group } from "three";
-import { Vector3 } from "three";
+import { Plane, Raycaster, Vector3 } from "three";
 import type { OrbitControls as OrbitControlsImpl } from "three-stdlib";
-import { Candle } from "./models/candle";
+import { Candle, type CandleWind } from "./models/candle";
 import { Cake } from "./models/cake";
 import { Table } from "./models/table";
 import { PictureFrame } from "./models/pictureFrame";
 import { Fireworks } from "./components/Fireworks";
+import { Confetti } from "./components/Confetti";
+import { Balloons } from "./components/Balloons";
+import { Sparklers } from "./components/Sparklers";
 import { BirthdayCard } from "./components/BirthdayCard";
+import { FriendMessage } from "./components/FriendMessage";
+import { MicrophonePrompt } from "./components/MicrophonePrompt";
+import { ExperienceControls } from "./components/ExperienceControls";
+import { CakeKnife, CakeSlices } from "./components/CakeSlices";
+import { AudioControls } from "./components/AudioControls";
+import { SingAlong } from "./components/SingAlong";
+import { PartyGuests, PartyPointer } from "./components/PartyGuests";
+import { PartyPanel } from "./components/PartyPanel";
+import { GuestbookOverlay } from "./components/GuestbookOverlay";
+import { FloatingReactions } from "./components/FloatingReactions";
+import { AssetProgress } from "./components/AssetProgress";
+import { ErrorBoundary } from "./components/ErrorBoundary";
+import { Typewriter } from "./components/Typewriter";
+import { compileScript, type TypewriterStep } from "./typewriter/script";
+import type { CompiledBurst } from "./fireworks/simulation";
+import { useMicrophoneBlow } from "./audio/useMicrophoneBlow";
+import { toMusicConfig, type AudioManager } from "./audio/audioManager";
+import { useAudioManager } from "./audio/useAudioManager";
+import { useLyrics } from "./singalong/useLyrics";
+import {
+  loadReadMessages,
+  persistReadMessages,
+  type Contributor,
+} from "./messages/contributor";
+import type {
+  BirthdayCardConfig,
+  CelebrationEffect,
+  PictureFrameConfig,
+  SceneManifest,
+  SceneTimings,
+  Vec3,
+} from "./scene/manifest";
+import { formatIssues } from "./scene/schema";
+import {
+  DEFAULT_CAKE_TOP,
+  layoutCandles,
+  pickCandlesToBlow,
+  type CakeTop,
+  type CandlePlacement,
+} from "./scene/candles";
+import { useSceneManifest } from "./scene/useSceneManifest";
+import {
+  createIntroTimeline,
+  INTRO_MARKERS,
+  INTRO_TARGETS,
+} from "./scene/introTimeline";
+import type { TimelinePlayer } from "./timeline/timeline";
+import { useTimeline, type TimelineMode } from "./timeline/useTimeline";
+import {
+  hasReached,
+  isPhase,
+  loadPersistedPhase,
+  persistPhase,
+  transition,
+  type ExperiencePhase,
+} from "./scene/experienceMachine";
+import { getPartyOptions } from "./party/partyFlag";
+import type { Guest, SharedState } from "./party/protocol";
+import { usePartySync } from "./party/usePartySync";
+import { createLocalGuestbook, DEFAULT_REACTIONS } from "./guestbook/backend";
+import { useGuestbook } from "./guestbook/useGuestbook";
+import {
+  DEFAULT_CAKE,
+  layoutCake,
+  type CakeConfig,
+  type CakeLayout,
+} from "./cake/layout";
+import {
+  PLATE_SEATS,
+  assignSeats,
+  cutPieces,
+  wholeCake,
+  type CakePiece,
+  type Point,
+  type Serving,
+} from "./cake/slicing";
+import { collectSceneAssets } from "./loading/assets";
+import { useAssetPreload } from "./loading/useAssetPreload";
+import { isEditorRequested } from "./editor/editorFlag";
+import { EditorPanel } from "./editor/EditorPanel";
+import { SceneEditor } from "./editor/SceneEditor";
+import { isCreatorRequested } from "./creator/creatorFlag";
+import { CreatorWizard } from "./creator/CreatorWizard";
 
 import "./App.css";
 
@@ -29,41 +118,56 @@ const isMobileDevice = () => {
 const clamp = (value: number, min: number, max: number) =>
   Math.min(max, Math.max(min, value));
 
-const lerp = (from: number, to: number, t: number) => from + (to - from) * t;
-
-const easeOutCubic = (t: number) => 1 - Math.pow(1 - t, 3);
+type CakeCutting = {
+  /** What the cut cake looks like; a cake model is cut as the default cake. */
+  config: CakeConfig;
+  layout: CakeLayout;
+  /** Null until the first cut. */
+  pieces: ReadonlyArray<CakePiece> | null;
+  servings: ReadonlyArray<Serving> | null;
+  onCut: (from: Point, to: Point) => void;
+  onSliceLanded: (position: Vec3) => void;
+};
 
 type AnimatedSceneProps = {
-  isPlaying: boolean;
+  introMode: TimelineMode;
   onBackgroundFadeChange?: (opacity: number) => void;
   onEnvironmentProgressChange?: (progress: number) => void;
-  candleLit: boolean;
+  candles: ReadonlyArray<CandlePlacement>;
+  candleScale: number;
+  litCandleIds: ReadonlySet<string>;
+  candleWind?: RefObject<CandleWind>;
   onAnimationComplete?: () => void;
+  /** Intro markers as they pass; see INTRO_MARKERS. */
+  onIntroMarker?: (name: string) => void;
+  /** Receives the intro's timeline player for pausing, seeking and scrubbing. */
+  timelineRef?: RefObject<TimelinePlayer | null>;
   cards: ReadonlyArray<BirthdayCardConfig>;
   frames: ReadonlyArray<PictureFrameConfig>;
+  contributors: ReadonlyArray<Contributor>;
+  readMessageIds: ReadonlySet<string>;
+  /** Default `{{placeholder}}` values for card templates. */
+  templateValues: Readonly<Record<string, string>>;
+  timings: SceneTimings;
   activeItemId: string | null;
   onToggleItem: (id: string) => void;
+  /** Settings for a generated cake; see Cake. */
+  cake?: CakeConfig;
+  cakeTop: CakeTop;
   onCakeClick?: () => void;
+  /** A framed video or a friend's message started or stopped playing with sound. */
+  onMediaAudibleChange?: (id: string, audible: boolean) => void;
+  /** Confetti, balloons and sparklers; fireworks are drawn by Experience. */
+  celebrationEffects: ReadonlyArray<CelebrationEffect>;
+  isCelebrating: boolean;
+  /** Set once the cake is being cut. */
+  cutting?: CakeCutting;
+  editor?: {
+    selectedId: string | null;
+    onChange: (id: string, position: Vec3, rotation: Vec3) => void;
+  };
 };
 
-const CAKE_START_Y = 10;
-const CAKE_END_Y = 0;
-const CAKE_DESCENT_DURATION = 3;
-
-const TABLE_START_Z = 30;
-const TABLE_END_Z = 0;
-const TABLE_SLIDE_DURATION = 0.7;
-const TABLE_SLIDE_START = CAKE_DESCENT_DURATION - TABLE_SLIDE_DURATION - 0.1;
-
-const CANDLE_START_Y = 5;
-const CANDLE_END_Y = 0;
-const CANDLE_DROP_DURATION = 1.2;
-const CANDLE_DROP_START =
-  Math.max(CAKE_DESCENT_DURATION, TABLE_SLIDE_START + TABLE_SLIDE_DURATION) +
-  1.0;
-
-const totalAnimationTime = CANDLE_DROP_START + CANDLE_DROP_DURATION;
-
 const ORBIT_TARGET = new Vector3(0, 1, 0);
 const ORBIT_INITIAL_RADIUS = 5;
 const ORBIT_INITIAL_HEIGHT = 1.5;
@@ -73,106 +177,63 @@ const ORBIT_MAX_DISTANCE = 12;
 const ORBIT_MIN_POLAR = Math.PI * 0;
 const ORBIT_MAX_POLAR = Math.PI / 2;
 
-const BACKGROUND_FADE_DURATION = 1;
-const BACKGROUND_FADE_OFFSET = 0;
-const BACKGROUND_FADE_END = Math.max(
-  CANDLE_DROP_START - BACKGROUND_FADE_OFFSET,
-  BACKGROUND_FADE_DURATION
-);
-const BACKGROUND_FADE_START = Math.max(
-  BACKGROUND_FADE_END - BACKGROUND_FADE_DURATION,
-  0
-);
-
-const TYPED_LINES = [
-  "> juliana",
-  "...",
-  "> since i cant meet you in person",
-  "...",
-  "> welcome to our online dinner table hehe",
-  "...",
-  "> hope you enjoy this virtual meal",
-  "...",
-  "٩(◕‿◕)۶ ٩(◕‿◕)۶ ٩(◕‿◕)۶"
-];
-const TYPED_CHAR_DELAY = 100;
-const POST_TYPING_SCENE_DELAY = 1000;
-const CURSOR_BLINK_INTERVAL = 480;
-
-type BirthdayCardConfig = {
-  id: string;
-  image: string;
-  position: [number, number, number];
-  rotation: [number, number, number];
-};
-
-type PictureFrameConfig = {
-  id: string;
-  image: string;
-  position: [number, number, number];
-  rotation: [number, number, number];
-  scale: number;
-};
+const MAX_CANDLE_LIGHTS = 3;
+const CANDLE_BLOW_STAGGER = 140;
+const TYPING_CLICK_VOLUME = 0.35;
+// Without the song file, the lyrics run on a clock and linger this long
+const SONG_FALLBACK_TAIL_MS = 1500;
+const TABLE_THUD_VOLUME = 0.4;
+const CHEER_VISIBLE_MS = 4000;
+const MAX_VISIBLE_CHEERS = 4;
+const CHEER_POP_VOLUME = 0.5;
+const SLICE_THUD_VOLUME = 0.25;
+// Stands in for the environment map's light when the HDR fails to load
+const SOLID_SKY_COLOR = "#ffe9f0";
+const SOLID_GROUND_COLOR = "#3a2f4a";
+const SOLID_LIGHT_INTENSITY = 0.9;
+const SELF_GUEST: Guest = { id: "", name: "you", color: "#fff2e4", cursor: null };
 
-const BIRTHDAY_CARDS: ReadonlyArray<BirthdayCardConfig> = [
-  {
-    id: "confetti",
-    image: "/card.png",
-    position: [1, 0.081, -2],
-    rotation: [-Math.PI / 2 , 0, Math.PI / 3],
-  }
-];
-
-const PICTURE_FRAMES: ReadonlyArray<PictureFrameConfig> = [
-  {
-    id: "frame1",
-    image: "/frame2.jpg",
-    position: [0, 0.735, 3],
-    rotation: [0, 5.6, 0],
-    scale: 0.75,
-  },
-  {
-    id: "frame2",
-    image: "/frame3.jpg",
-    position: [0, 0.735, -3],
-    rotation: [0, 4.0, 0],
-    scale: 0.75,
-  },
-  {
-    id: "frame3",
-    image: "/frame4.jpg",
-    position: [-1.5, 0.735, 2.5],
-    rotation: [0, 5.4, 0],
-    scale: 0.75,
-  },
-  {
-    id: "frame4",
-    image: "/frame1.jpg",
-    position: [-1.5, 0.735, -2.5],
-    rotation: [0, 4.2, 0],
-    scale: 0.75,
-  },
-];
+// Another guest's phase is followed forwards, and backwards only along the
+// machine's own backward edges (replay, relight): a page that finished the
+// intro a moment later must not pull everyone back into it.
+const followsRemotePhase = (local: ExperiencePhase, remote: ExperiencePhase) =>
+  hasReached(remote, local) ||
+  remote === "typing" ||
+  (remote === "ready" && local === "celebrating");
 
 function AnimatedScene({
-  isPlaying,
+  introMode,
   onBackgroundFadeChange,
   onEnvironmentProgressChange,
-  candleLit,
+  candles,
+  candleScale,
+  litCandleIds,
+  candleWind,
   onAnimationComplete,
+  onIntroMarker,
+  timelineRef,
   cards,
   frames,
+  contributors,
+  readMessageIds,
+  templateValues,
+  timings,
   activeItemId,
   onToggleItem,
+  cake,
+  cakeTop,
   onCakeClick,
+  onMediaAudibleChange,
+  celebrationEffects,
+  isCelebrating,
+  cutting,
+  editor,
 }: AnimatedSceneProps) {
+  const lightStride = Math.ceil(candles.length / MAX_CANDLE_LIGHTS);
   const cakeGroup = useRef<Group>(null);
   const tableGroup = useRef<Group>(null);
   const candleGroup = useRef<Group>(null);
-  const animationStartRef = useRef<number | null>(null);
-  const hasPrimedRef = useRef(false);
-  const hasCompletedRef = useRef(false);
-  const completionNotifiedRef = useRef(false);
+  const tableSurface = useRef<Group>(null);
   const backgroundOpacityRef = useRef(1);
   const environmentProgressRef = useRef(0);
 
@@ -197,135 +258,57 @@ function AnimatedScene({
     }
   };
 
-  useFrame(({ clock }) => {
-    const cake = cakeGroup.current;
-    const table = tableGroup.current;
-    const candle = candleGroup.current;
-
-    if (!cake || !table || !candle) {
-      return;
-    }
-
-    if (!hasPrimedRef.current) {
-      cake.position.set(0, CAKE_START_Y, 0);
-      cake.rotation.set(0, 0, 0);
-      table.position.set(0, 0, TABLE_START_Z);
-      table.rotation.set(0, 0, 0);
-      candle.position.set(0, CANDLE_START_Y, 0);
-      candle.visible = false;
-      hasPrimedRef.current = true;
-    }
+  const introTimeline = useMemo(() => createIntroTimeline(timings), [timings]);
 
-    if (!isPlaying) {
-      emitBackgroundOpacity(1);
-      emitEnvironmentProgress(0);
-      animationStartRef.current = null;
-      hasCompletedRef.current = false;
-      completionNotifiedRef.current = false;
-      return;
-    }
+  const player = useTimeline({
+    definition: introTimeline,
+    mode: introMode,
+    targets: {
+      [INTRO_TARGETS.cake]: cakeGroup,
+      [INTRO_TARGETS.table]: tableGroup,
+      [INTRO_TARGETS.candles]: candleGroup,
+    },
+    onSample: (sample) => {
+      const opacity = sample[INTRO_TARGETS.background]?.opacity ?? 1;
+      emitBackgroundOpacity(opacity);
+      emitEnvironmentProgress(1 - opacity);
+    },
+    onComplete: onAnimationComplete,
+    onMarker: onIntroMarker,
+  });
 
-    if (hasCompletedRef.current) {
-      emitBackgroundOpacity(0);
-      emitEnvironmentProgress(1);
-      if (!completionNotifiedRef.current) {
-        completionNotifiedRef.current = true;
-        onAnimationComplete?.();
-      }
+  useEffect(() => {
+    if (!timelineRef) {
       return;
     }
-
-    if (animationStartRef.current === null) {
-      animationStartRef.current = clock.elapsedTime;
-    }
-
-    const elapsed = clock.elapsedTime - animationStartRef.current;
-    const clampedElapsed = clamp(elapsed, 0, totalAnimationTime);
-
-    const cakeProgress = clamp(clampedElapsed / CAKE_DESCENT_DURATION, 0, 1);
-    const cakeEase = easeOutCubic(cakeProgress);
-    cake.position.y = lerp(CAKE_START_Y, CAKE_END_Y, cakeEase);
-    cake.position.x = 0;
-    cake.position.z = 0;
-    cake.rotation.y = cakeEase * Math.PI * 2;
-    cake.rotation.x = 0;
-    cake.rotation.z = 0;
-
-    let tableZ = TABLE_START_Z;
-    if (clampedElapsed >= TABLE_SLIDE_START) {
-      const tableProgress = clamp(
-        (clampedElapsed - TABLE_SLIDE_START) / TABLE_SLIDE_DURATION,
-        0,
-        1
-      );
-      const tableEase = easeOutCubic(tableProgress);
-      tableZ = lerp(TABLE_START_Z, TABLE_END_Z, tableEase);
-    }
-    table.position.set(0, 0, tableZ);
-    table.rotation.set(0, 0, 0);
-
-    if (clampedElapsed >= CANDLE_DROP_START) {
-      if (!candle.visible) {
-        candle.visible = true;
-      }
-      const candleProgress = clamp(
-        (clampedElapsed - CANDLE_DROP_START) / CANDLE_DROP_DURATION,
-        0,
-        1
-      );
-      const candleEase = easeOutCubic(candleProgress);
-      candle.position.y = lerp(CANDLE_START_Y, CANDLE_END_Y, candleEase);
-    } else {
-      candle.visible = false;
-      candle.position.set(0, CANDLE_START_Y, 0);
-    }
-
-    if (clampedElapsed < BACKGROUND_FADE_START) {
-      emitBackgroundOpacity(1);
-      emitEnvironmentProgress(0);
-    } else {
-      const fadeProgress = clamp(
-        (clampedElapsed - BACKGROUND_FADE_START) / BACKGROUND_FADE_DURATION,
-        0,
-        1
-      );
-      const eased = easeOutCubic(fadeProgress);
-      const backgroundOpacity = 1 - eased;
-      emitBackgroundOpacity(backgroundOpacity);
-      emitEnvironmentProgress(1 - backgroundOpacity);
-    }
-
-    const animationDone = clampedElapsed >= totalAnimationTime;
-    if (animationDone) {
-      cake.position.set(0, CAKE_END_Y, 0);
-      cake.rotation.set(0, 0, 0);
-      table.position.set(0, 0, TABLE_END_Z);
-      candle.position.set(0, CANDLE_END_Y, 0);
-      candle.visible = true;
-      emitBackgroundOpacity(0);
-      emitEnvironmentProgress(1);
-      hasCompletedRef.current = true;
-      if (!completionNotifiedRef.current) {
-        completionNotifiedRef.current = true;
-        onAnimationComplete?.();
-      }
-    }
-  });
+    timelineRef.current = player;
+    return () => {
+      timelineRef.current = null;
+    };
+  }, [player, timelineRef]);
 
   return (
     <>
       <group ref={tableGroup}>
-        <Table />
+        <group ref={tableSurface}>
+          <Table />
+        </group>
         {frames.map((frame) => (
           <PictureFrame
             key={frame.id}
             id={frame.id}
             image={frame.image}
+            photos={frame.photos}
+            slideshowInterval={frame.slideshowInterval}
+            fit={frame.fit}
+            focalPoint={frame.focalPoint}
+            orientation={frame.orientation}
             tablePosition={frame.position}
             tableRotation={frame.rotation}
             scale={frame.scale}
             isActive={activeItemId === frame.id}
             onToggle={onToggleItem}
+            onAudibleChange={onMediaAudibleChange}
           />
         ))}
         {cards.map((card) => (
@@ -333,19 +316,81 @@ function AnimatedScene({
             key={card.id}
             id={card.id}
             image={card.image}
+            template={card.template}
+            templateValues={templateValues}
             tablePosition={card.position}
             tableRotation={card.rotation}
             isActive={activeItemId === card.id}
             onToggle={onToggleItem}
+            message={card.message}
           />
         ))}
+        {contributors.map((contributor) => (
+          <FriendMessage
+            key={contributor.id}
+            contributor={contributor}
+            isActive={activeItemId === contributor.id}
+            isRead={readMessageIds.has(contributor.id)}
+            onToggle={onToggleItem}
+            onAudibleChange={onMediaAudibleChange}
+          />
+        ))}
+        {editor && (
+          <SceneEditor
+            items={[...frames, ...cards]}
+            selectedId={editor.selectedId}
+            surface={tableSurface}
+            onChange={editor.onChange}
+          />
+        )}
       </group>
       <group ref={cakeGroup}>
-        <Cake onClick={onCakeClick} />
+        {cutting?.pieces ? (
+          <CakeSlices
+            config={cutting.config}
+            layout={cutting.layout}
+            pieces={cutting.pieces}
+            seats={PLATE_SEATS}
+            servings={cutting.servings}
+            onSliceLanded={cutting.onSliceLanded}
+          />
+        ) : (
+          <>
+            <Cake
+              config={cake}
+              templateValues={templateValues}
+              onClick={cutting ? undefined : onCakeClick}
+            />
+            {celebrationEffects.includes("sparklers") && (
+              <Sparklers isActive={isCelebrating} top={cakeTop} />
+            )}
+          </>
+        )}
+        {cutting && !cutting.servings && (
+          <CakeKnife
+            height={cutting.layout.top.height}
+            radius={cutting.layout.tiers[0].radius}
+            onCut={cutting.onCut}
+          />
+        )}
       </group>
       <group ref={candleGroup}>
-        <Candle isLit={candleLit} scale={0.25} position={[0, 1.1, 0]} />
+        {/* The candles come out with the first cut */}
+        {!cutting?.pieces && candles.map((candle, index) => (
+          <Candle
+            key={candle.id}
+            isLit={litCandleIds.has(candle.id)}
+            wind={candleWind}
+            withLight={index % lightStride === 0}
+            scale={candleScale}
+            position={candle.position}
+          />
+        ))}
       </group>
+      {celebrationEffects.includes("confetti") && (
+        <Confetti isActive={isCelebrating} surface={tableSurface} />
+      )}
+      {celebrationEffects.includes("balloons") && <Balloons isActive={isCelebrating} />}
     </>
   );
 }
@@ -374,6 +419,7 @@ function ConfiguredOrbitControls() {
   return (
     <OrbitControls
       ref={controlsRef}
+      makeDefault
       enableDamping
       dampingFactor={0.05}
       minDistance={ORBIT_MIN_DISTANCE}
@@ -384,6 +430,69 @@ function ConfiguredOrbitControls() {
   );
 }
 
+type BlowSource = "pointer" | "viewer";
+
+type BlowOriginProbeProps = {
+  probeRef: RefObject<((source: BlowSource) => Vec3) | null>;
+  cakeTop: CakeTop;
+};
+
+// Exposes where a blow lands on the cake top: under the pointer for taps,
+// otherwise the rim facing the camera (the viewer blows from where they are).
+function BlowOriginProbe({ probeRef, cakeTop }: BlowOriginProbeProps) {
+  const get = useThree((state) => state.get);
+
+  useEffect(() => {
+    const raycaster = new Raycaster();
+    const plane = new Plane(new Vector3(0, 1, 0), -cakeTop.height);
+    const hit = new Vector3();
+
+    probeRef.current = (source) => {
+      const { camera, pointer } = get();
+      if (source === "pointer") {
+        raycaster.setFromCamera(pointer, camera);
+        if (
+          raycaster.ray.intersectPlane(plane, hit) &&
+          Math.hypot(hit.x, hit.z) <= cakeTop.radius * 1.5
+        ) {
+          return [hit.x, cakeTop.height, hit.z];
+        }
+      }
+      const distance = Math.hypot(camera.position.x, camera.position.z) || 1;
+      return [
+        (camera.position.x / distance) * cakeTop.radius,
+        cakeTop.height,
+        (camera.position.z / distance) * cakeTop.radius,
+      ];
+    };
+    return () => {
+      probeRef.current = null;
+    };
+  }, [get, probeRef, cakeTop]);
+
+  return null;
+}
+
+type AudioListenerSyncProps = {
+  manager: AudioManager;
+};
+
+// Keeps the Web Audio listener on the camera so positioned sounds pan with it
+function AudioListenerSync({ manager }: AudioListenerSyncProps) {
+  const forward = useMemo(() => new Vector3(), []);
+
+  useFrame(({ camera }) => {
+    camera.getWorldDirection(forward);
+    manager.setListener(
+      [camera.position.x, camera.position.y, camera.position.z],
+      [forward.x, forward.y, forward.z],
+      [camera.up.x, camera.up.y, camera.up.z]
+    );
+  });
+
+  return null;
+}
+
 type EnvironmentBackgroundControllerProps = {
   intensity: number;
 };
@@ -404,173 +513,528 @@ function EnvironmentBackgroundController({
   return null;
 }
 
+type SolidEnvironmentProps = {
+  progress: number;
+};
 
-export default function App() {
-  const [hasStarted, setHasStarted] = useState(false);
+/** Soft sky light that fades in as the environment would have. */
+function SolidEnvironment({ progress }: SolidEnvironmentProps) {
+  return (
+    <hemisphereLight
+      color={SOLID_SKY_COLOR}
+      groundColor={SOLID_GROUND_COLOR}
+      intensity={SOLID_LIGHT_INTENSITY * progress}
+    />
+  );
+}
+
+const stopPropagation = (event: MouseEvent) => {
+  event.stopPropagation();
+};
+
+function SceneCrash({ error }: { error: Error }) {
+  return (
+    <div className="scene-crash" role="alert" onClick={stopPropagation}>
+      <p>&gt; the table could not be set: {error.message}</p>
+      <button type="button" onClick={() => window.location.reload()}>
+        reload
+      </button>
+    </div>
+  );
+}
+
+type ExperienceProps = {
+  manifest: SceneManifest;
+};
+
+function Experience({ manifest }: ExperienceProps) {
+  const { typedLines: scriptLines, timings, environment } = manifest;
+  const [isEditing] = useState(isEditorRequested);
+  const [cards, setCards] = useState(manifest.cards);
+  const [frames, setFrames] = useState(manifest.frames);
+  const [editorSelectedId, setEditorSelectedId] = useState<string | null>(
+    null
+  );
+  const [phase, dispatch] = useReducer(transition, "idle");
+  const [resumePhase] = useState(() =>
+    loadPersistedPhase(manifest.recipient.name)
+  );
   const [backgroundOpacity, setBackgroundOpacity] = useState(1);
   const [environmentProgress, setEnvironmentProgress] = useState(0);
-  const [currentLineIndex, setCurrentLineIndex] = useState(0);
-  const [currentCharIndex, setCurrentCharIndex] = useState(0);
-  const [sceneStarted, setSceneStarted] = useState(false);
-  const [cursorVisible, setCursorVisible] = useState(true);
-  const [hasAnimationCompleted, setHasAnimationCompleted] = useState(false);
-  const [isCandleLit, setIsCandleLit] = useState(true);
-  const [fireworksActive, setFireworksActive] = useState(false);
+  const [typingFinished, setTypingFinished] = useState(false);
+  const [typewriterRun, setTypewriterRun] = useState(0);
+  // A generated cake knows its own top; the built-in model uses the default
+  const cakeTop = useMemo(
+    () =>
+      manifest.cake && !manifest.cake.model ? layoutCake(manifest.cake).top : DEFAULT_CAKE_TOP,
+    [manifest.cake]
+  );
+  const candleLayout = useMemo(
+    () => layoutCandles(manifest.candles, manifest.recipient.age, cakeTop),
+    [manifest.candles, manifest.recipient.age, cakeTop]
+  );
+  // Cuts follow the generated cake's shape, which stands in for a cake model too
+  const cakeConfig = manifest.cake ?? DEFAULT_CAKE;
+  const cakeLayout = useMemo(() => layoutCake(cakeConfig), [cakeConfig]);
+  const [cakePieces, setCakePieces] = useState<ReadonlyArray<CakePiece> | null>(null);
+  const [servings, setServings] = useState<ReadonlyArray<Serving> | null>(null);
+  const templateValues = useMemo(
+    () => ({
+      name: manifest.recipient.name,
+      age:
+        manifest.recipient.age === undefined ? "" : String(manifest.recipient.age),
+    }),
+    [manifest.recipient.name, manifest.recipient.age]
+  );
+  const allCandleIds = useMemo<ReadonlySet<string>>(
+    () => new Set(candleLayout.candles.map((candle) => candle.id)),
+    [candleLayout]
+  );
+  const [litCandleIds, setLitCandleIds] = useState(allCandleIds);
+  const isCandleLit = litCandleIds.size > 0;
+  const blowTimersRef = useRef<number[]>([]);
+  const blowOriginRef = useRef<((source: BlowSource) => Vec3) | null>(null);
+  const introTimelineRef = useRef<TimelinePlayer | null>(null);
   const [activeItemId, setActiveItemId] = useState<string | null>(null);
-  const backgroundAudioRef = useRef<HTMLAudioElement | null>(null);
+  const [readMessageIds, setReadMessageIds] = useState(() =>
+    loadReadMessages(manifest.recipient.name)
+  );
+  const [micSensitivity, setMicSensitivity] = useState(
+    manifest.blow.sensitivity
+  );
+  const music = useMemo(() => toMusicConfig(manifest.music), [manifest.music]);
+  const sounds = useMemo(() => manifest.sounds ?? {}, [manifest.sounds]);
+  const audio = useAudioManager({ music, sounds });
+  const audioManager = audio.manager;
+  const [audibleMediaIds, setAudibleMediaIds] = useState<ReadonlySet<string>>(
+    () => new Set()
+  );
+  const isMusicDucked = audibleMediaIds.size > 0;
+  const { singAlong } = manifest;
+  const lyrics = useLyrics(singAlong?.lyrics, templateValues);
+  const lyricsRef = useRef(lyrics);
+  // When the song failed to play, performance.now() at the start of the lyrics
+  const songClockRef = useRef<number | null>(null);
+
+  const [party] = useState(getPartyOptions);
+  // The latest state from other guests not yet applied (held while idle)
+  const [remoteState, setRemoteState] = useState<SharedState | null>(null);
+  const [cheers, setCheers] = useState<ReadonlyArray<{ key: number; guest: Guest }>>(
+    []
+  );
+  const cheerKeyRef = useRef(0);
+  const [guestbookBackend] = useState(() =>
+    createLocalGuestbook(manifest.recipient.name)
+  );
+  const guestbook = useGuestbook(guestbookBackend);
+  const sceneAssets = useMemo(() => collectSceneAssets(manifest), [manifest]);
+  const assets = useAssetPreload(sceneAssets);
+  const areAssetsReady = assets.status === "ready";
+  const isEnvironmentMissing =
+    !!environment && assets.failed.some((asset) => asset.url === environment.file);
+
+  const hasAnimationCompleted = hasReached(phase, "ready");
+  const fireworksActive = hasReached(phase, "celebrating");
 
   useEffect(() => {
-    const audio = new Audio("/music.mp3");
-    audio.loop = true;
-    audio.preload = "auto";
-    backgroundAudioRef.current = audio;
-    return () => {
-      audio.pause();
-      backgroundAudioRef.current = null;
-    };
-  }, []);
+    if (phase !== "idle") {
+      persistPhase(manifest.recipient.name, phase);
+    }
+  }, [phase, manifest.recipient.name]);
 
-  const playBackgroundMusic = useCallback(() => {
-    const audio = backgroundAudioRef.current;
-    if (!audio) {
-      return;
+  useEffect(() => {
+    document.title = `Happy Birthday ${manifest.recipient.name}! 🎂`;
+  }, [manifest.recipient.name]);
+
+  // Intro music until the candles are out, then the celebration playlist
+  useEffect(() => {
+    if (phase !== "idle" && phase !== "singing") {
+      audioManager.playPlaylist(hasReached(phase, "celebrating") ? "celebration" : "intro");
     }
-    if (!audio.paused) {
+  }, [audioManager, phase]);
+
+  useEffect(() => {
+    lyricsRef.current = lyrics;
+  }, [lyrics]);
+
+  // The sing-along song replaces the intro music until it ends
+  useEffect(() => {
+    if (phase !== "singing" || !singAlong) {
       return;
     }
-    audio.currentTime = 0;
-    void audio.play().catch(() => {
-      // ignore play errors (browser might block)
+    let fallbackTimer = 0;
+    songClockRef.current = null;
+    audioManager.playTrack(singAlong.song, {
+      onEnded: () => dispatch({ type: "SONG_DONE" }),
+      onError: () => {
+        songClockRef.current = performance.now();
+        const duration = lyricsRef.current?.duration ?? 0;
+        fallbackTimer = window.setTimeout(
+          () => dispatch({ type: "SONG_DONE" }),
+          duration * 1000 + SONG_FALLBACK_TAIL_MS
+        );
+      },
     });
-  }, []);
+    return () => window.clearTimeout(fallbackTimer);
+  }, [audioManager, phase, singAlong]);
 
-  const typingComplete = currentLineIndex >= TYPED_LINES.length;
-  const typedLines = useMemo(() => {
-    if (TYPED_LINES.length === 0) {
-      return [""];
+  const getSongTime = useCallback(() => {
+    const clockStart = songClockRef.current;
+    if (clockStart !== null) {
+      return (performance.now() - clockStart) / 1000;
     }
+    return audioManager.musicTime() ?? 0;
+  }, [audioManager]);
 
-    return TYPED_LINES.map((line, index) => {
-      if (typingComplete || index < currentLineIndex) {
-        return line;
+  // Lower the music while a framed video plays with sound
+  useEffect(() => {
+    audioManager.setDucked(isMusicDucked);
+  }, [audioManager, isMusicDucked]);
+
+  const handleMediaAudibleChange = useCallback((id: string, audible: boolean) => {
+    setAudibleMediaIds((current) => {
+      if (current.has(id) === audible) {
+        return current;
       }
-      if (index === currentLineIndex) {
-        return line.slice(0, Math.min(currentCharIndex, line.length));
+      const next = new Set(current);
+      if (audible) {
+        next.add(id);
+      } else {
+        next.delete(id);
       }
-      return "";
+      return next;
     });
-  }, [currentCharIndex, currentLineIndex, typingComplete]);
-
-  const cursorLineIndex = typingComplete
-    ? Math.max(typedLines.length - 1, 0)
-    : currentLineIndex;
-  const cursorTargetIndex = Math.max(
-    Math.min(cursorLineIndex, typedLines.length - 1),
-    0
+  }, []);
+
+  const handleTypewriterStep = useCallback(
+    (step: TypewriterStep) => {
+      if (step.kind === "type" && step.char !== " ") {
+        audioManager.play("typing", { volume: TYPING_CLICK_VOLUME });
+      }
+    },
+    [audioManager]
+  );
+
+  const handleIntroMarker = useCallback(
+    (name: string) => {
+      if (name === INTRO_MARKERS.cakeLanded) {
+        audioManager.play("thud", { position: [0, 0, 0] });
+      } else if (name === INTRO_MARKERS.tableArrived) {
+        audioManager.play("thud", { position: [0, 0, 0], volume: TABLE_THUD_VOLUME });
+      }
+    },
+    [audioManager]
+  );
+
+  const handleFireworkBurst = useCallback(
+    (burst: CompiledBurst) => {
+      audioManager.play("pop", { position: burst.position });
+    },
+    [audioManager]
+  );
+
+  const typewriterSteps = useMemo(
+    () => compileScript(scriptLines, timings.typedCharDelay).steps,
+    [scriptLines, timings.typedCharDelay]
   );
 
+  const handleTypingComplete = useCallback(() => {
+    setTypingFinished(true);
+  }, []);
+
+  // The scene comes in once the typing is done and everything has loaded
   useEffect(() => {
-    if (!hasStarted) {
-      setCurrentLineIndex(0);
-      setCurrentCharIndex(0);
-      setSceneStarted(false);
-      setIsCandleLit(true);
-      setFireworksActive(false);
-      setHasAnimationCompleted(false);
+    if (phase !== "typing" || !typingFinished || !areAssetsReady) {
       return;
     }
+    const handle = window.setTimeout(() => {
+      dispatch({ type: "TYPING_DONE" });
+    }, timings.postTypingDelay);
+    return () => window.clearTimeout(handle);
+  }, [phase, typingFinished, areAssetsReady, timings.postTypingDelay]);
 
-    if (typingComplete) {
-      if (!sceneStarted) {
-        const handle = window.setTimeout(() => {
-          setSceneStarted(true);
-        }, POST_TYPING_SCENE_DELAY);
-        return () => window.clearTimeout(handle);
-      }
-      return;
-    }
+  const clearBlowTimers = useCallback(() => {
+    blowTimersRef.current.forEach((handle) => window.clearTimeout(handle));
+    blowTimersRef.current = [];
+  }, []);
 
-    const currentLine = TYPED_LINES[currentLineIndex] ?? "";
-    const handle = window.setTimeout(() => {
-      if (currentCharIndex < currentLine.length) {
-        setCurrentCharIndex((prev) => prev + 1);
-        return;
-      }
+  useEffect(() => clearBlowTimers, [clearBlowTimers]);
 
-      let nextLineIndex = currentLineIndex + 1;
-      while (
-        nextLineIndex < TYPED_LINES.length &&
-        TYPED_LINES[nextLineIndex].length === 0
-      ) {
-        nextLineIndex += 1;
+  // Puts out the candles a blow reaches, one after another; returns how long that takes
+  const blowCandles = useCallback(
+    (source: BlowSource) => {
+      const origin = blowOriginRef.current?.(source) ?? [0, 0, 0];
+      const ids = pickCandlesToBlow(candleLayout.candles, litCandleIds, origin);
+      if (ids.length > 0) {
+        audioManager.play("whoosh", { position: origin });
       }
+      ids.forEach((id, index) => {
+        const handle = window.setTimeout(() => {
+          setLitCandleIds((current) => {
+            const next = new Set(current);
+            next.delete(id);
+            return next;
+          });
+        }, index * CANDLE_BLOW_STAGGER);
+        blowTimersRef.current.push(handle);
+      });
+      return Math.max(0, ids.length - 1) * CANDLE_BLOW_STAGGER;
+    },
+    [candleLayout, litCandleIds, audioManager]
+  );
 
-      setCurrentLineIndex(nextLineIndex);
-      setCurrentCharIndex(0);
-    }, TYPED_CHAR_DELAY);
+  useEffect(() => {
+    if (phase === "ready" && litCandleIds.size === 0) {
+      dispatch({ type: "CANDLES_OUT" });
+    }
+  }, [phase, litCandleIds]);
 
-    return () => window.clearTimeout(handle);
-  }, [
-    hasStarted,
-    currentCharIndex,
-    currentLineIndex,
-    typingComplete,
-    sceneStarted,
-  ]);
+  const startExperience = useCallback(() => {
+    audioManager.unlock();
+    // Joining a party already under way picks up where the others are
+    if (remoteState && isPhase(remoteState.phase) && remoteState.phase !== "idle") {
+      dispatch({ type: "SYNC", phase: remoteState.phase });
+      return;
+    }
+    if (resumePhase === "idle") {
+      dispatch({ type: "START" });
+      return;
+    }
+    if (resumePhase === "celebrating") {
+      setLitCandleIds(new Set());
+    }
+    dispatch({ type: "RESUME", phase: resumePhase });
+  }, [resumePhase, remoteState, audioManager]);
 
-  useEffect(() => {
-    const handle = window.setInterval(() => {
-      setCursorVisible((prev) => !prev);
-    }, CURSOR_BLINK_INTERVAL);
-    return () => window.clearInterval(handle);
+  const handleSkipIntro = useCallback(() => {
+    dispatch({ type: "SKIP_INTRO" });
   }, []);
 
+  const restartIntro = useCallback(() => {
+    clearBlowTimers();
+    setTypingFinished(false);
+    setTypewriterRun((run) => run + 1);
+    setCakePieces(null);
+    setServings(null);
+    audioManager.playPlaylist("intro", { restart: true });
+  }, [clearBlowTimers, audioManager]);
+
+  const handleReplay = useCallback(() => {
+    restartIntro();
+    setLitCandleIds(allCandleIds);
+    setActiveItemId(null);
+    dispatch({ type: "REPLAY" });
+  }, [allCandleIds, restartIntro]);
+
+  const handleCelebrate = useCallback(() => {
+    clearBlowTimers();
+    setLitCandleIds(new Set());
+    dispatch({ type: "CELEBRATE" });
+  }, [clearBlowTimers]);
+
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
       if (event.code !== "Space" && event.key !== " ") {
         return;
       }
+      // Spaces typed into the guestbook stay there
+      if (event.target instanceof HTMLInputElement) {
+        return;
+      }
       event.preventDefault();
-      if (!hasStarted) {
-        playBackgroundMusic();
-        setHasStarted(true);
+      if (phase === "idle") {
+        startExperience();
         return;
       }
-      if (hasAnimationCompleted && isCandleLit) {
-        setIsCandleLit(false);
-        setFireworksActive(true);
+      if (phase === "ready" && isCandleLit) {
+        blowCandles("viewer");
       }
     };
 
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [hasStarted, hasAnimationCompleted, isCandleLit, playBackgroundMusic]);
+  }, [phase, isCandleLit, blowCandles, startExperience]);
 
   const handleTouchOrClick = useCallback(() => {
-    if (!hasStarted) {
-      playBackgroundMusic();
-      setHasStarted(true);
+    if (phase === "idle") {
+      startExperience();
       return;
     }
-    if (hasAnimationCompleted && isCandleLit) {
-      setIsCandleLit(false);
-      setFireworksActive(true);
+    // In the editor, clicks select and drag items instead of blowing
+    if (phase === "ready" && isCandleLit && !isEditing) {
+      blowCandles("pointer");
     }
-  }, [hasStarted, hasAnimationCompleted, isCandleLit, playBackgroundMusic]);
+  }, [phase, isCandleLit, isEditing, blowCandles, startExperience]);
 
-  const handleItemToggle = useCallback((id: string) => {
-    setActiveItemId((current) => (current === id ? null : id));
-  }, []);
+  const handleMicrophoneBlow = useCallback(() => blowCandles("viewer"), [blowCandles]);
+
+  const microphone = useMicrophoneBlow({
+    active:
+      manifest.blow.microphone && phase === "ready" && isCandleLit && !isEditing,
+    sensitivity: micSensitivity,
+    onBlow: handleMicrophoneBlow,
+  });
+
+  const handleItemToggle = useCallback(
+    (id: string) => {
+      if (isEditing) {
+        setEditorSelectedId((current) => (current === id ? null : id));
+        return;
+      }
+      setActiveItemId((current) => (current === id ? null : id));
+      if (manifest.contributors.some((contributor) => contributor.id === id)) {
+        setReadMessageIds((current) => {
+          if (current.has(id)) {
+            return current;
+          }
+          const next = new Set(current).add(id);
+          persistReadMessages(manifest.recipient.name, next);
+          return next;
+        });
+      }
+    },
+    [isEditing, manifest.contributors, manifest.recipient.name]
+  );
+
+  const handleItemTransformChange = useCallback(
+    (id: string, position: Vec3, rotation: Vec3) => {
+      setCards((list) =>
+        list.map((card) =>
+          card.id === id ? { ...card, position, rotation } : card
+        )
+      );
+      setFrames((list) =>
+        list.map((frame) =>
+          frame.id === id ? { ...frame, position, rotation } : frame
+        )
+      );
+    },
+    []
+  );
 
   const handleCakeClick = useCallback(() => {
-    // Only allow re-lighting if animation is complete and candle is blown out
-    if (hasAnimationCompleted && !isCandleLit) {
-      setIsCandleLit(true);
-      setFireworksActive(false);
+    // Only allow re-lighting once the celebration has started (every candle is out)
+    if (phase === "celebrating") {
+      clearBlowTimers();
+      setLitCandleIds(allCandleIds);
+      dispatch({ type: "RELIGHT" });
     }
-  }, [hasAnimationCompleted, isCandleLit]);
+  }, [phase, allCandleIds, clearBlowTimers]);
 
-  const isScenePlaying = hasStarted && sceneStarted;
+  const handleCutCake = useCallback(() => {
+    dispatch({ type: "CUT_CAKE" });
+  }, []);
+
+  const handleKnifeCut = useCallback(
+    (from: Point, to: Point) => {
+      const current = cakePieces ?? wholeCake(cakeLayout.tiers[0].radius);
+      const next = cutPieces(current, from, to);
+      if (next.length === current.length) {
+        return;
+      }
+      setCakePieces(next);
+      audioManager.play("whoosh", {
+        position: [(from[0] + to[0]) / 2, cakeLayout.top.height, (from[1] + to[1]) / 2],
+      });
+    },
+    [cakePieces, cakeLayout, audioManager]
+  );
+
+  const handleServe = useCallback(() => {
+    if (cakePieces) {
+      setServings(assignSeats(cakePieces, PLATE_SEATS));
+    }
+  }, [cakePieces]);
+
+  const handleSliceLanded = useCallback(
+    (position: Vec3) => {
+      audioManager.play("thud", { position, volume: SLICE_THUD_VOLUME });
+    },
+    [audioManager]
+  );
+
+  const cutting = useMemo<CakeCutting | undefined>(
+    () =>
+      phase === "cutting"
+        ? {
+            config: cakeConfig,
+            layout: cakeLayout,
+            pieces: cakePieces,
+            servings,
+            onCut: handleKnifeCut,
+            onSliceLanded: handleSliceLanded,
+          }
+        : undefined,
+    [phase, cakeConfig, cakeLayout, cakePieces, servings, handleKnifeCut, handleSliceLanded]
+  );
+
+  const handleCheer = useCallback(
+    (guest: Guest) => {
+      const key = (cheerKeyRef.current += 1);
+      setCheers((current) => [...current, { key, guest }].slice(-MAX_VISIBLE_CHEERS));
+      window.setTimeout(() => {
+        setCheers((current) => current.filter((cheer) => cheer.key !== key));
+      }, CHEER_VISIBLE_MS);
+      audioManager.play("pop", { volume: CHEER_POP_VOLUME });
+    },
+    [audioManager]
+  );
+
+  const partySync = usePartySync({
+    party,
+    onRemoteState: setRemoteState,
+    onCheer: handleCheer,
+  });
+  const { publish: publishPartyState, cheer: sendCheer } = partySync;
+
+  const handleSendCheer = useCallback(() => {
+    sendCheer();
+    handleCheer(SELF_GUEST);
+  }, [sendCheer, handleCheer]);
+
+  // Follow the other guests once this page has been tapped into the party
+  useEffect(() => {
+    if (!remoteState || phase === "idle") {
+      return;
+    }
+    setRemoteState(null);
+    const remotePhase = remoteState.phase;
+    if (isPhase(remotePhase) && remotePhase !== phase) {
+      if (!followsRemotePhase(phase, remotePhase)) {
+        return;
+      }
+      if (remotePhase === "typing") {
+        restartIntro();
+      }
+      dispatch({ type: "SYNC", phase: remotePhase });
+    }
+    clearBlowTimers();
+    setLitCandleIds(
+      new Set(remoteState.litCandleIds.filter((id) => allCandleIds.has(id)))
+    );
+    setActiveItemId(remoteState.activeItemId);
+  }, [remoteState, phase, allCandleIds, clearBlowTimers, restartIntro]);
+
+  // Share this page's changes; what came from the others diffs to nothing
+  useEffect(() => {
+    if (phase === "idle") {
+      return;
+    }
+    publishPartyState({
+      phase,
+      litCandleIds: candleLayout.candles
+        .filter((candle) => litCandleIds.has(candle.id))
+        .map((candle) => candle.id),
+      activeItemId,
+    });
+  }, [publishPartyState, phase, candleLayout, litCandleIds, activeItemId]);
+
+  const introMode: TimelineMode =
+    phase === "sceneIntro"
+      ? "playing"
+      : hasReached(phase, "singing")
+        ? "finished"
+        : "rewound";
 
   return (
     <div className="App" onClick={handleTouchOrClick}>
@@ -578,68 +1042,229 @@ export default function App() {
         className="background-overlay"
         style={{ opacity: backgroundOpacity }}
       >
-        {!hasStarted && (
+        {phase === "idle" && (
            <div className="space-hint">
-             &gt; {isMobileDevice() ? "tap the screen" : "tap the screen"} to start
+             &gt; {isMobileDevice() ? "tap the screen" : "tap the screen"} to{" "}
+             {resumePhase === "idle" ? "start" : "continue"}
            </div>
         )}
-        <div className="typed-text">
-          {typedLines.map((line, index) => {
-            const showCursor =
-              cursorVisible &&
-              index === cursorTargetIndex &&
-              (!typingComplete || !sceneStarted);
-            return (
-              <span className="typed-line" key={`typed-line-${index}`}>
-                {line || "\u00a0"}
-                {showCursor && (
-                  <span aria-hidden="true" className="typed-cursor">
-                    _
-                  </span>
-                )}
-              </span>
-            );
-          })}
-        </div>
+        <Typewriter
+          key={typewriterRun}
+          steps={typewriterSteps}
+          running={phase === "typing"}
+          finished={hasReached(phase, "sceneIntro")}
+          showCursor={phase === "idle" || phase === "typing"}
+          onComplete={handleTypingComplete}
+          onStep={handleTypewriterStep}
+        />
+        <AssetProgress preload={assets} />
       </div>
-      {hasAnimationCompleted && isCandleLit && (
-        <div className="hint-overlay">tap the screen to blow out the candle</div>
+      {phase === "singing" && lyrics && (
+        <SingAlong lyrics={lyrics} getTime={getSongTime} />
       )}
-      <Canvas
-        gl={{ alpha: true }}
-        style={{ background: "transparent" }}
-        onCreated={({ gl }) => {
-          gl.setClearColor("#000000", 0);
-        }}
-      >
-        <Suspense fallback={null}>
-          <AnimatedScene
-            isPlaying={isScenePlaying}
-            candleLit={isCandleLit}
-            onBackgroundFadeChange={setBackgroundOpacity}
-            onEnvironmentProgressChange={setEnvironmentProgress}
-            onAnimationComplete={() => setHasAnimationCompleted(true)}
-            cards={BIRTHDAY_CARDS}
-            frames={PICTURE_FRAMES}
-            activeItemId={activeItemId}
-            onToggleItem={handleItemToggle}
-            onCakeClick={handleCakeClick}
-          />
-          <ambientLight intensity={(1 - environmentProgress) * 0.8} />
-          <directionalLight intensity={0.5} position={[2, 10, 0]} color={[1, 0.9, 0.95]}/>
-          <Environment
-            files={["/shanghai_bund_4k.hdr"]}
-            backgroundRotation={[0, 3.3, 0]}
-            environmentRotation={[0, 3.3, 0]}
-            background
-            environmentIntensity={0.1 * environmentProgress}
-            backgroundIntensity={0.05 * environmentProgress}
+      {hasAnimationCompleted && isCandleLit && !isEditing && (
+        <div className="hint-overlay">
+          {microphone.status === "listening"
+            ? "blow or tap to put out the candle"
+            : "tap the screen to blow out the candle"}
+        </div>
+      )}
+      {phase === "cutting" && !servings && !isEditing && (
+        <div className="hint-overlay">
+          {cakePieces
+            ? "keep cutting, or serve the slices"
+            : "drag a knife across the cake to cut it"}
+        </div>
+      )}
+      {hasAnimationCompleted &&
+        isCandleLit &&
+        !isEditing &&
+        manifest.blow.microphone && (
+          <MicrophonePrompt
+            status={microphone.status}
+            sensitivity={micSensitivity}
+            onRequest={() => void microphone.request()}
+            onSensitivityChange={setMicSensitivity}
           />
-          <EnvironmentBackgroundController intensity={0.05 * environmentProgress} />
-          <Fireworks isActive={fireworksActive} origin={[0, 10, 0]} />
-          <ConfiguredOrbitControls />
-        </Suspense>
-      </Canvas>
+        )}
+      {phase !== "idle" && !isEditing && (
+        <ExperienceControls
+          phase={phase}
+          onSkipIntro={handleSkipIntro}
+          onCelebrate={handleCelebrate}
+          onCutCake={handleCutCake}
+          onServe={cakePieces && !servings ? handleServe : undefined}
+          onReplay={handleReplay}
+          introTimelineRef={introTimelineRef}
+        />
+      )}
+      {phase !== "idle" && !isEditing && (
+        <AudioControls
+          volume={audio.volume}
+          muted={audio.muted}
+          onVolumeChange={audio.setVolume}
+          onToggleMuted={audio.toggleMuted}
+        />
+      )}
+      {hasAnimationCompleted && !isEditing && (
+        <GuestbookOverlay
+          reactions={DEFAULT_REACTIONS}
+          entries={guestbook.entries}
+          defaultAuthor={party?.name}
+          isRaised={isCandleLit}
+          onReact={guestbook.react}
+          onPost={guestbook.post}
+        />
+      )}
+      {party && phase !== "idle" && !isEditing && (
+        <PartyPanel
+          room={party.room}
+          status={partySync.status}
+          guests={partySync.guests}
+          cheers={cheers}
+          onCheer={handleSendCheer}
+        />
+      )}
+      {isEditing && hasAnimationCompleted && (
+        <EditorPanel
+          manifest={manifest}
+          cards={cards}
+          frames={frames}
+          selectedId={editorSelectedId}
+          onSelect={setEditorSelectedId}
+        />
+      )}
+      <ErrorBoundary label="Scene failed" fallback={(error) => <SceneCrash error={error} />}>
+        <Canvas
+          gl={{ alpha: true }}
+          style={{ background: "transparent" }}
+          onCreated={({ gl }) => {
+            gl.setClearColor("#000000", 0);
+          }}
+        >
+          {areAssetsReady && (
+            <Suspense fallback={null}>
+              <AnimatedScene
+                introMode={introMode}
+                candles={candleLayout.candles}
+                candleScale={candleLayout.scale}
+                litCandleIds={litCandleIds}
+                candleWind={microphone.detectorRef}
+                onBackgroundFadeChange={setBackgroundOpacity}
+                onEnvironmentProgressChange={setEnvironmentProgress}
+                onAnimationComplete={() =>
+                  dispatch({ type: singAlong ? "START_SONG" : "INTRO_DONE" })
+                }
+                onIntroMarker={handleIntroMarker}
+                timelineRef={introTimelineRef}
+                cards={cards}
+                frames={frames}
+                contributors={manifest.contributors}
+                readMessageIds={readMessageIds}
+                templateValues={templateValues}
+                timings={timings}
+                activeItemId={activeItemId}
+                onToggleItem={handleItemToggle}
+                cake={manifest.cake}
+                cakeTop={cakeTop}
+                onCakeClick={handleCakeClick}
+                onMediaAudibleChange={handleMediaAudibleChange}
+                celebrationEffects={manifest.celebration.effects}
+                isCelebrating={fireworksActive}
+                cutting={cutting}
+                editor={
+                  isEditing && hasAnimationCompleted
+                    ? {
+                        selectedId: editorSelectedId,
+                        onChange: handleItemTransformChange,
+                      }
+                    : undefined
+                }
+              />
+              <ambientLight intensity={(1 - environmentProgress) * 0.8} />
+              <directionalLight intensity={0.5} position={[2, 10, 0]} color={[1, 0.9, 0.95]}/>
+              {environment && !isEnvironmentMissing && (
+                <ErrorBoundary
+                  label={`Environment ${environment.file} failed to load`}
+                  fallback={<SolidEnvironment progress={environmentProgress} />}
+                >
+                  <Environment
+                    files={[environment.file]}
+                    backgroundRotation={[0, environment.rotation, 0]}
+                    environmentRotation={[0, environment.rotation, 0]}
+                    background
+                    environmentIntensity={0.1 * environmentProgress}
+                    backgroundIntensity={0.05 * environmentProgress}
+                  />
+                </ErrorBoundary>
+              )}
+              {isEnvironmentMissing && <SolidEnvironment progress={environmentProgress} />}
+              <EnvironmentBackgroundController intensity={0.05 * environmentProgress} />
+              {manifest.celebration.effects.includes("fireworks") && (
+                <Fireworks
+                  isActive={fireworksActive}
+                  origin={[0, 10, 0]}
+                  show={manifest.fireworks}
+                  age={manifest.recipient.age}
+                  getMusicTime={audioManager.musicTime}
+                  onBurst={handleFireworkBurst}
+                />
+              )}
+              <FloatingReactions reactions={guestbook.reactions} />
+              {party && (
+                <>
+                  <PartyPointer onMove={partySync.sendCursor} />
+                  <PartyGuests guests={partySync.guests} />
+                </>
+              )}
+              <AudioListenerSync manager={audioManager} />
+              <BlowOriginProbe probeRef={blowOriginRef} cakeTop={cakeTop} />
+              <ConfiguredOrbitControls />
+            </Suspense>
+          )}
+        </Canvas>
+      </ErrorBoundary>
     </div>
   );
 }
+
+function ScenePage() {
+  const scene = useSceneManifest();
+
+  if (scene.status === "loading") {
+    return (
+      <div className="App">
+        <div className="background-overlay">
+          <div className="typed-text">
+            <span className="typed-line">&gt; loading scene...</span>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (scene.status === "error") {
+    return (
+      <div className="App">
+        <div className="background-overlay">
+          <div className="scene-error" role="alert">
+            <p>&gt; could not load {scene.error.source}</p>
+            <ul>
+              {formatIssues(scene.error.issues).map((line) => (
+                <li key={line}>{line}</li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return <Experience manifest={scene.manifest} />;
+}
+
+export default function App() {
+  const [isCreating] = useState(isCreatorRequested);
+
+  return isCreating ? <CreatorWizard /> : <ScenePage />;
+}
@@ -0,0 +1,435 @@
+import { SOUND_EFFECTS, SYNTHS, type SoundEffect } from "./soundEffects";
+
+/**
+ * Everything the scene plays goes through one Web Audio graph:
+ *
+ *   music decks → music bus (ducking) ┐
+ *   sound effects (optionally panned) ┴→ master (volume, mute) → speakers
+ *
+ * Music is a playlist per phase. Each track plays on its own "deck" (a media
+ * element routed into the graph, so long files stream instead of being
+ * decoded up front) and the next deck fades in over the last seconds of the
+ * current one. Files that fail to load are skipped and the rest of the
+ * scene carries on, silently if need be.
+ */
+
+type Vec3 = [number, number, number];
+
+export type MusicConfig = {
+  /** Plays from the start until the candles are out. */
+  intro: string[];
+  /** Plays during the celebration; the intro music carries on if empty. */
+  celebration: string[];
+  /** Seconds to crossfade between tracks and between playlists. */
+  crossfade: number;
+};
+
+export type Playlist = "intro" | "celebration";
+
+/** Recordings to use instead of the built-in effects. */
+export type SoundFiles = Partial<Record<SoundEffect, string>>;
+
+export type PlayEffectOptions = {
+  /** Where the sound comes from in the scene; it plays centred otherwise. */
+  position?: Vec3;
+  volume?: number;
+};
+
+export type AudioManager = {
+  /** Creates or resumes the audio context; call it from a user gesture. */
+  unlock: () => void;
+  setMusic: (config: MusicConfig) => void;
+  setSoundFiles: (files: SoundFiles) => void;
+  /** Switches playlists with a crossfade; `restart` replays the current one. */
+  playPlaylist: (name: Playlist, options?: { restart?: boolean }) => void;
+  /**
+   * Plays one track in place of the playlists, e.g. the sing-along song.
+   * `onError` is called instead of `onEnded` if it cannot be played.
+   */
+  playTrack: (
+    url: string,
+    callbacks: { onEnded: () => void; onError: () => void }
+  ) => void;
+  stopMusic: () => void;
+  /** Position in the playing track in seconds, if music is playing. */
+  musicTime: () => number | undefined;
+  play: (effect: SoundEffect, options?: PlayEffectOptions) => void;
+  setListener: (position: Vec3, forward: Vec3, up: Vec3) => void;
+  setVolume: (volume: number) => void;
+  setMuted: (muted: boolean) => void;
+  /** Turns the music down, e.g. while a clip with sound plays. */
+  setDucked: (ducked: boolean) => void;
+  dispose: () => void;
+};
+
+type Deck = {
+  url: string;
+  element: HTMLAudioElement;
+  gain: GainNode;
+  /** Set once the next track has started fading in over this one. */
+  handedOver: boolean;
+};
+
+type DeckOptions = {
+  loop: boolean;
+  /** Seconds before the end at which `onEnd` fires, to start a crossfade. */
+  endLead: number;
+  onEnd: () => void;
+  onError: () => void;
+};
+
+export const DEFAULT_CROSSFADE = 2;
+const FIRST_FADE = 0.4;
+const DUCKED_VOLUME = 0.2;
+const DUCK_TIME_CONSTANT = 0.13;
+const VOLUME_TIME_CONSTANT = 0.05;
+
+/** Accepts the manifest's shorthand, where a single file is the intro loop. */
+export function toMusicConfig(music: string | MusicConfig | undefined): MusicConfig {
+  if (music === undefined) {
+    return { intro: [], celebration: [], crossfade: DEFAULT_CROSSFADE };
+  }
+  if (typeof music === "string") {
+    return { intro: [music], celebration: [], crossfade: DEFAULT_CROSSFADE };
+  }
+  return music;
+}
+
+const playlistTracks = (config: MusicConfig, name: Playlist) =>
+  name === "celebration" && config.celebration.length > 0
+    ? config.celebration
+    : config.intro;
+
+export function createAudioManager(): AudioManager {
+  let context: AudioContext | null = null;
+  let master: GainNode | null = null;
+  let musicBus: GainNode | null = null;
+  let effectsBus: GainNode | null = null;
+
+  let music = toMusicConfig(undefined);
+  let soundFiles: SoundFiles = {};
+  let soundsGeneration = 0;
+  const recordings = new Map<SoundEffect, AudioBuffer>();
+
+  let playlist: Playlist | null = null;
+  let trackIndex = 0;
+  let current: Deck | null = null;
+  const failedUrls = new Set<string>();
+  const fadeTimers = new Set<number>();
+
+  let volume = 1;
+  let muted = false;
+  let ducked = false;
+
+  const applyVolume = () => {
+    if (context && master) {
+      master.gain.setTargetAtTime(
+        muted ? 0 : volume,
+        context.currentTime,
+        VOLUME_TIME_CONSTANT
+      );
+    }
+  };
+
+  const applyDucking = () => {
+    if (context && musicBus) {
+      musicBus.gain.setTargetAtTime(
+        ducked ? DUCKED_VOLUME : 1,
+        context.currentTime,
+        DUCK_TIME_CONSTANT
+      );
+    }
+  };
+
+  const loadSoundFiles = () => {
+    const audioContext = context;
+    if (!audioContext) {
+      return;
+    }
+    soundsGeneration += 1;
+    const generation = soundsGeneration;
+    recordings.clear();
+    for (const effect of SOUND_EFFECTS) {
+      const url = soundFiles[effect];
+      if (!url) {
+        continue;
+      }
+      fetch(url)
+        .then((response) => {
+          if (!response.ok) {
+            throw new Error(`${response.status} ${response.statusText}`);
+          }
+          return response.arrayBuffer();
+        })
+        .then((data) => audioContext.decodeAudioData(data))
+        .then((buffer) => {
+          if (generation === soundsGeneration) {
+            recordings.set(effect, buffer);
+          }
+        })
+        .catch((error: unknown) => {
+          console.warn(`Sound ${url} failed to load, using the built-in "${effect}"`, error);
+        });
+    }
+  };
+
+  const ensureContext = () => {
+    if (context || typeof AudioContext === "undefined") {
+      return context;
+    }
+    context = new AudioContext();
+    master = context.createGain();
+    master.connect(context.destination);
+    musicBus = context.createGain();
+    musicBus.connect(master);
+    effectsBus = context.createGain();
+    effectsBus.connect(master);
+    master.gain.value = muted ? 0 : volume;
+    musicBus.gain.value = ducked ? DUCKED_VOLUME : 1;
+    loadSoundFiles();
+    return context;
+  };
+
+  const retireDeck = (deck: Deck, fade: number) => {
+    if (!context) {
+      deck.element.pause();
+      return;
+    }
+    const now = context.currentTime;
+    deck.gain.gain.cancelScheduledValues(now);
+    deck.gain.gain.setValueAtTime(deck.gain.gain.value, now);
+    deck.gain.gain.linearRampToValueAtTime(0, now + fade);
+    const handle = window.setTimeout(() => {
+      fadeTimers.delete(handle);
+      deck.element.pause();
+      deck.element.removeAttribute("src");
+      deck.gain.disconnect();
+    }, fade * 1000 + 50);
+    fadeTimers.add(handle);
+  };
+
+  const openDeck = (
+    audioContext: AudioContext,
+    bus: AudioNode,
+    url: string,
+    fade: number,
+    options: DeckOptions
+  ) => {
+    const element = new Audio(url);
+    element.preload = "auto";
+    element.loop = options.loop;
+    const gain = audioContext.createGain();
+    gain.gain.setValueAtTime(0, audioContext.currentTime);
+    gain.gain.linearRampToValueAtTime(1, audioContext.currentTime + fade);
+    audioContext.createMediaElementSource(element).connect(gain).connect(bus);
+    const deck: Deck = { url, element, gain, handedOver: false };
+
+    const end = () => {
+      if (current === deck && !deck.handedOver) {
+        deck.handedOver = true;
+        options.onEnd();
+      }
+    };
+    element.addEventListener("timeupdate", () => {
+      if (!element.loop && element.duration - element.currentTime <= options.endLead) {
+        end();
+      }
+    });
+    element.addEventListener("ended", end);
+    element.addEventListener("error", () => {
+      console.warn(`Music ${url} failed to load and was skipped`);
+      failedUrls.add(url);
+      if (current === deck) {
+        deck.handedOver = true;
+        options.onError();
+      }
+    });
+    void element.play().catch(() => {
+      // Autoplay can be refused before the first gesture; unlock() retries
+    });
+    return deck;
+  };
+
+  const startTrack = (index: number, fade: number) => {
+    const tracks = playlist ? playlistTracks(music, playlist) : [];
+    const playable = tracks.filter((url) => !failedUrls.has(url));
+    const previous = current;
+    current = null;
+    if (previous) {
+      retireDeck(previous, fade);
+    }
+    if (!context || !musicBus || playable.length === 0) {
+      return;
+    }
+
+    trackIndex = index % playable.length;
+    current = openDeck(context, musicBus, playable[trackIndex], fade, {
+      // A single track loops on its own; playlists hand over to the next track
+      loop: playable.length === 1,
+      endLead: music.crossfade,
+      onEnd: () => startTrack(trackIndex + 1, music.crossfade),
+      onError: () => startTrack(trackIndex, 0),
+    });
+  };
+
+  return {
+    unlock: () => {
+      const audioContext = ensureContext();
+      if (audioContext?.state === "suspended") {
+        void audioContext.resume();
+      }
+      if (current?.element.paused) {
+        void current.element.play().catch(() => {});
+      }
+    },
+    setMusic: (config) => {
+      music = config;
+      if (playlist) {
+        startTrack(0, music.crossfade);
+      }
+    },
+    setSoundFiles: (files) => {
+      soundFiles = files;
+      loadSoundFiles();
+    },
+    playPlaylist: (name, options = {}) => {
+      const wasPlaying = current !== null;
+      const sameTracks =
+        playlist !== null && playlistTracks(music, playlist) === playlistTracks(music, name);
+      playlist = name;
+      if (wasPlaying && sameTracks && !options.restart) {
+        return;
+      }
+      ensureContext();
+      startTrack(0, wasPlaying ? music.crossfade : FIRST_FADE);
+    },
+    playTrack: (url, { onEnded, onError }) => {
+      playlist = null;
+      const previous = current;
+      current = null;
+      if (previous) {
+        retireDeck(previous, FIRST_FADE);
+      }
+      const audioContext = ensureContext();
+      if (!audioContext || !musicBus || failedUrls.has(url)) {
+        onError();
+        return;
+      }
+      current = openDeck(audioContext, musicBus, url, FIRST_FADE, {
+        loop: false,
+        endLead: 0,
+        onEnd: onEnded,
+        onError,
+      });
+    },
+    stopMusic: () => {
+      playlist = null;
+      if (current) {
+        retireDeck(current, FIRST_FADE);
+        current = null;
+      }
+    },
+    musicTime: () =>
+      current && !current.element.paused ? current.element.currentTime : undefined,
+    play: (effect, options = {}) => {
+      // Nothing plays before the first gesture has unlocked the context
+      if (!context || !effectsBus || context.state !== "running") {
+        return;
+      }
+      const gain = context.createGain();
+      gain.gain.value = options.volume ?? 1;
+      if (options.position) {
+        const panner = context.createPanner();
+        panner.panningModel = "HRTF";
+        panner.distanceModel = "inverse";
+        panner.refDistance = 4;
+        [panner.positionX.value, panner.positionY.value, panner.positionZ.value] =
+          options.position;
+        gain.connect(panner).connect(effectsBus);
+      } else {
+        gain.connect(effectsBus);
+      }
+
+      const recording = recordings.get(effect);
+      if (recording) {
+        const source = context.createBufferSource();
+        source.buffer = recording;
+        source.connect(gain);
+        source.start();
+      } else {
+        SYNTHS[effect](context, gain, context.currentTime);
+      }
+    },
+    setListener: (position, forward, up) => {
+      if (!context) {
+        return;
+      }
+      const { listener } = context;
+      [listener.positionX.value, listener.positionY.value, listener.positionZ.value] =
+        position;
+      [listener.forwardX.value, listener.forwardY.value, listener.forwardZ.value] =
+        forward;
+      [listener.upX.value, listener.upY.value, listener.upZ.value] = up;
+    },
+    setVolume: (value) => {
+      volume = value;
+      applyVolume();
+    },
+    setMuted: (value) => {
+      muted = value;
+      applyVolume();
+    },
+    setDucked: (value) => {
+      ducked = value;
+      applyDucking();
+    },
+    dispose: () => {
+      fadeTimers.forEach((handle) => window.clearTimeout(handle));
+      fadeTimers.clear();
+      current?.element.pause();
+      current = null;
+      playlist = null;
+      recordings.clear();
+      soundsGeneration += 1;
+      void context?.close();
+      context = null;
+      master = null;
+      musicBus = null;
+      effectsBus = null;
+    },
+  };
+}
+
+export type AudioSettings = {
+  volume: number;
+  muted: boolean;
+};
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = { volume: 0.8, muted: false };
+
+const SETTINGS_KEY = "birthday-cake:audio";
+
+export function loadAudioSettings(): AudioSettings {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(SETTINGS_KEY) ?? "null");
+    if (
+      typeof stored?.volume === "number" &&
+      stored.volume >= 0 &&
+      stored.volume <= 1 &&
+      typeof stored.muted === "boolean"
+    ) {
+      return { volume: stored.volume, muted: stored.muted };
+    }
+  } catch {
+    // Fall through to the defaults
+  }
+  return DEFAULT_AUDIO_SETTINGS;
+}
+
+export function persistAudioSettings(settings: AudioSettings) {
+  try {
+    window.localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage can be unavailable (private mode, quota); the defaults will do
+  }
+}
@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import {
+  analyzeFrame,
+  DEFAULT_BLOW_SETTINGS,
+  detectBlow,
+  INITIAL_BLOW_STATE,
+  stepBlowDetector,
+  thresholdForSensitivity,
+} from "./blowDetector";
+
+const SAMPLE_RATE = 44100;
+const FRAME_SIZE = 1024;
+const FRAME_MS = (FRAME_SIZE / SAMPLE_RATE) * 1000;
+
+/**
+ * Seeded noise standing in for a recording: breath into a mic is noise with
+ * its energy below a few hundred hertz; hiss (speech, a fan) is spread evenly.
+ */
+function recording(seed: number, frames: number, amplitude: number, cutoffHz?: number) {
+  const samples = new Float32Array(frames * FRAME_SIZE);
+  const alpha = cutoffHz ? 1 / (1 + SAMPLE_RATE / (2 * Math.PI * cutoffHz)) : 1;
+  let state = seed;
+  let filtered = 0;
+  for (let i = 0; i < samples.length; i += 1) {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    filtered += alpha * ((state / 2 ** 32) * 2 - 1 - filtered);
+    samples[i] = filtered * amplitude;
+  }
+  return samples;
+}
+
+const breath = (frames: number, amplitude = 2) => recording(1, frames, amplitude, 150);
+const hiss = (frames: number) => recording(2, frames, 0.5);
+const silence = (frames: number) => new Float32Array(frames * FRAME_SIZE);
+
+const framesOf = (...buffers: Float32Array[]) =>
+  buffers.flatMap((buffer) =>
+    Array.from({ length: buffer.length / FRAME_SIZE }, (_, index) =>
+      buffer.subarray(index * FRAME_SIZE, (index + 1) * FRAME_SIZE)
+    )
+  );
+
+describe("analyzeFrame", () => {
+  it("finds most of a breath's energy below the cutoff", () => {
+    const features = analyzeFrame(breath(1), SAMPLE_RATE);
+
+    expect(features.lowRatio).toBeGreaterThan(DEFAULT_BLOW_SETTINGS.minLowRatio);
+    expect(features.lowRms).toBeGreaterThan(thresholdForSensitivity(0.5));
+  });
+
+  it("finds little of a hiss's energy below the cutoff", () => {
+    const features = analyzeFrame(hiss(1), SAMPLE_RATE);
+
+    expect(features.rms).toBeGreaterThan(0.2);
+    expect(features.lowRatio).toBeLessThan(0.1);
+  });
+
+  it("ignores a DC offset", () => {
+    const offset = new Float32Array(FRAME_SIZE).fill(0.4);
+
+    expect(analyzeFrame(offset, SAMPLE_RATE)).toEqual({ rms: 0, lowRms: 0, lowRatio: 0 });
+  });
+
+  it("reads silence and empty frames as nothing", () => {
+    expect(analyzeFrame(silence(1), SAMPLE_RATE)).toEqual({ rms: 0, lowRms: 0, lowRatio: 0 });
+    expect(analyzeFrame([], SAMPLE_RATE)).toEqual({ rms: 0, lowRms: 0, lowRatio: 0 });
+  });
+});
+
+describe("stepBlowDetector", () => {
+  const loud = { rms: 0.2, lowRms: 0.18, lowRatio: 0.8 };
+  const quiet = { rms: 0, lowRms: 0, lowRatio: 0 };
+
+  it("builds progress while the breath lasts and latches once it is long enough", () => {
+    let state = INITIAL_BLOW_STATE;
+    for (let frame = 0; frame < 6; frame += 1) {
+      state = stepBlowDetector(state, loud, 50);
+    }
+    expect(state.sustainedMs).toBe(300);
+    expect(state.progress).toBeCloseTo(300 / 350);
+    expect(state.strength).toBeGreaterThan(0);
+    expect(state.blown).toBe(false);
+
+    state = stepBlowDetector(state, loud, 50);
+    expect(state.blown).toBe(true);
+    // Stays blown after the breath stops
+    expect(stepBlowDetector(state, quiet, 500).blown).toBe(true);
+  });
+
+  it("lets progress decay while the breath pauses", () => {
+    const started = stepBlowDetector(INITIAL_BLOW_STATE, loud, 200);
+    const paused = stepBlowDetector(started, quiet, 50);
+
+    expect(paused.sustainedMs).toBe(150);
+    expect(paused.strength).toBeLessThan(started.strength);
+    expect(stepBlowDetector(paused, quiet, 500).sustainedMs).toBe(0);
+  });
+
+  it("needs the energy to sit low, however loud the frame", () => {
+    const state = stepBlowDetector(INITIAL_BLOW_STATE, { ...loud, lowRatio: 0.3 }, 400);
+
+    expect(state.sustainedMs).toBe(0);
+    expect(state.blown).toBe(false);
+  });
+});
+
+describe("detectBlow", () => {
+  it("blows the candles out on a sustained breath", () => {
+    expect(detectBlow(framesOf(silence(5), breath(20)), SAMPLE_RATE).blown).toBe(true);
+  });
+
+  it("ignores a short puff, hiss and silence", () => {
+    const puffFrames = Math.floor(DEFAULT_BLOW_SETTINGS.minDurationMs / FRAME_MS) - 2;
+
+    expect(detectBlow(framesOf(breath(puffFrames), silence(10)), SAMPLE_RATE).blown).toBe(false);
+    expect(detectBlow(framesOf(hiss(40)), SAMPLE_RATE).blown).toBe(false);
+    expect(detectBlow(framesOf(silence(40)), SAMPLE_RATE)).toEqual(INITIAL_BLOW_STATE);
+  });
+
+  it("hears a softer breath at a higher sensitivity", () => {
+    const soft = framesOf(breath(30, 0.6));
+
+    expect(detectBlow(soft, SAMPLE_RATE).blown).toBe(false);
+    expect(
+      detectBlow(soft, SAMPLE_RATE, { ...DEFAULT_BLOW_SETTINGS, sensitivity: 1 }).blown
+    ).toBe(true);
+  });
+});
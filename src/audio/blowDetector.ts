@@ -0,0 +1,146 @@
+/**
+ * Breath detection over raw microphone frames. Blowing into a microphone
+ * produces loud, noisy energy concentrated in the low frequencies, so the
+ * detector low-passes each frame and looks for that energy dominating the
+ * signal for long enough. Everything here is pure so it can run against
+ * recorded sample buffers as well as a live AnalyserNode.
+ */
+
+export type BlowDetectorSettings = {
+  /** 0 (needs a hard blow) to 1 (reacts to a light breath). */
+  sensitivity: number;
+  /** How long a breath has to be sustained before it counts as a blow. */
+  minDurationMs: number;
+  /** Low-pass cutoff used to isolate breath noise. */
+  cutoffHz: number;
+  /** Share of the frame's energy that has to sit below the cutoff. */
+  minLowRatio: number;
+};
+
+export type FrameFeatures = {
+  rms: number;
+  lowRms: number;
+  lowRatio: number;
+};
+
+export type BlowDetectorState = {
+  /** Breath time accumulated so far; decays while the breath pauses. */
+  sustainedMs: number;
+  /** 0..1 progress towards a full blow (sustainedMs / minDurationMs). */
+  progress: number;
+  /** Smoothed 0..1 intensity of the current breath, for visuals. */
+  strength: number;
+  /** Latches once a sustained blow has been detected. */
+  blown: boolean;
+};
+
+export const DEFAULT_BLOW_SETTINGS: BlowDetectorSettings = {
+  sensitivity: 0.5,
+  minDurationMs: 350,
+  cutoffHz: 500,
+  minLowRatio: 0.6,
+};
+
+export const INITIAL_BLOW_STATE: BlowDetectorState = {
+  sustainedMs: 0,
+  progress: 0,
+  strength: 0,
+  blown: false,
+};
+
+const LOUD_THRESHOLD = 0.12;
+const QUIET_THRESHOLD = 0.015;
+const STRENGTH_SMOOTHING = 0.5;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/** Low-frequency RMS threshold for a given 0..1 sensitivity. */
+export const thresholdForSensitivity = (sensitivity: number) =>
+  LOUD_THRESHOLD + (QUIET_THRESHOLD - LOUD_THRESHOLD) * clamp01(sensitivity);
+
+export function analyzeFrame(
+  samples: ArrayLike<number>,
+  sampleRate: number,
+  cutoffHz = DEFAULT_BLOW_SETTINGS.cutoffHz
+): FrameFeatures {
+  const length = samples.length;
+  if (length === 0) {
+    return { rms: 0, lowRms: 0, lowRatio: 0 };
+  }
+
+  let mean = 0;
+  for (let i = 0; i < length; i += 1) {
+    mean += samples[i];
+  }
+  mean /= length;
+
+  // One-pole low-pass filter
+  const dt = 1 / sampleRate;
+  const rc = 1 / (2 * Math.PI * cutoffHz);
+  const alpha = dt / (rc + dt);
+
+  let filtered = 0;
+  let energy = 0;
+  let lowEnergy = 0;
+  for (let i = 0; i < length; i += 1) {
+    const sample = samples[i] - mean;
+    filtered += alpha * (sample - filtered);
+    energy += sample * sample;
+    lowEnergy += filtered * filtered;
+  }
+
+  const rms = Math.sqrt(energy / length);
+  const lowRms = Math.sqrt(lowEnergy / length);
+  return {
+    rms,
+    lowRms,
+    lowRatio: energy > 0 ? lowEnergy / energy : 0,
+  };
+}
+
+export function stepBlowDetector(
+  state: BlowDetectorState,
+  features: FrameFeatures,
+  frameMs: number,
+  settings: BlowDetectorSettings = DEFAULT_BLOW_SETTINGS
+): BlowDetectorState {
+  const threshold = thresholdForSensitivity(settings.sensitivity);
+  const isBreath =
+    features.lowRms >= threshold && features.lowRatio >= settings.minLowRatio;
+
+  const sustainedMs = isBreath
+    ? state.sustainedMs + frameMs
+    : Math.max(0, state.sustainedMs - frameMs);
+  const targetStrength = isBreath
+    ? clamp01(0.25 + (features.lowRms - threshold) / (threshold * 3))
+    : 0;
+  const strength =
+    state.strength + (targetStrength - state.strength) * STRENGTH_SMOOTHING;
+  const progress = clamp01(sustainedMs / settings.minDurationMs);
+
+  return {
+    sustainedMs,
+    progress,
+    strength,
+    blown: state.blown || progress >= 1,
+  };
+}
+
+/** Runs the detector over a sequence of equally sized frames. */
+export function detectBlow(
+  frames: Iterable<ArrayLike<number>>,
+  sampleRate: number,
+  settings: BlowDetectorSettings = DEFAULT_BLOW_SETTINGS
+): BlowDetectorState {
+  let state = INITIAL_BLOW_STATE;
+  for (const frame of frames) {
+    const features = analyzeFrame(frame, sampleRate, settings.cutoffHz);
+    state = stepBlowDetector(
+      state,
+      features,
+      (frame.length / sampleRate) * 1000,
+      settings
+    );
+  }
+  return state;
+}
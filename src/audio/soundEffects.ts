@@ -0,0 +1,122 @@
+/**
+ * Built-in sound effects, synthesised with Web Audio so the scene has sound
+ * even when no effect files are shipped. A scene can replace any of them
+ * with a recording through the manifest's `sounds`.
+ */
+
+export type SoundEffect = "typing" | "thud" | "whoosh" | "pop";
+
+export const SOUND_EFFECTS: ReadonlyArray<SoundEffect> = [
+  "typing",
+  "thud",
+  "whoosh",
+  "pop",
+];
+
+/** Plays one effect into `destination`, starting at context time `when`. */
+type Synth = (context: BaseAudioContext, destination: AudioNode, when: number) => void;
+
+const noiseBuffers = new WeakMap<BaseAudioContext, AudioBuffer>();
+
+// One second of white noise per context, shared by every noisy effect
+function noiseBuffer(context: BaseAudioContext) {
+  let buffer = noiseBuffers.get(context);
+  if (!buffer) {
+    buffer = context.createBuffer(1, context.sampleRate, context.sampleRate);
+    const samples = buffer.getChannelData(0);
+    for (let i = 0; i < samples.length; i += 1) {
+      samples[i] = Math.random() * 2 - 1;
+    }
+    noiseBuffers.set(context, buffer);
+  }
+  return buffer;
+}
+
+function noise(context: BaseAudioContext, when: number, length: number) {
+  const source = context.createBufferSource();
+  source.buffer = noiseBuffer(context);
+  // Start somewhere random so repeated clicks don't sound identical
+  source.start(when, Math.random() * 0.5, length);
+  return source;
+}
+
+/** A gain node with a fast attack and an exponential decay. */
+function envelope(
+  context: BaseAudioContext,
+  when: number,
+  peak: number,
+  attack: number,
+  decay: number
+) {
+  const gain = context.createGain();
+  gain.gain.setValueAtTime(0.0001, when);
+  gain.gain.exponentialRampToValueAtTime(peak, when + attack);
+  gain.gain.exponentialRampToValueAtTime(0.0001, when + attack + decay);
+  return gain;
+}
+
+const typing: Synth = (context, destination, when) => {
+  const filter = context.createBiquadFilter();
+  filter.type = "highpass";
+  filter.frequency.value = 1800 + Math.random() * 1200;
+  const gain = envelope(context, when, 0.25, 0.002, 0.03);
+  noise(context, when, 0.05).connect(filter).connect(gain).connect(destination);
+};
+
+const thud: Synth = (context, destination, when) => {
+  const oscillator = context.createOscillator();
+  oscillator.frequency.setValueAtTime(110, when);
+  oscillator.frequency.exponentialRampToValueAtTime(38, when + 0.25);
+  oscillator
+    .connect(envelope(context, when, 0.9, 0.005, 0.35))
+    .connect(destination);
+  oscillator.start(when);
+  oscillator.stop(when + 0.4);
+
+  const filter = context.createBiquadFilter();
+  filter.type = "lowpass";
+  filter.frequency.value = 400;
+  noise(context, when, 0.15)
+    .connect(filter)
+    .connect(envelope(context, when, 0.4, 0.002, 0.1))
+    .connect(destination);
+};
+
+const whoosh: Synth = (context, destination, when) => {
+  const filter = context.createBiquadFilter();
+  filter.type = "bandpass";
+  filter.Q.value = 0.8;
+  filter.frequency.setValueAtTime(350, when);
+  filter.frequency.exponentialRampToValueAtTime(1600, when + 0.25);
+  filter.frequency.exponentialRampToValueAtTime(300, when + 0.7);
+  const gain = context.createGain();
+  gain.gain.setValueAtTime(0.0001, when);
+  gain.gain.exponentialRampToValueAtTime(0.6, when + 0.2);
+  gain.gain.exponentialRampToValueAtTime(0.0001, when + 0.75);
+  noise(context, when, 0.8).connect(filter).connect(gain).connect(destination);
+};
+
+const pop: Synth = (context, destination, when) => {
+  const body = context.createBiquadFilter();
+  body.type = "lowpass";
+  body.frequency.setValueAtTime(2400, when);
+  body.frequency.exponentialRampToValueAtTime(180, when + 0.6);
+  noise(context, when, 0.9)
+    .connect(body)
+    .connect(envelope(context, when, 1, 0.004, 0.8))
+    .connect(destination);
+
+  // A few late crackles as the sparks spread
+  for (let i = 0; i < 6; i += 1) {
+    const at = when + 0.25 + Math.random() * 0.9;
+    const crackle = context.createBiquadFilter();
+    crackle.type = "highpass";
+    crackle.frequency.value = 3000;
+    noise(context, at, 0.03)
+      .connect(crackle)
+      .connect(envelope(context, at, 0.12, 0.001, 0.025))
+      .connect(destination);
+  }
+};
+
+export const SYNTHS: Record<SoundEffect, Synth> = { typing, thud, whoosh, pop };
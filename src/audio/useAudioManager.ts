@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  createAudioManager,
+  loadAudioSettings,
+  persistAudioSettings,
+  type MusicConfig,
+  type SoundFiles,
+} from "./audioManager";
+
+type UseAudioManagerOptions = {
+  music: MusicConfig;
+  sounds: SoundFiles;
+};
+
+/**
+ * Owns the scene's audio manager and the viewer's volume settings, which
+ * are remembered between visits. The manager is created once; its audio
+ * context only starts on `unlock()` from a gesture.
+ */
+export function useAudioManager({ music, sounds }: UseAudioManagerOptions) {
+  const [manager] = useState(createAudioManager);
+  const [settings, setSettings] = useState(loadAudioSettings);
+
+  useEffect(() => {
+    return () => manager.dispose();
+  }, [manager]);
+
+  useEffect(() => {
+    manager.setMusic(music);
+  }, [manager, music]);
+
+  useEffect(() => {
+    manager.setSoundFiles(sounds);
+  }, [manager, sounds]);
+
+  useEffect(() => {
+    manager.setVolume(settings.volume);
+    manager.setMuted(settings.muted);
+    persistAudioSettings(settings);
+  }, [manager, settings]);
+
+  // Moving the slider unmutes, except when it is dragged all the way down
+  const setVolume = useCallback((volume: number) => {
+    setSettings((current) => ({
+      volume,
+      muted: volume === 0 ? current.muted : false,
+    }));
+  }, []);
+
+  const toggleMuted = useCallback(() => {
+    setSettings((current) => ({ ...current, muted: !current.muted }));
+  }, []);
+
+  return {
+    manager,
+    volume: settings.volume,
+    muted: settings.muted,
+    setVolume,
+    toggleMuted,
+  };
+}
@@ -0,0 +1,153 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  analyzeFrame,
+  DEFAULT_BLOW_SETTINGS,
+  INITIAL_BLOW_STATE,
+  stepBlowDetector,
+  type BlowDetectorState,
+} from "./blowDetector";
+
+export type MicrophoneStatus =
+  | "idle"
+  | "requesting"
+  | "listening"
+  | "denied"
+  | "unsupported";
+
+type UseMicrophoneBlowOptions = {
+  /** Run detection only while there is something to blow out. */
+  active: boolean;
+  sensitivity: number;
+  /**
+   * Returns how many ms the blow takes to put the candles out, so the
+   * breath can be held on their flames until then.
+   */
+  onBlow: () => number | void;
+};
+
+const FFT_SIZE = 2048;
+// Quiet period after a detected blow so one long breath counts only once
+const BLOW_COOLDOWN_MS = 600;
+
+function releaseMicrophone(stream: MediaStream | null, context: AudioContext | null) {
+  stream?.getTracks().forEach((track) => track.stop());
+  void context?.close();
+}
+
+/**
+ * Listens to the microphone once `request()` has been called (this is what
+ * shows the browser's permission prompt) and calls `onBlow` when a sustained
+ * breath is detected. The live detector state is exposed through a ref so
+ * the scene can react every frame without re-rendering React. The microphone
+ * is let go as soon as detection goes inactive, so the browser's recording
+ * indicator goes off; using it again takes another `request()`.
+ */
+export function useMicrophoneBlow({
+  active,
+  sensitivity,
+  onBlow,
+}: UseMicrophoneBlowOptions) {
+  const [status, setStatus] = useState<MicrophoneStatus>(() =>
+    typeof navigator.mediaDevices?.getUserMedia === "function"
+      ? "idle"
+      : "unsupported"
+  );
+  const [analyser, setAnalyser] = useState<AnalyserNode | null>(null);
+  const stateRef = useRef<BlowDetectorState>(INITIAL_BLOW_STATE);
+  const streamRef = useRef<MediaStream | null>(null);
+  const contextRef = useRef<AudioContext | null>(null);
+  const onBlowRef = useRef(onBlow);
+
+  useEffect(() => {
+    onBlowRef.current = onBlow;
+  }, [onBlow]);
+
+  const request = useCallback(async () => {
+    if (status !== "idle") {
+      return;
+    }
+    setStatus("requesting");
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: {
+          echoCancellation: false,
+          noiseSuppression: false,
+          autoGainControl: false,
+        },
+      });
+      const context = new AudioContext();
+      const node = context.createAnalyser();
+      node.fftSize = FFT_SIZE;
+      context.createMediaStreamSource(stream).connect(node);
+      streamRef.current = stream;
+      contextRef.current = context;
+      setAnalyser(node);
+      setStatus("listening");
+    } catch {
+      setStatus("denied");
+    }
+  }, [status]);
+
+  useEffect(() => {
+    return () => releaseMicrophone(streamRef.current, contextRef.current);
+  }, []);
+
+  useEffect(() => {
+    if (active || !analyser) {
+      return;
+    }
+    releaseMicrophone(streamRef.current, contextRef.current);
+    streamRef.current = null;
+    contextRef.current = null;
+    setAnalyser(null);
+    setStatus("idle");
+  }, [active, analyser]);
+
+  useEffect(() => {
+    stateRef.current = INITIAL_BLOW_STATE;
+    if (!analyser || !active) {
+      return;
+    }
+
+    const settings = { ...DEFAULT_BLOW_SETTINGS, sensitivity };
+    const sampleRate = analyser.context.sampleRate;
+    const buffer = new Float32Array(analyser.fftSize);
+    let frameHandle = 0;
+    let lastTime = performance.now();
+    let cooldownUntil = 0;
+
+    const tick = (now: number) => {
+      frameHandle = requestAnimationFrame(tick);
+      if (now < cooldownUntil) {
+        lastTime = now;
+        return;
+      }
+      if (stateRef.current.blown) {
+        stateRef.current = INITIAL_BLOW_STATE;
+      }
+      analyser.getFloatTimeDomainData(buffer);
+      const features = analyzeFrame(buffer, sampleRate, settings.cutoffHz);
+      const next = stepBlowDetector(
+        stateRef.current,
+        features,
+        now - lastTime,
+        settings
+      );
+      lastTime = now;
+      stateRef.current = next;
+      if (next.blown) {
+        // The breath stays on the flames until the last candle it reached is out
+        const putOutMs = onBlowRef.current() ?? 0;
+        cooldownUntil = now + putOutMs + BLOW_COOLDOWN_MS;
+      }
+    };
+
+    frameHandle = requestAnimationFrame(tick);
+    return () => {
+      cancelAnimationFrame(frameHandle);
+      stateRef.current = INITIAL_BLOW_STATE;
+    };
+  }, [analyser, active, sensitivity]);
+
+  return { status, request, detectorRef: stateRef };
+}
@@ -0,0 +1,305 @@
+import {
+  BoxGeometry,
+  BufferGeometry,
+  CanvasTexture,
+  CircleGeometry,
+  Color,
+  CylinderGeometry,
+  DoubleSide,
+  Float32BufferAttribute,
+  Group,
+  InstancedMesh,
+  Mesh,
+  MeshStandardMaterial,
+  Object3D,
+  SphereGeometry,
+  SRGBColorSpace,
+  TorusGeometry,
+} from "three";
+import {
+  BERRY_SIZE,
+  DRIP_THICKNESS,
+  SPRINKLE_COLORS,
+  layoutCake,
+  type CakeConfig,
+  type CakeLayout,
+} from "./layout";
+import {
+  OUTLINE_SEGMENTS,
+  circleOutline,
+  clipOutline,
+  containsPoint,
+  type Point,
+} from "./slicing";
+
+const BOARD_COLOR = "#e8e2dc";
+const SPONGE_COLOR = "#f1d39c";
+const STRAWBERRY_COLOR = "#d7263d";
+const BLUEBERRY_COLOR = "#2e3a87";
+const SPRINKLE_SIZE: [number, number, number] = [0.008, 0.008, 0.035];
+const PIPING_THICKNESS = 0.028;
+const TEXT_TEXTURE_SIZE = 1024;
+const TEXT_FONT = '"Brush Script MT", "Segoe Script", "Comic Sans MS", cursive';
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+const fillText = (text: string, values: Readonly<Record<string, string>>) =>
+  text.replace(PLACEHOLDER, (match, key: string) => values[key] ?? match).trim();
+
+function frostingMaterial(color: string | Color, roughness: number) {
+  return new MeshStandardMaterial({ color, roughness, metalness: 0 });
+}
+
+/** Each tier, with a bead of piping a shade lighter than the frosting round its base. */
+function addTiers(group: Group, layout: CakeLayout, config: CakeConfig) {
+  const frosting = frostingMaterial(config.frosting, 0.6);
+  const piping = frostingMaterial(new Color(config.frosting).offsetHSL(0, 0, 0.06), 0.5);
+  for (const tier of layout.tiers) {
+    const body = new Mesh(
+      new CylinderGeometry(tier.radius, tier.radius, tier.height, 64),
+      frosting
+    );
+    body.position.y = tier.bottom + tier.height / 2;
+    group.add(body);
+
+    const bead = new Mesh(new TorusGeometry(tier.radius, PIPING_THICKNESS, 10, 72), piping);
+    bead.rotation.x = Math.PI / 2;
+    bead.position.y = tier.bottom + PIPING_THICKNESS / 2;
+    group.add(bead);
+  }
+}
+
+/** A glossy cap over each tier's top edge, with drips running down the side. */
+function addDrips(group: Group, layout: CakeLayout, color: string) {
+  const icing = frostingMaterial(color, 0.25);
+  for (const tier of layout.tiers) {
+    const capRadius = tier.radius + DRIP_THICKNESS / 3;
+    const cap = new Mesh(new CylinderGeometry(capRadius, capRadius, 0.04, 64), icing);
+    cap.position.y = tier.bottom + tier.height - 0.018;
+    group.add(cap);
+  }
+  const dripRadius = DRIP_THICKNESS / 2;
+  for (const drip of layout.drips) {
+    const tier = layout.tiers[drip.tier];
+    const x = Math.cos(drip.angle) * (tier.radius + dripRadius / 2);
+    const z = Math.sin(drip.angle) * (tier.radius + dripRadius / 2);
+    const topY = tier.bottom + tier.height;
+    const run = new Mesh(new CylinderGeometry(dripRadius, dripRadius, drip.length, 8), icing);
+    run.position.set(x, topY - drip.length / 2, z);
+    group.add(run);
+    const drop = new Mesh(new SphereGeometry(dripRadius * 1.25, 10, 8), icing);
+    drop.position.set(x, topY - drip.length, z);
+    group.add(drop);
+  }
+}
+
+function addSprinkles(group: Group, layout: CakeLayout) {
+  if (layout.sprinkles.length === 0) {
+    return;
+  }
+  const sprinkles = new InstancedMesh(
+    new BoxGeometry(...SPRINKLE_SIZE),
+    frostingMaterial("#ffffff", 0.4),
+    layout.sprinkles.length
+  );
+  const dummy = new Object3D();
+  const colors = SPRINKLE_COLORS.map((color) => new Color(color));
+  layout.sprinkles.forEach((sprinkle, index) => {
+    dummy.position.set(...sprinkle.position);
+    dummy.rotation.set(0, sprinkle.yaw, 0);
+    dummy.updateMatrix();
+    sprinkles.setMatrixAt(index, dummy.matrix);
+    sprinkles.setColorAt(index, colors[sprinkle.color]);
+  });
+  sprinkles.computeBoundingBox();
+  sprinkles.computeBoundingSphere();
+  group.add(sprinkles);
+}
+
+function addBerries(group: Group, layout: CakeLayout) {
+  const dummy = new Object3D();
+  for (const kind of ["strawberry", "blueberry"] as const) {
+    const berries = layout.berries.filter((berry) => berry.kind === kind);
+    if (berries.length === 0) {
+      continue;
+    }
+    const isStrawberry = kind === "strawberry";
+    const mesh = new InstancedMesh(
+      new SphereGeometry(BERRY_SIZE / 2, 12, 10),
+      frostingMaterial(isStrawberry ? STRAWBERRY_COLOR : BLUEBERRY_COLOR, 0.35),
+      berries.length
+    );
+    berries.forEach((berry, index) => {
+      dummy.position.set(...berry.position);
+      // Strawberries are a little taller than they are wide
+      dummy.scale.set(1, isStrawberry ? 1.25 : 0.8, 1);
+      dummy.updateMatrix();
+      mesh.setMatrixAt(index, dummy.matrix);
+    });
+    mesh.computeBoundingBox();
+    mesh.computeBoundingSphere();
+    group.add(mesh);
+  }
+}
+
+/** The text drawn as thick rounded strokes, like icing from a piping bag. */
+function createTextTexture(text: string, color: string) {
+  const canvas = document.createElement("canvas");
+  canvas.width = TEXT_TEXTURE_SIZE;
+  canvas.height = TEXT_TEXTURE_SIZE;
+  const context = canvas.getContext("2d");
+  if (context) {
+    const lines = text.split("\n");
+    const measureAt = (size: number) => {
+      context.font = `bold ${size}px ${TEXT_FONT}`;
+      return Math.max(...lines.map((line) => context.measureText(line).width));
+    };
+    // Fit the widest line across the middle of the circle
+    const base = 200;
+    const size = Math.min(base, (base * TEXT_TEXTURE_SIZE * 0.78) / Math.max(1, measureAt(base)));
+    context.font = `bold ${size}px ${TEXT_FONT}`;
+    context.textAlign = "center";
+    context.textBaseline = "middle";
+    context.lineJoin = "round";
+    context.lineCap = "round";
+    const lineHeight = size * 1.05;
+    const first = TEXT_TEXTURE_SIZE / 2 - ((lines.length - 1) * lineHeight) / 2;
+    lines.forEach((line, index) => {
+      const y = first + index * lineHeight;
+      context.shadowColor = "rgba(0, 0, 0, 0.35)";
+      context.shadowBlur = size * 0.06;
+      context.shadowOffsetY = size * 0.03;
+      context.lineWidth = size * 0.12;
+      context.strokeStyle = color;
+      context.strokeText(line, TEXT_TEXTURE_SIZE / 2, y);
+      context.shadowColor = "transparent";
+      context.fillStyle = new Color(color).offsetHSL(0, 0, 0.08).getStyle();
+      context.fillText(line, TEXT_TEXTURE_SIZE / 2, y);
+    });
+  }
+  const texture = new CanvasTexture(canvas);
+  texture.colorSpace = SRGBColorSpace;
+  texture.anisotropy = 4;
+  return texture;
+}
+
+function addText(group: Group, layout: CakeLayout, text: string, color: string) {
+  const material = new MeshStandardMaterial({
+    map: createTextTexture(text, color),
+    transparent: true,
+    depthWrite: false,
+    roughness: 0.45,
+    side: DoubleSide,
+  });
+  const plate = new Mesh(new CircleGeometry(layout.textRadius, 48), material);
+  // Reads from the default camera, which looks along -X (screen right is -Z)
+  plate.rotation.set(-Math.PI / 2, 0, Math.PI / 2);
+  plate.position.y = layout.top.height + 0.003;
+  group.add(plate);
+}
+
+/** The cake board, which stays on the table when the cake is cut. */
+export function buildBoard(layout: CakeLayout) {
+  const { radius, bottom, height } = layout.board;
+  const board = new Mesh(
+    new CylinderGeometry(radius, radius, height, 64),
+    frostingMaterial(BOARD_COLOR, 0.35)
+  );
+  board.position.y = bottom + height / 2;
+  return board;
+}
+
+/**
+ * Builds the cake described by `config` as plain meshes. The result is the
+ * caller's to dispose (see disposeStandIn).
+ */
+export function buildCake(
+  config: CakeConfig,
+  values: Readonly<Record<string, string>> = {}
+): Group {
+  const layout = layoutCake(config);
+  const group = new Group();
+  group.name = "generated-cake";
+
+  group.add(buildBoard(layout));
+  addTiers(group, layout, config);
+  if (config.drip) {
+    addDrips(group, layout, config.drip);
+  }
+  addSprinkles(group, layout);
+  addBerries(group, layout);
+  const text = config.text ? fillText(config.text, values) : "";
+  if (text) {
+    addText(group, layout, text, config.textColor);
+  }
+  return group;
+}
+
+type Triangle = [number, number, number][];
+
+/**
+ * A tier trimmed to a piece's outline, split into its top, the frosted
+ * outside of the tier and the faces the knife opened up.
+ */
+function tierPrism(outline: Point[], bottom: number, height: number, radius: number) {
+  const top: Triangle[] = [];
+  const rim: Triangle[] = [];
+  const cut: Triangle[] = [];
+  const topY = bottom + height;
+  // Outlines wind counter-clockwise in (x, z), which faces down: the top lists them reversed
+  for (let index = 1; index < outline.length - 1; index += 1) {
+    const [a, b, c] = [outline[0], outline[index], outline[index + 1]];
+    top.push([[a[0], topY, a[1]], [c[0], topY, c[1]], [b[0], topY, b[1]]]);
+    cut.push([[a[0], bottom, a[1]], [b[0], bottom, b[1]], [c[0], bottom, c[1]]]);
+  }
+  // Any edge along the tier's rim is frosted; the rest are cut faces
+  const rimDistance = radius * Math.cos(Math.PI / OUTLINE_SEGMENTS) * 0.999;
+  outline.forEach((from, index) => {
+    const to = outline[(index + 1) % outline.length];
+    const isRim = Math.hypot((from[0] + to[0]) / 2, (from[1] + to[1]) / 2) >= rimDistance;
+    const side = isRim ? rim : cut;
+    side.push([[from[0], bottom, from[1]], [to[0], topY, to[1]], [to[0], bottom, to[1]]]);
+    side.push([[from[0], bottom, from[1]], [from[0], topY, from[1]], [to[0], topY, to[1]]]);
+  });
+
+  const toGeometry = (triangles: Triangle[]) => {
+    const geometry = new BufferGeometry();
+    geometry.setAttribute("position", new Float32BufferAttribute(triangles.flat(2), 3));
+    geometry.computeVertexNormals();
+    return geometry;
+  };
+  return { top: toGeometry(top), rim: toGeometry(rim), cut: toGeometry(cut) };
+}
+
+/**
+ * Builds one piece of the cut cake at the spot it was cut from: every tier
+ * trimmed to `outline`, with the toppings that were on it. The piped text
+ * stays with the whole cake. The caller disposes it, as with buildCake.
+ */
+export function buildSlice(config: CakeConfig, layout: CakeLayout, outline: Point[]): Group {
+  const group = new Group();
+  group.name = "cake-slice";
+  const frosting = frostingMaterial(config.frosting, 0.6);
+  // Cakes with a drip have a glossy cap of it over each tier
+  const cap = config.drip ? frostingMaterial(config.drip, 0.25) : frosting;
+  const sponge = frostingMaterial(SPONGE_COLOR, 0.85);
+
+  for (const tier of layout.tiers) {
+    const piece = clipOutline(outline, circleOutline(tier.radius));
+    if (piece.length === 0) {
+      continue;
+    }
+    const { top, rim, cut } = tierPrism(piece, tier.bottom, tier.height, tier.radius);
+    group.add(new Mesh(top, cap), new Mesh(rim, frosting), new Mesh(cut, sponge));
+  }
+
+  const isOnPiece = ({ position }: { position: [number, number, number] }) =>
+    containsPoint(outline, [position[0], position[2]]);
+  const toppings = {
+    ...layout,
+    sprinkles: layout.sprinkles.filter(isOnPiece),
+    berries: layout.berries.filter(isOnPiece),
+  };
+  addSprinkles(group, toppings);
+  addBerries(group, toppings);
+  return group;
+}
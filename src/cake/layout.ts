@@ -0,0 +1,202 @@
+import { createRandom, type Random } from "../fireworks/random";
+import type { CakeTop } from "../scene/candles";
+
+/**
+ * Measurements for the generated cake: where each tier, drip, sprinkle and
+ * berry goes. Plain numbers only, so the layout (and where the candles go)
+ * can be worked out without three.
+ */
+
+type Vec3 = [number, number, number];
+
+export type CakeTier = {
+  radius: number;
+  height: number;
+};
+
+export type CakeTopping = "none" | "sprinkles" | "fruit";
+
+export type CakeConfig = {
+  /** A GLB to show instead of generating the cake. */
+  model?: string;
+  /** Bottom tier first. */
+  tiers: CakeTier[];
+  /** Colour of the frosting, like "#f6d6de". */
+  frosting: string;
+  /** Colour of icing dripping over each tier's edge; no drips when unset. */
+  drip?: string;
+  topping: CakeTopping;
+  /** Piped on the top tier; `{name}` and `{age}` are filled in. */
+  text?: string;
+  textColor: string;
+};
+
+export type TierPlacement = CakeTier & {
+  /** Height of the tier's base. */
+  bottom: number;
+};
+
+export type Drip = {
+  tier: number;
+  angle: number;
+  length: number;
+};
+
+export type Sprinkle = {
+  position: Vec3;
+  /** Turn about the vertical axis. */
+  yaw: number;
+  /** Index into the sprinkle colours. */
+  color: number;
+};
+
+export type Berry = {
+  position: Vec3;
+  kind: "strawberry" | "blueberry";
+};
+
+export type CakeLayout = {
+  board: { radius: number; bottom: number; height: number };
+  tiers: TierPlacement[];
+  /** Where candles stand; feed it to layoutCandles. */
+  top: CakeTop;
+  /** Radius of the piped text on the top tier. */
+  textRadius: number;
+  drips: Drip[];
+  sprinkles: Sprinkle[];
+  berries: Berry[];
+};
+
+// Matches DEFAULT_CAKE_TOP, so the built-in candles sit where they always have
+export const DEFAULT_CAKE: CakeConfig = {
+  tiers: [
+    { radius: 0.75, height: 0.55 },
+    { radius: 0.6, height: 0.43 },
+  ],
+  frosting: "#f6d6de",
+  drip: "#6b3a2a",
+  topping: "sprinkles",
+  textColor: "#ffffff",
+};
+
+export const BERRY_SIZE = 0.07;
+export const DRIP_THICKNESS = 0.03;
+
+export const SPRINKLE_COLORS: ReadonlyArray<string> = [
+  "#ff6f91",
+  "#ffc75f",
+  "#4fc3f7",
+  "#9be15d",
+  "#f9f871",
+  "#ffffff",
+];
+
+const TABLE_TOP_Y = 0.08;
+const BOARD_HEIGHT = 0.04;
+const BOARD_MARGIN = 0.12;
+// Candles keep this far in from the top tier's edge
+const TOP_MARGIN = 0.05;
+const TEXT_SHARE = 0.7;
+const DRIP_SPACING = 0.12;
+const MAX_DRIP_SHARE = 0.45;
+const SPRINKLES_PER_AREA = 260;
+const SPRINKLE_LIFT = 0.008;
+const BERRY_SPACING = 0.14;
+const BERRY_INSET = 0.85;
+
+/** Points spread evenly over a ring of the given radii, at height y. */
+function scatter(random: Random, inner: number, outer: number, y: number): Sprinkle[] {
+  const area = Math.PI * (outer * outer - inner * inner);
+  const count = Math.max(0, Math.round(area * SPRINKLES_PER_AREA));
+  return Array.from({ length: count }, () => {
+    const angle = random.range(0, Math.PI * 2);
+    const radius = Math.sqrt(random.range(inner * inner, outer * outer));
+    return {
+      position: [Math.cos(angle) * radius, y + SPRINKLE_LIFT, Math.sin(angle) * radius],
+      yaw: random.range(0, Math.PI),
+      color: Math.floor(random.next() * SPRINKLE_COLORS.length),
+    };
+  });
+}
+
+/** A ring of berries just in from a tier's edge, clear of whatever is inside. */
+function berryRing(random: Random, inner: number, outer: number, y: number): Berry[] {
+  const ringRadius = Math.max(inner + BERRY_SIZE, outer * BERRY_INSET);
+  const count = Math.max(3, Math.floor((2 * Math.PI * ringRadius) / BERRY_SPACING));
+  return Array.from({ length: count }, (_, index) => {
+    const angle = (index / count) * Math.PI * 2;
+    return {
+      position: [
+        Math.cos(angle) * ringRadius,
+        y + BERRY_SIZE / 2,
+        Math.sin(angle) * ringRadius,
+      ],
+      kind: random.next() < 0.6 ? "strawberry" : "blueberry",
+    };
+  });
+}
+
+/**
+ * Stacks the tiers on a board resting on the table and decorates them. The
+ * same config and seed always give the same cake.
+ */
+export function layoutCake(config: CakeConfig, seed = 1): CakeLayout {
+  const random = createRandom(seed);
+  const [base] = config.tiers;
+  const board = {
+    radius: base.radius + BOARD_MARGIN,
+    bottom: TABLE_TOP_Y,
+    height: BOARD_HEIGHT,
+  };
+
+  let bottom = board.bottom + board.height;
+  const tiers = config.tiers.map((tier) => {
+    const placement = { ...tier, bottom };
+    bottom += tier.height;
+    return placement;
+  });
+  const topTier = tiers[tiers.length - 1];
+  const top: CakeTop = {
+    height: topTier.bottom + topTier.height,
+    radius: Math.max(TOP_MARGIN, topTier.radius - TOP_MARGIN),
+  };
+  const textRadius = config.text ? topTier.radius * TEXT_SHARE : 0;
+
+  const drips: Drip[] = config.drip
+    ? tiers.flatMap((tier, index) => {
+        const count = Math.max(6, Math.round((2 * Math.PI * tier.radius) / DRIP_SPACING));
+        return Array.from({ length: count }, (_, drip) => ({
+          tier: index,
+          angle: ((drip + random.range(-0.25, 0.25)) / count) * Math.PI * 2,
+          length: tier.height * random.range(0.15, MAX_DRIP_SHARE),
+        }));
+      })
+    : [];
+
+  // Toppings go on the top and on each ledge left by the tier above
+  const surfaces = tiers.map((tier, index) => ({
+    inner: index === tiers.length - 1 ? textRadius : tiers[index + 1].radius,
+    outer: tier.radius,
+    y: tier.bottom + tier.height,
+  }));
+  const sprinkles =
+    config.topping === "sprinkles"
+      ? surfaces.flatMap(({ inner, outer, y }) => scatter(random, inner, outer * 0.95, y))
+      : [];
+  const berries =
+    config.topping === "fruit"
+      ? surfaces
+          .filter(({ inner, outer }) => outer - inner > BERRY_SIZE * 1.5)
+          .flatMap(({ inner, outer, y }) => berryRing(random, inner, outer, y))
+      : [];
+
+  return {
+    board,
+    tiers,
+    top,
+    textRadius,
+    drips,
+    sprinkles,
+    berries,
+  };
+}
@@ -0,0 +1,196 @@
+import { describe, expect, it } from "vitest";
+import {
+  assignSeats,
+  circleOutline,
+  clipOutline,
+  containsPoint,
+  cutPieces,
+  MAX_PIECES,
+  MIN_PIECE_AREA,
+  outlineArea,
+  outlineCentroid,
+  PLATE_SEATS,
+  splitOutline,
+  wholeCake,
+  type CakePiece,
+  type Point,
+} from "./slicing";
+
+const RADIUS = 0.75;
+const CAKE_AREA = outlineArea(circleOutline(RADIUS));
+
+// Right across the cake, and the cross cut at right angles to it
+const ACROSS: [Point, Point] = [
+  [-2, 0.001],
+  [2, 0.001],
+];
+const DOWN: [Point, Point] = [
+  [0, -2],
+  [0, 2],
+];
+
+const ids = (pieces: CakePiece[]) => pieces.map((piece) => piece.id);
+const totalArea = (pieces: CakePiece[]) =>
+  pieces.reduce((sum, piece) => sum + outlineArea(piece.outline), 0);
+
+function quarters() {
+  return cutPieces(cutPieces(wholeCake(RADIUS), ...ACROSS), ...DOWN);
+}
+
+describe("splitOutline", () => {
+  it("splits along the stroke, the left of it first", () => {
+    const halves = splitOutline(circleOutline(RADIUS), ...ACROSS);
+
+    expect(halves).not.toBeNull();
+    const [left, right] = halves!;
+    expect(outlineCentroid(left)[1]).toBeGreaterThan(0);
+    expect(outlineCentroid(right)[1]).toBeLessThan(0);
+    expect(outlineArea(left) + outlineArea(right)).toBeCloseTo(CAKE_AREA, 9);
+  });
+
+  it("cuts with a short stroke as long as it reaches the piece", () => {
+    expect(splitOutline(circleOutline(RADIUS), [-0.1, 0], [0.1, 0])).not.toBeNull();
+  });
+
+  it("misses when the stroke stops short of the piece or lies outside it", () => {
+    const outline = circleOutline(RADIUS);
+
+    expect(splitOutline(outline, [1, 0], [2, 0])).toBeNull();
+    expect(splitOutline(outline, [3, 3], [3, 4])).toBeNull();
+    expect(splitOutline(outline, [0.2, 0], [0.2, 0])).toBeNull();
+  });
+
+  it("ignores cuts that would only shave off a crumb", () => {
+    const crumbAt = (edge: number) =>
+      outlineArea(
+        clipOutline(circleOutline(RADIUS), [
+          [-2, edge],
+          [2, edge],
+          [2, 2],
+          [-2, 2],
+        ])
+      );
+
+    expect(crumbAt(0.72)).toBeLessThan(MIN_PIECE_AREA);
+    expect(splitOutline(circleOutline(RADIUS), [-2, 0.72], [2, 0.72])).toBeNull();
+    expect(crumbAt(0.6)).toBeGreaterThan(MIN_PIECE_AREA);
+    expect(splitOutline(circleOutline(RADIUS), [-2, 0.6], [2, 0.6])).not.toBeNull();
+  });
+});
+
+describe("cutPieces", () => {
+  it("gives the halves the piece's id with a suffix", () => {
+    expect(ids(cutPieces(wholeCake(RADIUS), ...ACROSS))).toEqual(["cake.1", "cake.2"]);
+    expect(ids(quarters())).toEqual(["cake.1.1", "cake.1.2", "cake.2.1", "cake.2.2"]);
+  });
+
+  it("keeps the whole cake between the pieces", () => {
+    const pieces = quarters();
+
+    expect(totalArea(pieces)).toBeCloseTo(CAKE_AREA, 9);
+    for (const piece of pieces) {
+      expect(outlineArea(piece.outline)).toBeCloseTo(CAKE_AREA / 4, 2);
+    }
+  });
+
+  it("only cuts the pieces the stroke passes over", () => {
+    // Starts just past the middle, so only the quarter it lies in is cut
+    const pieces = cutPieces(quarters(), [0.05, 0.2], [0.6, 0.2]);
+
+    expect(pieces).toHaveLength(5);
+    expect(totalArea(pieces)).toBeCloseTo(CAKE_AREA, 9);
+  });
+
+  it("leaves the pieces alone when the stroke misses", () => {
+    const before = quarters();
+
+    expect(cutPieces(before, [3, 3], [3, 4])).toEqual(before);
+  });
+
+  it(`stops at ${MAX_PIECES} pieces`, () => {
+    let pieces = wholeCake(RADIUS);
+    for (let cut = 0; cut < 12; cut += 1) {
+      const angle = (cut / 12) * Math.PI + 0.01;
+      const [dx, dz] = [Math.cos(angle) * 2, Math.sin(angle) * 2];
+      pieces = cutPieces(pieces, [-dx, -dz], [dx, dz]);
+    }
+
+    expect(pieces).toHaveLength(MAX_PIECES);
+    expect(totalArea(pieces)).toBeCloseTo(CAKE_AREA, 9);
+  });
+});
+
+describe("clipOutline", () => {
+  it("keeps the overlap with a narrower tier", () => {
+    const [quarter] = quarters();
+    const clipped = clipOutline(quarter.outline, circleOutline(0.6));
+
+    expect(outlineArea(clipped)).toBeCloseTo(outlineArea(circleOutline(0.6)) / 4, 2);
+    for (const point of clipped) {
+      expect(Math.hypot(point[0], point[1])).toBeLessThanOrEqual(0.6 + 1e-9);
+    }
+  });
+
+  it("keeps an outline that is already inside whole", () => {
+    const inner = circleOutline(0.3);
+
+    expect(outlineArea(clipOutline(inner, circleOutline(RADIUS)))).toBeCloseTo(
+      outlineArea(inner),
+      9
+    );
+  });
+
+  it("gives nothing when the outlines don't overlap", () => {
+    const away = circleOutline(0.2).map(([x, z]): Point => [x + 3, z]);
+
+    expect(clipOutline(away, circleOutline(RADIUS))).toEqual([]);
+  });
+});
+
+describe("assignSeats", () => {
+  it("sends each piece to the nearest free seat", () => {
+    const pieces = cutPieces(wholeCake(RADIUS), ...DOWN);
+    const servings = assignSeats(pieces, PLATE_SEATS);
+
+    // The left of a stroke towards +Z is the -X half
+    expect(servings).toEqual([
+      { pieceId: "cake.1", seat: 3 },
+      { pieceId: "cake.2", seat: 0 },
+    ]);
+  });
+
+  it("serves the biggest pieces first", () => {
+    // An off-centre cut leaves the bigger piece on the -X side, away from the one seat
+    const pieces = cutPieces(wholeCake(RADIUS), [0.3, -2], [0.3, 2]);
+
+    expect(outlineArea(pieces[0].outline)).toBeGreaterThan(outlineArea(pieces[1].outline));
+    expect(assignSeats(pieces, [[1.55, 0]])).toEqual([{ pieceId: "cake.1", seat: 0 }]);
+  });
+
+  it("never puts two pieces on one plate, and leaves the rest on the board", () => {
+    const pieces = cutPieces(quarters(), [-2, 0.4], [2, 0.4]);
+    const servings = assignSeats(pieces, PLATE_SEATS.slice(0, 3));
+
+    expect(pieces.length).toBeGreaterThan(3);
+    expect(servings).toHaveLength(3);
+    expect(new Set(servings.map((serving) => serving.seat)).size).toBe(3);
+    const sizes = servings.map(
+      (serving) => pieces.find((piece) => piece.id === serving.pieceId)!.outline
+    );
+    expect(sizes.map(outlineArea)).toEqual([...sizes.map(outlineArea)].sort((x, y) => y - x));
+  });
+
+  it("serves nothing without seats", () => {
+    expect(assignSeats(quarters(), [])).toEqual([]);
+  });
+});
+
+describe("containsPoint", () => {
+  it("tells the inside of a piece from the outside", () => {
+    const [quarter] = quarters();
+    const centre = outlineCentroid(quarter.outline);
+
+    expect(containsPoint(quarter.outline, centre)).toBe(true);
+    expect(containsPoint(quarter.outline, [-centre[0], -centre[1]])).toBe(false);
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Cutting the cake, worked out on its footprint seen from above. A piece is
+ * a convex outline of (x, z) points on the table, and a knife stroke splits
+ * every piece it passes over along the stroke's line. Plain numbers only, so
+ * the cuts (and who gets which slice) can be checked without three.
+ */
+
+export type Point = [number, number];
+
+export type CakePiece = {
+  id: string;
+  /** Convex, counter-clockwise from +X towards +Z. */
+  outline: Point[];
+};
+
+export type Serving = {
+  pieceId: string;
+  /** Index into the seats the pieces were served to. */
+  seat: number;
+};
+
+/** Guest seats round the table, clear of the default cards and frames. */
+export const PLATE_SEATS: ReadonlyArray<Point> = [
+  [1.55, 0],
+  [1.1, 1.1],
+  [-1.1, 1.1],
+  [-1.55, 0],
+  [-1.1, -1.1],
+  [1.1, -1.1],
+];
+
+export const OUTLINE_SEGMENTS = 64;
+// Cuts that would leave a crumb smaller than this (in square units) are ignored
+export const MIN_PIECE_AREA = 0.01;
+export const MAX_PIECES = 16;
+
+const EPSILON = 1e-9;
+
+const cross = (a: Point, b: Point, point: Point) =>
+  (b[0] - a[0]) * (point[1] - a[1]) - (b[1] - a[1]) * (point[0] - a[0]);
+
+const lerpPoint = (from: Point, to: Point, t: number): Point => [
+  from[0] + (to[0] - from[0]) * t,
+  from[1] + (to[1] - from[1]) * t,
+];
+
+/** Drops points that repeat their neighbour, as clipping on an edge leaves. */
+function dedupe(outline: Point[]): Point[] {
+  return outline.filter((point, index) => {
+    const next = outline[(index + 1) % outline.length];
+    return outline.length === 1 || Math.hypot(point[0] - next[0], point[1] - next[1]) > 1e-7;
+  });
+}
+
+/** A circle of the given radius as a polygon; every radius shares the same angles. */
+export function circleOutline(radius: number, segments = OUTLINE_SEGMENTS): Point[] {
+  return Array.from({ length: segments }, (_, index) => {
+    const angle = (index / segments) * Math.PI * 2;
+    return [Math.cos(angle) * radius, Math.sin(angle) * radius];
+  });
+}
+
+/** The cake before the first cut. */
+export const wholeCake = (radius: number): CakePiece[] => [
+  { id: "cake", outline: circleOutline(radius) },
+];
+
+export function outlineArea(outline: ReadonlyArray<Point>): number {
+  let twice = 0;
+  outline.forEach((point, index) => {
+    const next = outline[(index + 1) % outline.length];
+    twice += point[0] * next[1] - next[0] * point[1];
+  });
+  return Math.abs(twice) / 2;
+}
+
+export function outlineCentroid(outline: ReadonlyArray<Point>): Point {
+  let twice = 0;
+  let x = 0;
+  let z = 0;
+  outline.forEach((point, index) => {
+    const next = outline[(index + 1) % outline.length];
+    const step = point[0] * next[1] - next[0] * point[1];
+    twice += step;
+    x += (point[0] + next[0]) * step;
+    z += (point[1] + next[1]) * step;
+  });
+  if (Math.abs(twice) < EPSILON) {
+    return outline[0] ?? [0, 0];
+  }
+  return [x / (3 * twice), z / (3 * twice)];
+}
+
+export function containsPoint(outline: ReadonlyArray<Point>, point: Point): boolean {
+  return outline.every(
+    (from, index) => cross(from, outline[(index + 1) % outline.length], point) >= -EPSILON
+  );
+}
+
+/**
+ * Keeps the part of `outline` on the left of the line from `a` to `b`
+ * (the inside, for a counter-clockwise clip edge).
+ */
+function keepLeft(outline: ReadonlyArray<Point>, a: Point, b: Point): Point[] {
+  const kept: Point[] = [];
+  outline.forEach((point, index) => {
+    const next = outline[(index + 1) % outline.length];
+    const side = cross(a, b, point);
+    const nextSide = cross(a, b, next);
+    if (side >= 0) {
+      kept.push(point);
+    }
+    if ((side > 0 && nextSide < 0) || (side < 0 && nextSide > 0)) {
+      kept.push(lerpPoint(point, next, side / (side - nextSide)));
+    }
+  });
+  return dedupe(kept);
+}
+
+/** The overlap of two convex outlines, e.g. a piece and a narrower tier. */
+export function clipOutline(outline: ReadonlyArray<Point>, clip: ReadonlyArray<Point>): Point[] {
+  let result = [...outline];
+  clip.forEach((from, index) => {
+    if (result.length > 0) {
+      result = keepLeft(result, from, clip[(index + 1) % clip.length]);
+    }
+  });
+  return result.length >= 3 ? result : [];
+}
+
+/**
+ * Splits a convex outline along the line through `a` and `b`, provided the
+ * segment from `a` to `b` reaches it. Null when the knife misses or would
+ * only shave off a crumb.
+ */
+export function splitOutline(
+  outline: ReadonlyArray<Point>,
+  a: Point,
+  b: Point
+): [Point[], Point[]] | null {
+  const length = Math.hypot(b[0] - a[0], b[1] - a[1]);
+  if (length < EPSILON) {
+    return null;
+  }
+  const left = keepLeft(outline, a, b);
+  const right = keepLeft(outline, b, a);
+  if (outlineArea(left) < MIN_PIECE_AREA || outlineArea(right) < MIN_PIECE_AREA) {
+    return null;
+  }
+
+  // The chord the line cuts through the piece, as distances along the stroke
+  const along = (point: Point) =>
+    ((point[0] - a[0]) * (b[0] - a[0]) + (point[1] - a[1]) * (b[1] - a[1])) / length;
+  const onLine = left.filter((point) => Math.abs(cross(a, b, point)) / length < 1e-6);
+  const distances = onLine.map(along);
+  const chordStart = Math.min(...distances);
+  const chordEnd = Math.max(...distances);
+  if (chordEnd < 0 || chordStart > length) {
+    return null;
+  }
+  return [left, right];
+}
+
+/**
+ * Cuts every piece the stroke from `a` to `b` passes over. Pieces keep their
+ * ids with a suffix, so the same cuts always give the same ids.
+ */
+export function cutPieces(
+  pieces: ReadonlyArray<CakePiece>,
+  a: Point,
+  b: Point
+): CakePiece[] {
+  let count = pieces.length;
+  return pieces.flatMap((piece) => {
+    const halves = count < MAX_PIECES ? splitOutline(piece.outline, a, b) : null;
+    if (!halves) {
+      return [piece];
+    }
+    count += 1;
+    return halves.map((outline, index) => ({ id: `${piece.id}.${index + 1}`, outline }));
+  });
+}
+
+/**
+ * Serves the biggest pieces first, each to the nearest free seat. Pieces
+ * left over when the seats run out stay on the board.
+ */
+export function assignSeats(
+  pieces: ReadonlyArray<CakePiece>,
+  seats: ReadonlyArray<Point>
+): Serving[] {
+  const free = new Set(seats.map((_, index) => index));
+  const bySize = [...pieces].sort((x, y) => outlineArea(y.outline) - outlineArea(x.outline));
+  const servings: Serving[] = [];
+  for (const piece of bySize) {
+    if (free.size === 0) {
+      break;
+    }
+    const [x, z] = outlineCentroid(piece.outline);
+    let nearest = -1;
+    let nearestDistance = Infinity;
+    for (const seat of free) {
+      const distance = Math.hypot(seats[seat][0] - x, seats[seat][1] - z);
+      if (distance < nearestDistance) {
+        nearest = seat;
+        nearestDistance = distance;
+      }
+    }
+    free.delete(nearest);
+    servings.push({ pieceId: piece.id, seat: nearest });
+  }
+  return servings;
+}
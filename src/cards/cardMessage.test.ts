@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { layoutMessagePages, type MessageLayoutOptions } from "./cardMessage";
+
+// Every character is 10 px wide, so a 100 px line holds 10 of them
+const measure = (text: string) => text.length * 10;
+const OPTIONS: MessageLayoutOptions = { maxWidth: 100, linesPerPage: 3, handwriting: false };
+
+const pageTexts = (text: string, options: Partial<MessageLayoutOptions> = {}) =>
+  layoutMessagePages(text, measure, { ...OPTIONS, ...options }).map((page) =>
+    page.map((line) => line.text)
+  );
+
+describe("layoutMessagePages", () => {
+  it("wraps words greedily", () => {
+    expect(pageTexts("happy birthday to you")).toEqual([["happy", "birthday", "to you"]]);
+  });
+
+  it("splits a word longer than the line", () => {
+    expect(pageTexts("abcdefghijklmnopqrstuvwxyz", { linesPerPage: 5 })).toEqual([
+      ["abcdefghij", "klmnopqrst", "uvwxyz"],
+    ]);
+  });
+
+  it("lets a character wider than the line overflow instead of hanging", () => {
+    const wide = (text: string) => text.length * 150;
+    const pages = layoutMessagePages("Hi", wide, OPTIONS);
+
+    expect(pages.map((page) => page.map((line) => line.text))).toEqual([["H", "i"]]);
+  });
+
+  it("starts a new page when one is full, or at ---", () => {
+    expect(pageTexts("one two three four")).toEqual([["one two", "three four"]]);
+    expect(pageTexts("a\nb\nc\nd")).toEqual([["a", "b", "c"], ["d"]]);
+    expect(pageTexts("a\n---\nb")).toEqual([["a"], ["b"]]);
+  });
+
+  it("keeps blank lines as gaps, except at the top of a page", () => {
+    expect(pageTexts("a\n\nb")).toEqual([["a", "", "b"]]);
+    expect(pageTexts("a\n---\n\nb")).toEqual([["a"], ["b"]]);
+  });
+
+  it("always gives at least one page", () => {
+    expect(pageTexts("")).toEqual([[""]]);
+  });
+
+  it("writes unevenly by hand, the same way every time", () => {
+    const first = layoutMessagePages("happy birthday", measure, { ...OPTIONS, handwriting: true });
+    const second = layoutMessagePages("happy birthday", measure, { ...OPTIONS, handwriting: true });
+
+    expect(second).toEqual(first);
+    expect(first[0].some((line) => line.offsetX !== 0 || line.tilt !== 0)).toBe(true);
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * Personal messages for the back of a BirthdayCard, rendered to canvases so
+ * each card no longer needs a baked image. Layout is separated from drawing
+ * and takes a `measure` function, so wrapping and pagination are pure.
+ */
+
+export type CardMessage = {
+  text: string;
+  /** CSS font family; handwriting-style fonts suit the default look. */
+  font?: string;
+  /** Font size in canvas pixels (the page is 1024 × 768). */
+  fontSize?: number;
+  color?: string;
+  background?: string;
+  /** Slightly uneven lines, like writing by hand. Defaults to true. */
+  handwriting?: boolean;
+};
+
+export const PAGE_WIDTH = 1024;
+export const PAGE_HEIGHT = 768;
+const PAGE_MARGIN = 84;
+const LINE_HEIGHT = 1.35;
+/** A line containing only this starts a new page. */
+export const PAGE_BREAK = "---";
+
+export const DEFAULT_MESSAGE_STYLE = {
+  font: "'Segoe Print', 'Bradley Hand', 'Comic Sans MS', cursive",
+  fontSize: 54,
+  color: "#4a2340",
+  background: "#f7f2ff",
+};
+
+type Measure = (text: string) => number;
+
+/** Small deterministic PRNG so the "handwriting" looks the same every time. */
+const seededRandom = (seed: number) => {
+  let state = seed % 2147483647 || 1;
+  return () => {
+    state = (state * 16807) % 2147483647;
+    return (state - 1) / 2147483646;
+  };
+};
+
+const hashText = (text: string) => {
+  let hash = 0;
+  for (let i = 0; i < text.length; i += 1) {
+    hash = (hash * 31 + text.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash) + 1;
+};
+
+export type LaidOutLine = {
+  text: string;
+  /** Horizontal nudge in pixels. */
+  offsetX: number;
+  /** Tilt in radians. */
+  tilt: number;
+};
+
+export type MessageLayoutOptions = {
+  maxWidth: number;
+  linesPerPage: number;
+  handwriting: boolean;
+};
+
+/** Greedy word wrap; a word longer than the line is split by characters. */
+function wrapParagraph(
+  paragraph: string,
+  measure: Measure,
+  widthForLine: (lineIndex: number) => number,
+  firstLineIndex: number
+) {
+  const lines: string[] = [];
+  let current = "";
+  const push = () => {
+    lines.push(current);
+    current = "";
+  };
+
+  for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (measure(candidate) <= widthForLine(firstLineIndex + lines.length)) {
+      current = candidate;
+      continue;
+    }
+    if (current) {
+      push();
+    }
+    let remainder = word;
+    // A single character wider than the line can't be split; it overflows
+    while (
+      remainder.length > 1 &&
+      measure(remainder) > widthForLine(firstLineIndex + lines.length)
+    ) {
+      let cut = remainder.length - 1;
+      while (
+        cut > 1 &&
+        measure(remainder.slice(0, cut)) > widthForLine(firstLineIndex + lines.length)
+      ) {
+        cut -= 1;
+      }
+      current = remainder.slice(0, cut);
+      push();
+      remainder = remainder.slice(cut);
+    }
+    current = remainder;
+  }
+  push();
+  return lines;
+}
+
+/**
+ * Wraps the message into pages of lines. Blank lines are kept as paragraph
+ * gaps and `---` forces a page break.
+ */
+export function layoutMessagePages(
+  text: string,
+  measure: Measure,
+  { maxWidth, linesPerPage, handwriting }: MessageLayoutOptions
+): LaidOutLine[][] {
+  const random = seededRandom(hashText(text));
+  // Handwriting never fills a line exactly; vary the usable width a little
+  const widths: number[] = [];
+  const widthForLine = (index: number) => {
+    while (widths.length <= index) {
+      widths.push(handwriting ? maxWidth * (0.9 + random() * 0.1) : maxWidth);
+    }
+    return widths[index];
+  };
+
+  const pages: string[][] = [[]];
+  const sections = text.replace(/\r\n/g, "\n").split("\n");
+  let lineCount = 0;
+
+  for (const section of sections) {
+    if (section.trim() === PAGE_BREAK) {
+      if (pages[pages.length - 1].length > 0) {
+        pages.push([]);
+      }
+      continue;
+    }
+    const wrapped =
+      section.trim() === "" ? [""] : wrapParagraph(section, measure, widthForLine, lineCount);
+    for (const line of wrapped) {
+      let page = pages[pages.length - 1];
+      if (page.length >= linesPerPage) {
+        page = [];
+        pages.push(page);
+      }
+      // A paragraph gap at the top of a page is just wasted space
+      if (line === "" && page.length === 0) {
+        continue;
+      }
+      page.push(line);
+      lineCount += 1;
+    }
+  }
+
+  const nonEmpty = pages.filter((page) => page.length > 0);
+  return (nonEmpty.length > 0 ? nonEmpty : [[""]]).map((page) =>
+    page.map((line) => ({
+      text: line,
+      offsetX: handwriting ? (random() - 0.5) * 14 : 0,
+      tilt: handwriting ? (random() - 0.5) * 0.03 : 0,
+    }))
+  );
+}
+
+const fontSpec = (message: CardMessage) =>
+  `${message.fontSize ?? DEFAULT_MESSAGE_STYLE.fontSize}px ${
+    message.font ?? DEFAULT_MESSAGE_STYLE.font
+  }`;
+
+/** Resolves once the message's font is available for canvas drawing. */
+export async function loadMessageFont(message: CardMessage) {
+  if (typeof document === "undefined" || !document.fonts) {
+    return;
+  }
+  try {
+    await document.fonts.load(fontSpec(message));
+  } catch {
+    // Fall back to whatever the browser substitutes
+  }
+}
+
+/** Draws every page of the message onto its own canvas. */
+export function renderMessagePages(message: CardMessage): HTMLCanvasElement[] {
+  const fontSize = message.fontSize ?? DEFAULT_MESSAGE_STYLE.fontSize;
+  const lineHeight = fontSize * LINE_HEIGHT;
+  const measureCanvas = document.createElement("canvas");
+  const measureContext = measureCanvas.getContext("2d");
+  if (!measureContext) {
+    return [];
+  }
+  measureContext.font = fontSpec(message);
+
+  const pages = layoutMessagePages(
+    message.text,
+    (text) => measureContext.measureText(text).width,
+    {
+      maxWidth: PAGE_WIDTH - PAGE_MARGIN * 2,
+      linesPerPage: Math.max(
+        1,
+        Math.floor((PAGE_HEIGHT - PAGE_MARGIN * 2) / lineHeight)
+      ),
+      handwriting: message.handwriting ?? true,
+    }
+  );
+
+  return pages.map((lines, pageIndex) => {
+    const canvas = document.createElement("canvas");
+    canvas.width = PAGE_WIDTH;
+    canvas.height = PAGE_HEIGHT;
+    const context = canvas.getContext("2d");
+    if (!context) {
+      return canvas;
+    }
+
+    context.fillStyle = message.background ?? DEFAULT_MESSAGE_STYLE.background;
+    context.fillRect(0, 0, PAGE_WIDTH, PAGE_HEIGHT);
+    context.font = fontSpec(message);
+    context.fillStyle = message.color ?? DEFAULT_MESSAGE_STYLE.color;
+    context.textBaseline = "top";
+
+    lines.forEach((line, lineIndex) => {
+      context.save();
+      context.translate(
+        PAGE_MARGIN + line.offsetX,
+        PAGE_MARGIN + lineIndex * lineHeight
+      );
+      context.rotate(line.tilt);
+      context.fillText(line.text, 0, 0);
+      context.restore();
+    });
+
+    if (pages.length > 1) {
+      context.font = `${Math.round(fontSize * 0.5)}px ${
+        message.font ?? DEFAULT_MESSAGE_STYLE.font
+      }`;
+      context.textAlign = "right";
+      context.globalAlpha = 0.6;
+      context.fillText(
+        `${pageIndex + 1} / ${pages.length}`,
+        PAGE_WIDTH - PAGE_MARGIN / 2,
+        PAGE_HEIGHT - PAGE_MARGIN / 1.5
+      );
+    }
+    return canvas;
+  });
+}
@@ -0,0 +1,136 @@
+/**
+ * HTML/CSS card templates drawn onto canvases. A template is an ordinary
+ * HTML file (see public/cards/card1.html) with `{{name}}`-style
+ * placeholders. It is rendered through an SVG `<foreignObject>`, which
+ * constrains what it may do: no scripts, and no external resources (fonts
+ * must be installed locally, images must be data: URLs).
+ */
+
+export type CardTemplate = {
+  url: string;
+  /** Placeholder values; these override the recipient defaults. */
+  values?: Record<string, string>;
+  /** Size the template is laid out at, in CSS pixels. Defaults to 1024 × 768. */
+  width?: number;
+  height?: number;
+};
+
+export const DEFAULT_TEMPLATE_WIDTH = 1024;
+export const DEFAULT_TEMPLATE_HEIGHT = 768;
+/** Small templates are rendered at a higher pixel ratio to stay sharp. */
+const MIN_TEXTURE_WIDTH = 1024;
+
+const PLACEHOLDER = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+/**
+ * Substitutes `{{key}}` placeholders with HTML-escaped values. Unknown keys
+ * are replaced with nothing and listed in `missing`.
+ */
+export function fillTemplate(
+  source: string,
+  values: Readonly<Record<string, string>>
+): { html: string; missing: string[] } {
+  const missing = new Set<string>();
+  const html = source.replace(PLACEHOLDER, (_, key: string) => {
+    if (!(key in values)) {
+      missing.add(key);
+      return "";
+    }
+    return escapeHtml(values[key]);
+  });
+  return { html, missing: [...missing] };
+}
+
+/** Wraps a filled template in an SVG document that a canvas can draw. */
+export function templateToSvg(html: string, width: number, height: number) {
+  const document = new DOMParser().parseFromString(html, "text/html");
+  document.querySelectorAll("script").forEach((script) => script.remove());
+  const xhtml = new XMLSerializer().serializeToString(document.documentElement);
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<foreignObject x="0" y="0" width="100%" height="100%">${xhtml}</foreignObject>`,
+    "</svg>",
+  ].join("");
+}
+
+const sourceCache = new Map<string, Promise<string>>();
+const canvasCache = new Map<string, Promise<HTMLCanvasElement>>();
+
+const fetchTemplate = (url: string) => {
+  let source = sourceCache.get(url);
+  if (!source) {
+    source = fetch(url).then((response) => {
+      if (!response.ok) {
+        throw new Error(`Could not load card template ${url} (HTTP ${response.status})`);
+      }
+      return response.text();
+    });
+    // A failed request should be retried next time rather than cached
+    source.catch(() => sourceCache.delete(url));
+    sourceCache.set(url, source);
+  }
+  return source;
+};
+
+async function drawTemplate(
+  template: CardTemplate,
+  values: Readonly<Record<string, string>>
+) {
+  const width = template.width ?? DEFAULT_TEMPLATE_WIDTH;
+  const height = template.height ?? DEFAULT_TEMPLATE_HEIGHT;
+  const { html, missing } = fillTemplate(await fetchTemplate(template.url), values);
+  if (missing.length > 0) {
+    console.warn(
+      `Card template ${template.url} has no value for: ${missing.join(", ")}`
+    );
+  }
+
+  const image = new Image();
+  image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(
+    templateToSvg(html, width, height)
+  )}`;
+  await image.decode();
+
+  const pixelRatio = Math.max(1, MIN_TEXTURE_WIDTH / width);
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(width * pixelRatio);
+  canvas.height = Math.round(height * pixelRatio);
+  const context = canvas.getContext("2d");
+  if (!context) {
+    throw new Error("Canvas 2D is not available");
+  }
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+/**
+ * Renders a template with the given values. Results are cached by template
+ * and values, so remounting a card (or showing the same card twice) does not
+ * lay the HTML out again.
+ */
+export function renderCardTemplate(
+  template: CardTemplate,
+  values: Readonly<Record<string, string>>
+): Promise<HTMLCanvasElement> {
+  const key = JSON.stringify([
+    template.url,
+    template.width,
+    template.height,
+    Object.entries(values).sort(([a], [b]) => a.localeCompare(b)),
+  ]);
+  let canvas = canvasCache.get(key);
+  if (!canvas) {
+    canvas = drawTemplate(template, values);
+    canvas.catch(() => canvasCache.delete(key));
+    canvasCache.set(key, canvas);
+  }
+  return canvas;
+}
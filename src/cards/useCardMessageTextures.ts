@@ -0,0 +1,41 @@
+import { useEffect, useState } from "react";
+import { CanvasTexture, SRGBColorSpace, type Texture } from "three";
+import {
+  loadMessageFont,
+  renderMessagePages,
+  type CardMessage,
+} from "./cardMessage";
+
+/** One texture per page of the message, redrawn once its font has loaded. */
+export function useCardMessageTextures(message: CardMessage | undefined) {
+  const [textures, setTextures] = useState<Texture[]>([]);
+
+  useEffect(() => {
+    if (!message) {
+      setTextures([]);
+      return;
+    }
+    let cancelled = false;
+    let created: Texture[] = [];
+
+    void loadMessageFont(message).then(() => {
+      if (cancelled) {
+        return;
+      }
+      created = renderMessagePages(message).map((canvas) => {
+        const texture = new CanvasTexture(canvas);
+        texture.colorSpace = SRGBColorSpace;
+        texture.anisotropy = 4;
+        return texture;
+      });
+      setTextures(created);
+    });
+
+    return () => {
+      cancelled = true;
+      created.forEach((texture) => texture.dispose());
+    };
+  }, [message]);
+
+  return textures;
+}
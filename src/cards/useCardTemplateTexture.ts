@@ -0,0 +1,46 @@
+import { useEffect, useState } from "react";
+import { CanvasTexture, SRGBColorSpace, type Texture } from "three";
+import { renderCardTemplate, type CardTemplate } from "./cardTemplate";
+
+/**
+ * The rendered template as a texture, or null while it is loading (or if it
+ * failed, which is logged). `defaults` fill placeholders the template's own
+ * `values` do not set.
+ */
+export function useCardTemplateTexture(
+  template: CardTemplate | undefined,
+  defaults: Readonly<Record<string, string>>
+) {
+  const [texture, setTexture] = useState<Texture | null>(null);
+
+  useEffect(() => {
+    if (!template) {
+      setTexture(null);
+      return;
+    }
+    let cancelled = false;
+    let created: Texture | null = null;
+
+    renderCardTemplate(template, { ...defaults, ...template.values }).then(
+      (canvas) => {
+        if (cancelled) {
+          return;
+        }
+        created = new CanvasTexture(canvas);
+        created.colorSpace = SRGBColorSpace;
+        created.anisotropy = 4;
+        setTexture(created);
+      },
+      (error: unknown) => {
+        console.warn(error);
+      }
+    );
+
+    return () => {
+      cancelled = true;
+      created?.dispose();
+    };
+  }, [template, defaults]);
+
+  return texture;
+}
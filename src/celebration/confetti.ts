@@ -0,0 +1,158 @@
+import type { Random } from "../fireworks/random";
+
+/**
+ * Confetti as a small CPU simulation: pieces flutter down, land flat on the
+ * table top and stay there, or fall past its edge and are recycled. Kept
+ * free of three.js so it can be stepped and checked on its own.
+ */
+
+export type ConfettiSurface = {
+  /** Height of the table top. */
+  y: number;
+  minX: number;
+  maxX: number;
+  minZ: number;
+  maxZ: number;
+};
+
+export type ConfettiSpawn = {
+  center: [number, number];
+  radius: number;
+  /** Pieces appear this far above the surface. */
+  height: [number, number];
+};
+
+export const PIECE_FALLING = 0;
+export const PIECE_LANDED = 1;
+export const PIECE_GONE = 2;
+
+export type ConfettiState = {
+  count: number;
+  /** xyz per piece. */
+  position: Float32Array;
+  velocity: Float32Array;
+  /** Euler xyz per piece. */
+  rotation: Float32Array;
+  spin: Float32Array;
+  swayPhase: Float32Array;
+  status: Uint8Array;
+  /** Index into the palette. */
+  color: Uint8Array;
+};
+
+const FALL_SPEED = 0.9;
+const AIR_DRAG = 3;
+const SWAY = 0.35;
+const SWAY_FREQUENCY = 2.4;
+/** How far below the table top a missed piece falls before it is recycled. */
+const RECYCLE_DEPTH = 6;
+
+function spawnPiece(
+  state: ConfettiState,
+  index: number,
+  surface: ConfettiSurface,
+  spawn: ConfettiSpawn,
+  random: Random,
+  paletteSize: number
+) {
+  const i3 = index * 3;
+  const angle = random.range(0, Math.PI * 2);
+  const distance = Math.sqrt(random.next()) * spawn.radius;
+  state.position[i3] = spawn.center[0] + Math.cos(angle) * distance;
+  state.position[i3 + 1] = surface.y + random.range(spawn.height[0], spawn.height[1]);
+  state.position[i3 + 2] = spawn.center[1] + Math.sin(angle) * distance;
+  state.velocity[i3] = random.range(-0.2, 0.2);
+  state.velocity[i3 + 1] = -random.range(0.2, FALL_SPEED);
+  state.velocity[i3 + 2] = random.range(-0.2, 0.2);
+  for (let axis = 0; axis < 3; axis += 1) {
+    state.rotation[i3 + axis] = random.range(0, Math.PI * 2);
+    state.spin[i3 + axis] = random.range(-6, 6);
+  }
+  state.swayPhase[index] = random.range(0, Math.PI * 2);
+  state.status[index] = PIECE_FALLING;
+  state.color[index] = Math.floor(random.next() * paletteSize);
+}
+
+export function createConfetti(
+  count: number,
+  surface: ConfettiSurface,
+  spawn: ConfettiSpawn,
+  random: Random,
+  paletteSize: number
+): ConfettiState {
+  const state: ConfettiState = {
+    count,
+    position: new Float32Array(count * 3),
+    velocity: new Float32Array(count * 3),
+    rotation: new Float32Array(count * 3),
+    spin: new Float32Array(count * 3),
+    swayPhase: new Float32Array(count),
+    status: new Uint8Array(count),
+    color: new Uint8Array(count),
+  };
+  for (let i = 0; i < count; i += 1) {
+    spawnPiece(state, i, surface, spawn, random, paletteSize);
+  }
+  return state;
+}
+
+const onSurface = (surface: ConfettiSurface, x: number, z: number) =>
+  x >= surface.minX && x <= surface.maxX && z >= surface.minZ && z <= surface.maxZ;
+
+/**
+ * Advances every falling piece by `delta` seconds. While `emitting`, pieces
+ * that miss the table are recycled at the top; otherwise they are retired.
+ */
+export function stepConfetti(
+  state: ConfettiState,
+  delta: number,
+  time: number,
+  surface: ConfettiSurface,
+  spawn: ConfettiSpawn,
+  random: Random,
+  paletteSize: number,
+  emitting: boolean
+) {
+  const settle = 1 - Math.exp(-AIR_DRAG * delta);
+  for (let i = 0; i < state.count; i += 1) {
+    if (state.status[i] !== PIECE_FALLING) {
+      continue;
+    }
+    const i3 = i * 3;
+    const { position, velocity, rotation, spin } = state;
+
+    velocity[i3 + 1] += (-FALL_SPEED - velocity[i3 + 1]) * settle;
+    velocity[i3] *= 1 - settle * 0.5;
+    velocity[i3 + 2] *= 1 - settle * 0.5;
+    const sway = Math.sin(time * SWAY_FREQUENCY + state.swayPhase[i]) * SWAY;
+
+    const previousY = position[i3 + 1];
+    position[i3] += (velocity[i3] + sway) * delta;
+    position[i3 + 1] += velocity[i3 + 1] * delta;
+    position[i3 + 2] += (velocity[i3 + 2] + sway * 0.6) * delta;
+    rotation[i3] += spin[i3] * delta;
+    rotation[i3 + 1] += spin[i3 + 1] * delta;
+    rotation[i3 + 2] += spin[i3 + 2] * delta;
+
+    if (
+      previousY > surface.y &&
+      position[i3 + 1] <= surface.y &&
+      onSurface(surface, position[i3], position[i3 + 2])
+    ) {
+      // Lie flat, lifted a hair per piece so overlapping ones don't flicker
+      position[i3 + 1] = surface.y + 0.002 + (i % 16) * 0.0002;
+      rotation[i3] = -Math.PI / 2;
+      rotation[i3 + 1] = 0;
+      state.status[i] = PIECE_LANDED;
+      continue;
+    }
+
+    if (position[i3 + 1] < surface.y - RECYCLE_DEPTH) {
+      if (emitting) {
+        spawnPiece(state, i, surface, spawn, random, paletteSize);
+      } else {
+        state.status[i] = PIECE_GONE;
+      }
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import { createRandom } from "../fireworks/random";
+import type { CompiledShow } from "../fireworks/simulation";
+import type { CakeTop } from "../scene/candles";
+
+/**
+ * Sparklers are a looping one-second "show" of tiny sparks thrown from each
+ * sparkler tip, so they render with the same GPU material as the fireworks.
+ */
+
+export type SparklerPlacement = {
+  /** Base of the stick, on the cake top. */
+  base: [number, number, number];
+  tip: [number, number, number];
+};
+
+const STICK_LENGTH = 0.45;
+const SPARKS_PER_SPARKLER = 260;
+const LOOP_SECONDS = 1;
+const SPARK_COLORS: ReadonlyArray<[number, number, number]> = [
+  [1, 0.95, 0.8],
+  [1, 0.8, 0.45],
+  [1, 1, 1],
+];
+
+/** Sticks near the rim, leaning outwards, clear of the middle candles. */
+export function placeSparklers(count: number, top: CakeTop): SparklerPlacement[] {
+  return Array.from({ length: count }, (_, index) => {
+    const angle = (index / count) * Math.PI * 2 + Math.PI / 4;
+    const radius = top.radius * 0.85;
+    const lean = 0.25;
+    const base: [number, number, number] = [
+      Math.cos(angle) * radius,
+      top.height,
+      Math.sin(angle) * radius,
+    ];
+    return {
+      base,
+      tip: [
+        base[0] + Math.cos(angle) * STICK_LENGTH * Math.sin(lean),
+        base[1] + STICK_LENGTH * Math.cos(lean),
+        base[2] + Math.sin(angle) * STICK_LENGTH * Math.sin(lean),
+      ],
+    };
+  });
+}
+
+export function compileSparklers(
+  placements: ReadonlyArray<SparklerPlacement>,
+  seed = 7
+): CompiledShow {
+  const random = createRandom(seed);
+  const count = placements.length * SPARKS_PER_SPARKLER;
+  const show: CompiledShow = {
+    count,
+    duration: LOOP_SECONDS,
+    leadIn: 0,
+    loop: true,
+    start: new Float32Array(count),
+    lifetime: new Float32Array(count),
+    origin: new Float32Array(count * 3),
+    velocity: new Float32Array(count * 3),
+    drag: new Float32Array(count),
+    gravity: new Float32Array(count),
+    color: new Float32Array(count * 3),
+    size: new Float32Array(count),
+    twinkle: new Float32Array(count),
+    bursts: [],
+  };
+
+  placements.forEach(({ tip }, sparkler) => {
+    for (let n = 0; n < SPARKS_PER_SPARKLER; n += 1) {
+      const index = sparkler * SPARKS_PER_SPARKLER + n;
+      const i3 = index * 3;
+      const theta = random.range(0, Math.PI * 2);
+      const y = random.range(-0.6, 1);
+      const ring = Math.sqrt(1 - y * y);
+      const speed = random.range(0.8, 2.2);
+      // Sparks live under the loop length so none are cut off at the wrap
+      const lifetime = random.range(0.2, 0.5);
+      show.start[index] = random.range(0, LOOP_SECONDS - lifetime);
+      show.lifetime[index] = lifetime;
+      show.origin.set(tip, i3);
+      show.velocity.set(
+        [Math.cos(theta) * ring * speed, y * speed, Math.sin(theta) * ring * speed],
+        i3
+      );
+      show.drag[index] = 3;
+      show.gravity[index] = -2.5;
+      show.color.set(random.pick(SPARK_COLORS), i3);
+      show.size[index] = random.range(0.025, 0.05);
+      show.twinkle[index] = 0.7;
+    }
+  });
+  return show;
+}
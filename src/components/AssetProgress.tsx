@@ -0,0 +1,47 @@
+import type { AssetKind } from "../loading/assets";
+import type { AssetPreload } from "../loading/useAssetPreload";
+
+type AssetProgressProps = {
+  preload: AssetPreload;
+};
+
+const BAR_WIDTH = 20;
+
+const STAND_INS: Record<AssetKind, string> = {
+  model: "simple model",
+  texture: "placeholder picture",
+  environment: "plain background",
+  audio: "silence",
+};
+
+/** A terminal-style download bar, then a note on anything that failed. */
+export function AssetProgress({ preload }: AssetProgressProps) {
+  const { status, loaded, total, progress, failed } = preload;
+
+  if (status === "loading") {
+    const filled = Math.round(progress * BAR_WIDTH);
+    return (
+      <div className="asset-progress" role="status">
+        &gt; loading assets [{"#".repeat(filled)}
+        {".".repeat(BAR_WIDTH - filled)}] {Math.floor(progress * 100)}% ({loaded}/{total})
+      </div>
+    );
+  }
+
+  if (failed.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="asset-progress asset-progress--failed" role="status">
+      <p>&gt; {failed.length} file(s) could not be loaded:</p>
+      <ul>
+        {failed.map((asset) => (
+          <li key={asset.url}>
+            {asset.url} → {STAND_INS[asset.kind]}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import type { ChangeEvent, MouseEvent } from "react";
+
+type AudioControlsProps = {
+  volume: number;
+  muted: boolean;
+  onVolumeChange: (volume: number) => void;
+  onToggleMuted: () => void;
+};
+
+const stopPropagation = (event: MouseEvent) => {
+  // Control clicks must not count as a tap on the scene
+  event.stopPropagation();
+};
+
+export function AudioControls({
+  volume,
+  muted,
+  onVolumeChange,
+  onToggleMuted,
+}: AudioControlsProps) {
+  const handleVolume = (event: ChangeEvent<HTMLInputElement>) => {
+    onVolumeChange(Number(event.target.value));
+  };
+
+  return (
+    <div className="audio-controls" onClick={stopPropagation}>
+      <button type="button" onClick={onToggleMuted} aria-pressed={muted}>
+        {muted ? "sound off" : "sound on"}
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={1}
+        step={0.05}
+        value={muted ? 0 : volume}
+        onChange={handleVolume}
+        aria-label="volume"
+      />
+    </div>
+  );
+}
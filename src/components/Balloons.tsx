@@ -0,0 +1,154 @@
+import { useCursor } from "@react-three/drei";
+import { useFrame, type ThreeEvent } from "@react-three/fiber";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { Group, MeshStandardMaterial } from "three";
+import { createRandom, type Random } from "../fireworks/random";
+
+type BalloonsProps = {
+  isActive: boolean;
+  count?: number;
+  palette?: ReadonlyArray<string>;
+};
+
+type BalloonState = {
+  x: number;
+  z: number;
+  y: number;
+  speed: number;
+  phase: number;
+  /** Seconds since the balloon was popped, or -1 while it is whole. */
+  popped: number;
+  /** Seconds until a popped or escaped balloon comes back. */
+  respawnIn: number;
+};
+
+const DEFAULT_COUNT = 8;
+const DEFAULT_PALETTE = ["#ff6f91", "#ffc75f", "#845ec2", "#4ffbdf", "#f9f871"];
+const SPAWN_RADIUS: [number, number] = [2.5, 4];
+const START_HEIGHT = -0.5;
+const CEILING = 9;
+const POP_SECONDS = 0.15;
+const RESPAWN_SECONDS = 2;
+const STRING_LENGTH = 0.7;
+
+function spawnBalloon(random: Random, balloon?: BalloonState): BalloonState {
+  const angle = random.range(0, Math.PI * 2);
+  const radius = random.range(SPAWN_RADIUS[0], SPAWN_RADIUS[1]);
+  return {
+    x: Math.cos(angle) * radius,
+    z: Math.sin(angle) * radius,
+    // Stagger the first wave so they do not rise as a flat sheet
+    y: balloon ? START_HEIGHT : START_HEIGHT - random.range(0, 3),
+    speed: random.range(0.35, 0.6),
+    phase: random.range(0, Math.PI * 2),
+    popped: -1,
+    respawnIn: 0,
+  };
+}
+
+export function Balloons({
+  isActive,
+  count = DEFAULT_COUNT,
+  palette = DEFAULT_PALETTE,
+}: BalloonsProps) {
+  const random = useMemo(() => createRandom(23), []);
+  const balloonsRef = useRef<BalloonState[]>([]);
+  const groupRefs = useRef<Array<Group | null>>([]);
+  const materialRefs = useRef<Array<MeshStandardMaterial | null>>([]);
+  const [isHovered, setIsHovered] = useState(false);
+  useCursor(isHovered, "pointer");
+
+  // A fresh wave each time the celebration begins
+  useEffect(() => {
+    if (isActive) {
+      balloonsRef.current = Array.from({ length: count }, () => spawnBalloon(random));
+    }
+  }, [isActive, count, random]);
+
+  const pop = useCallback((index: number, event: ThreeEvent<MouseEvent>) => {
+    const balloon = balloonsRef.current[index];
+    if (!balloon || balloon.popped >= 0) {
+      return;
+    }
+    event.stopPropagation();
+    balloon.popped = 0;
+    balloon.respawnIn = RESPAWN_SECONDS;
+  }, []);
+
+  useFrame(({ clock }, delta) => {
+    const time = clock.getElapsedTime();
+    balloonsRef.current.forEach((balloon, index) => {
+      const group = groupRefs.current[index];
+      const material = materialRefs.current[index];
+      if (!group || !material) {
+        return;
+      }
+
+      // Balloons that float out of sight count as popped, without the burst
+      if (balloon.popped < 0 && balloon.y > CEILING) {
+        balloon.popped = POP_SECONDS;
+      }
+      if (balloon.popped >= 0) {
+        balloon.popped += delta;
+        balloon.respawnIn -= delta;
+        if (balloon.respawnIn <= 0 && isActive) {
+          balloonsRef.current[index] = spawnBalloon(random, balloon);
+        }
+      } else {
+        // After the celebration the balloons keep rising and drift away
+        balloon.y += balloon.speed * delta * (isActive ? 1 : 1.8);
+      }
+
+      const popProgress = balloon.popped < 0 ? 0 : Math.min(1, balloon.popped / POP_SECONDS);
+      group.visible = popProgress < 1 && balloon.y > START_HEIGHT - 0.01;
+      group.position.set(
+        balloon.x + Math.sin(time * 0.7 + balloon.phase) * 0.15,
+        balloon.y,
+        balloon.z + Math.cos(time * 0.5 + balloon.phase) * 0.15
+      );
+      group.rotation.z = Math.sin(time * 0.9 + balloon.phase) * 0.12;
+      group.scale.setScalar(1 + popProgress * 0.4);
+      material.opacity = 0.92 * (1 - popProgress);
+    });
+  });
+
+  return (
+    <group>
+      {Array.from({ length: count }, (_, index) => (
+        <group
+          key={index}
+          ref={(group) => {
+            groupRefs.current[index] = group;
+          }}
+          visible={false}
+        >
+          <mesh
+            scale={[0.28, 0.34, 0.28]}
+            onClick={(event) => pop(index, event)}
+            onPointerOver={() => setIsHovered(true)}
+            onPointerOut={() => setIsHovered(false)}
+          >
+            <sphereGeometry args={[1, 24, 24]} />
+            <meshStandardMaterial
+              ref={(material) => {
+                materialRefs.current[index] = material;
+              }}
+              color={palette[index % palette.length]}
+              roughness={0.25}
+              metalness={0.1}
+              transparent
+            />
+          </mesh>
+          <mesh position={[0, -0.35, 0]}>
+            <coneGeometry args={[0.035, 0.05, 8]} />
+            <meshStandardMaterial color={palette[index % palette.length]} />
+          </mesh>
+          <mesh position={[0, -0.37 - STRING_LENGTH / 2, 0]}>
+            <cylinderGeometry args={[0.003, 0.003, STRING_LENGTH, 4]} />
+            <meshBasicMaterial color="#dddddd" />
+          </mesh>
+        </group>
+      ))}
+    </group>
+  );
+}
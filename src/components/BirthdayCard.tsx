@@ -16,14 +16,23 @@ import {
   SRGBColorSpace,
   Vector3,
 } from "three";
+import type { CardMessage } from "../cards/cardMessage";
+import type { CardTemplate } from "../cards/cardTemplate";
+import { useCardMessageTextures } from "../cards/useCardMessageTextures";
+import { useCardTemplateTexture } from "../cards/useCardTemplateTexture";
 
 type BirthdayCardProps = {
   id: string;
-  image: string;
+  /** Front artwork; either a raster image or an HTML template. */
+  image?: string;
+  template?: CardTemplate;
+  /** Placeholder values for the template, e.g. the recipient's name. */
+  templateValues?: Readonly<Record<string, string>>;
   tablePosition: [number, number, number];
   tableRotation: [number, number, number];
   isActive: boolean;
   onToggle: (id: string) => void;
+  message?: CardMessage;
   children?: ReactNode;
 };
 
@@ -33,28 +42,69 @@ const CARD_HEIGHT = 3 * CARD_SCALE;
 const CAMERA_DISTANCE = 1.2;
 const CAMERA_Y_FLOOR = 0.8;
 const HOVER_LIFT = 0.04;
+const BACK_COLOR = "#f7f2ff";
+const NO_VALUES: Readonly<Record<string, string>> = {};
+
+function ImageFaceMaterial({ image }: { image: string }) {
+  const texture = useTexture(image);
+  useEffect(() => {
+    texture.colorSpace = SRGBColorSpace;
+    texture.anisotropy = 4;
+  }, [texture]);
+
+  return (
+    <meshStandardMaterial
+      map={texture}
+      roughness={0.35}
+      metalness={0.05}
+      toneMapped={false}
+    />
+  );
+}
+
+function TemplateFaceMaterial({
+  template,
+  values,
+}: {
+  template: CardTemplate;
+  values: Readonly<Record<string, string>>;
+}) {
+  const texture = useCardTemplateTexture(template, values);
+
+  return (
+    <meshStandardMaterial
+      key={texture ? texture.uuid : "loading"}
+      color={texture ? "#ffffff" : BACK_COLOR}
+      map={texture}
+      roughness={0.35}
+      metalness={0.05}
+      toneMapped={!texture}
+    />
+  );
+}
 
 export function BirthdayCard({
   id,
   image,
+  template,
+  templateValues = NO_VALUES,
   tablePosition,
   tableRotation,
   isActive,
   onToggle,
+  message,
   children,
 }: BirthdayCardProps) {
   const groupRef = useRef<Group>(null);
+  const flipRef = useRef<Group>(null);
+  // 0 shows the front; n > 0 shows page n of the message on the back
+  const [face, setFace] = useState(0);
+  const pages = useCardMessageTextures(message);
   const { camera } = useThree();
   const [isHovered, setIsHovered] = useState(false);
 
   useCursor(isHovered || isActive, "pointer");
 
-  const texture = useTexture(image);
-  useEffect(() => {
-    texture.colorSpace = SRGBColorSpace;
-    texture.anisotropy = 4;
-  }, [texture]);
-
   const defaultPosition = useMemo(
     () => new Vector3(...tablePosition),
     [tablePosition]
@@ -76,6 +126,7 @@ export function BirthdayCard({
   useEffect(() => {
     if (!isActive) {
       setIsHovered(false);
+      setFace(0);
     }
   }, [isActive]);
 
@@ -119,6 +170,12 @@ export function BirthdayCard({
 
     group.position.lerp(positionTarget, lerpAlpha);
     group.quaternion.slerp(rotationTarget, slerpAlpha);
+
+    const flip = flipRef.current;
+    if (flip) {
+      const flipTarget = face > 0 ? Math.PI : 0;
+      flip.rotation.y += (flipTarget - flip.rotation.y) * slerpAlpha;
+    }
   });
 
   const handlePointerOver = useCallback(
@@ -143,14 +200,21 @@ export function BirthdayCard({
   const handleClick = useCallback(
     (event: ThreeEvent<MouseEvent>) => {
       event.stopPropagation();
+      // Focus, then turn over and page through the message, then put it back
+      if (isActive && face < pages.length) {
+        setFace(face + 1);
+        return;
+      }
       onToggle(id);
     },
-    [id, onToggle]
+    [face, id, isActive, onToggle, pages.length]
   );
 
+  const backTexture = face > 0 ? pages[face - 1] : pages[0];
+
   return (
     <group ref={groupRef}>
-      <group rotation={[0, 0, 0]}>
+      <group ref={flipRef}>
         <mesh
           onPointerOver={handlePointerOver}
           onPointerOut={handlePointerOut}
@@ -160,16 +224,28 @@ export function BirthdayCard({
           receiveShadow
         >
           <planeGeometry args={[CARD_WIDTH, CARD_HEIGHT]} />
-          <meshStandardMaterial
-            map={texture}
-            roughness={0.35}
-            metalness={0.05}
-            toneMapped={false}
-          />
+          {template ? (
+            <TemplateFaceMaterial template={template} values={templateValues} />
+          ) : image ? (
+            <ImageFaceMaterial image={image} />
+          ) : (
+            <meshStandardMaterial color={BACK_COLOR} roughness={0.6} />
+          )}
         </mesh>
-        <mesh position={[0, 0, -0.001]} rotation={[0, Math.PI, 0]}>
+        <mesh
+          position={[0, 0, -0.001]}
+          rotation={[0, Math.PI, 0]}
+          onPointerDown={handlePointerDown}
+          onClick={handleClick}
+        >
           <planeGeometry args={[CARD_WIDTH, CARD_HEIGHT]} />
-          <meshStandardMaterial color="#f7f2ff" />
+          <meshStandardMaterial
+            key={backTexture ? backTexture.uuid : "blank"}
+            color={backTexture ? "#ffffff" : BACK_COLOR}
+            map={backTexture ?? null}
+            roughness={0.6}
+            toneMapped={!backTexture}
+          />
         </mesh>
         <mesh position={[0, 0, -0.0008]}>
           <planeGeometry args={[CARD_WIDTH * 0.98, CARD_HEIGHT * 0.98]} />
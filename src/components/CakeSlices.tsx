@@ -0,0 +1,295 @@
+import { useFrame, useThree } from "@react-three/fiber";
+import { useEffect, useMemo, useRef } from "react";
+import { Group, Mesh, Plane, Raycaster, Vector2, Vector3 } from "three";
+import { buildBoard, buildSlice } from "../cake/buildCake";
+import type { CakeConfig, CakeLayout } from "../cake/layout";
+import {
+  outlineCentroid,
+  type CakePiece,
+  type Point,
+  type Serving,
+} from "../cake/slicing";
+import { disposeStandIn } from "../models/standIns";
+import { EASINGS } from "../timeline/easing";
+
+type Vec3 = [number, number, number];
+
+const TABLE_TOP_Y = 0.08;
+const PLATE_RADIUS = 0.28;
+const PLATE_HEIGHT = 0.02;
+const PLATE_COLOR = "#fbf8f3";
+// Strokes may start this far outside the cake, so a cut can go right across
+const KNIFE_REACH = 0.6;
+const MIN_STROKE = 0.15;
+const BLADE_HEIGHT = 0.1;
+const BLADE_THICKNESS = 0.006;
+const BLADE_SINK = 0.04;
+// Cut pieces part slightly so the cuts show
+const CUT_GAP = 0.012;
+const SERVE_DURATION = 0.9;
+const SERVE_STAGGER = 0.22;
+const SERVE_LIFT = 0.35;
+const SETTLE_DURATION = 0.25;
+const SETTLE_SQUASH = 0.12;
+
+type CakeKnifeProps = {
+  /** Height of the cake top, where strokes are traced. */
+  height: number;
+  /** Radius of the bottom tier. */
+  radius: number;
+  /** A finished stroke across the table, in (x, z). */
+  onCut: (from: Point, to: Point) => void;
+};
+
+/**
+ * Drags a knife over the cake top. Strokes that start near the cake hold the
+ * camera still; anywhere else the drag orbits as usual.
+ */
+export function CakeKnife({ height, radius, onCut }: CakeKnifeProps) {
+  const get = useThree((state) => state.get);
+  const element = useThree((state) => state.gl.domElement);
+  const bladeRef = useRef<Mesh>(null);
+  const onCutRef = useRef(onCut);
+
+  useEffect(() => {
+    onCutRef.current = onCut;
+  }, [onCut]);
+
+  useEffect(() => {
+    const raycaster = new Raycaster();
+    const plane = new Plane(new Vector3(0, 1, 0), -height);
+    const pointer = new Vector2();
+    const hit = new Vector3();
+    const { ownerDocument } = element;
+    let stroke: { from: Point; to: Point; pointerId: number } | null = null;
+
+    const project = (event: PointerEvent): Point | null => {
+      const rect = element.getBoundingClientRect();
+      pointer.set(
+        ((event.clientX - rect.left) / rect.width) * 2 - 1,
+        -((event.clientY - rect.top) / rect.height) * 2 + 1
+      );
+      raycaster.setFromCamera(pointer, get().camera);
+      return raycaster.ray.intersectPlane(plane, hit) ? [hit.x, hit.z] : null;
+    };
+
+    const setOrbiting = (enabled: boolean) => {
+      const controls = get().controls as { enabled: boolean } | null;
+      if (controls) {
+        controls.enabled = enabled;
+      }
+    };
+
+    const showBlade = () => {
+      const blade = bladeRef.current;
+      if (!blade) {
+        return;
+      }
+      blade.visible = stroke !== null;
+      if (!stroke) {
+        return;
+      }
+      const { from, to } = stroke;
+      const dx = to[0] - from[0];
+      const dz = to[1] - from[1];
+      blade.position.set(
+        (from[0] + to[0]) / 2,
+        height + BLADE_HEIGHT / 2 - BLADE_SINK,
+        (from[1] + to[1]) / 2
+      );
+      blade.rotation.set(0, Math.atan2(-dz, dx), 0);
+      blade.scale.x = Math.max(0.001, Math.hypot(dx, dz));
+    };
+
+    const handleDown = (event: PointerEvent) => {
+      if (stroke || event.button !== 0) {
+        return;
+      }
+      const point = project(event);
+      if (!point || Math.hypot(point[0], point[1]) > radius + KNIFE_REACH) {
+        return;
+      }
+      setOrbiting(false);
+      stroke = { from: point, to: point, pointerId: event.pointerId };
+      showBlade();
+    };
+
+    const handleMove = (event: PointerEvent) => {
+      if (!stroke || event.pointerId !== stroke.pointerId) {
+        return;
+      }
+      const point = project(event);
+      if (point) {
+        stroke.to = point;
+        showBlade();
+      }
+    };
+
+    const finish = (event: PointerEvent) => {
+      if (!stroke || event.pointerId !== stroke.pointerId) {
+        return;
+      }
+      const { from, to } = stroke;
+      stroke = null;
+      showBlade();
+      setOrbiting(true);
+      const length = Math.hypot(to[0] - from[0], to[1] - from[1]);
+      if (event.type === "pointerup" && length >= MIN_STROKE) {
+        onCutRef.current(from, to);
+      }
+    };
+
+    // Capture runs before the orbit controls see the press
+    element.addEventListener("pointerdown", handleDown, { capture: true });
+    ownerDocument.addEventListener("pointermove", handleMove);
+    ownerDocument.addEventListener("pointerup", finish);
+    ownerDocument.addEventListener("pointercancel", finish);
+    return () => {
+      element.removeEventListener("pointerdown", handleDown, { capture: true });
+      ownerDocument.removeEventListener("pointermove", handleMove);
+      ownerDocument.removeEventListener("pointerup", finish);
+      ownerDocument.removeEventListener("pointercancel", finish);
+      if (stroke) {
+        setOrbiting(true);
+      }
+    };
+  }, [element, get, height, radius]);
+
+  return (
+    <mesh ref={bladeRef} visible={false}>
+      <boxGeometry args={[1, BLADE_HEIGHT, BLADE_THICKNESS]} />
+      <meshStandardMaterial color="#d9dde3" metalness={0.6} roughness={0.25} />
+    </mesh>
+  );
+}
+
+type SliceProps = {
+  config: CakeConfig;
+  layout: CakeLayout;
+  piece: CakePiece;
+  /** The plate it goes to, once served. */
+  seat: Point | null;
+  /** Seconds to wait before sliding over, so slices go one after another. */
+  delay: number;
+  onLand?: (position: Vec3) => void;
+};
+
+function Slice({ config, layout, piece, seat, delay, onLand }: SliceProps) {
+  const groupRef = useRef<Group>(null);
+  const startRef = useRef<number | null>(null);
+  const landedRef = useRef(false);
+  const scene = useMemo(
+    () => buildSlice(config, layout, piece.outline),
+    [config, layout, piece.outline]
+  );
+  const base = layout.board.bottom + layout.board.height;
+  const [x, z] = useMemo(() => outlineCentroid(piece.outline), [piece.outline]);
+  const rest = useMemo(() => {
+    const distance = Math.hypot(x, z);
+    const gap = distance > 1e-6 ? CUT_GAP / distance : 0;
+    return new Vector3(x + x * gap, base, z + z * gap);
+  }, [x, z, base]);
+  const plate = useMemo(
+    () => (seat ? new Vector3(seat[0], TABLE_TOP_Y + PLATE_HEIGHT, seat[1]) : null),
+    [seat]
+  );
+
+  useEffect(() => () => disposeStandIn(scene), [scene]);
+
+  // Lifts over to the plate in an arc, then settles with a little squash
+  useFrame(({ clock }) => {
+    const group = groupRef.current;
+    if (!group) {
+      return;
+    }
+    if (!plate) {
+      startRef.current = null;
+      landedRef.current = false;
+      group.position.copy(rest);
+      group.scale.setScalar(1);
+      return;
+    }
+    const now = clock.getElapsedTime();
+    startRef.current ??= now + delay;
+    const elapsed = now - startRef.current;
+    const t = Math.min(1, Math.max(0, elapsed / SERVE_DURATION));
+    group.position.lerpVectors(rest, plate, EASINGS.easeInOutCubic(t));
+    group.position.y += SERVE_LIFT * 4 * t * (1 - t);
+
+    const settle = (elapsed - SERVE_DURATION) / SETTLE_DURATION;
+    const squash = settle > 0 && settle < 1 ? Math.sin(settle * Math.PI) * SETTLE_SQUASH : 0;
+    group.scale.set(1 + squash / 2, 1 - squash, 1 + squash / 2);
+    if (t === 1 && !landedRef.current) {
+      landedRef.current = true;
+      onLand?.([plate.x, plate.y, plate.z]);
+    }
+  });
+
+  return (
+    <group ref={groupRef} position={rest}>
+      {/* Built where it was cut from; shift so the group sits at its base's centre */}
+      <primitive object={scene} position={[-x, -base, -z]} />
+    </group>
+  );
+}
+
+type CakeSlicesProps = {
+  config: CakeConfig;
+  layout: CakeLayout;
+  pieces: ReadonlyArray<CakePiece>;
+  seats: ReadonlyArray<Point>;
+  /** Which piece goes to which seat; null until served. */
+  servings: ReadonlyArray<Serving> | null;
+  /** A served slice touched down on its plate. */
+  onSliceLanded?: (position: Vec3) => void;
+};
+
+/** The cut cake on its board, and a plate at each seat for the slices. */
+export function CakeSlices({
+  config,
+  layout,
+  pieces,
+  seats,
+  servings,
+  onSliceLanded,
+}: CakeSlicesProps) {
+  const served = useMemo(
+    () => new Map(servings?.map((serving, order) => [serving.pieceId, { ...serving, order }])),
+    [servings]
+  );
+  const board = useMemo(() => buildBoard(layout), [layout]);
+
+  useEffect(
+    () => () => {
+      board.geometry.dispose();
+      board.material.dispose();
+    },
+    [board]
+  );
+
+  return (
+    <>
+      <primitive object={board} />
+      {seats.map((seat, index) => (
+        <mesh key={index} position={[seat[0], TABLE_TOP_Y + PLATE_HEIGHT / 2, seat[1]]}>
+          <cylinderGeometry args={[PLATE_RADIUS, PLATE_RADIUS * 0.8, PLATE_HEIGHT, 48]} />
+          <meshStandardMaterial color={PLATE_COLOR} roughness={0.3} />
+        </mesh>
+      ))}
+      {pieces.map((piece) => {
+        const serving = served.get(piece.id);
+        return (
+          <Slice
+            key={piece.id}
+            config={config}
+            layout={layout}
+            piece={piece}
+            seat={serving ? seats[serving.seat] : null}
+            delay={serving ? serving.order * SERVE_STAGGER : 0}
+            onLand={onSliceLanded}
+          />
+        );
+      })}
+    </>
+  );
+}
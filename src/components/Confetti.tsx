@@ -0,0 +1,160 @@
+import { useFrame } from "@react-three/fiber";
+import { useEffect, useMemo, useRef, type RefObject } from "react";
+import {
+  Box3,
+  Color,
+  DoubleSide,
+  InstancedMesh,
+  Object3D,
+  type Object3D as SceneObject,
+} from "three";
+import { createRandom } from "../fireworks/random";
+import {
+  createConfetti,
+  PIECE_GONE,
+  stepConfetti,
+  type ConfettiSpawn,
+  type ConfettiState,
+  type ConfettiSurface,
+} from "../celebration/confetti";
+
+type ConfettiProps = {
+  isActive: boolean;
+  /** Pieces land on top of this object's bounding box (the table). */
+  surface?: RefObject<SceneObject | null>;
+  count?: number;
+  palette?: ReadonlyArray<string>;
+};
+
+const DEFAULT_COUNT = 600;
+const DEFAULT_PALETTE = ["#ff6f91", "#ffc75f", "#f9f871", "#845ec2", "#4ffbdf", "#ffffff"];
+const PIECE_SIZE: [number, number] = [0.05, 0.08];
+const FALLBACK_SURFACE: ConfettiSurface = {
+  y: 0.08,
+  minX: -2.5,
+  maxX: 2.5,
+  minZ: -3.5,
+  maxZ: 3.5,
+};
+const FADE_SECONDS = 1.2;
+
+/** Measures the table top from the surface object's bounding box. */
+function measureSurface(object: SceneObject | null | undefined): ConfettiSurface {
+  if (!object) {
+    return FALLBACK_SURFACE;
+  }
+  const box = new Box3().setFromObject(object);
+  if (box.isEmpty()) {
+    return FALLBACK_SURFACE;
+  }
+  return {
+    y: box.max.y,
+    minX: box.min.x,
+    maxX: box.max.x,
+    minZ: box.min.z,
+    maxZ: box.max.z,
+  };
+}
+
+const spawnAbove = (surface: ConfettiSurface): ConfettiSpawn => ({
+  center: [(surface.minX + surface.maxX) / 2, (surface.minZ + surface.maxZ) / 2],
+  // A little wider than the table so some pieces miss and fall past it
+  radius: Math.max(surface.maxX - surface.minX, surface.maxZ - surface.minZ) * 0.6,
+  height: [2.5, 6],
+});
+
+export function Confetti({
+  isActive,
+  surface,
+  count = DEFAULT_COUNT,
+  palette = DEFAULT_PALETTE,
+}: ConfettiProps) {
+  const meshRef = useRef<InstancedMesh>(null);
+  const stateRef = useRef<{
+    confetti: ConfettiState;
+    surface: ConfettiSurface;
+    spawn: ConfettiSpawn;
+    time: number;
+    fade: number;
+  } | null>(null);
+  const random = useMemo(() => createRandom(11), []);
+  const colors = useMemo(() => palette.map((hex) => new Color(hex)), [palette]);
+  const dummy = useMemo(() => new Object3D(), []);
+
+  // Start a fresh fall each time the celebration begins
+  useEffect(() => {
+    if (!isActive) {
+      return;
+    }
+    const measured = measureSurface(surface?.current);
+    const spawn = spawnAbove(measured);
+    stateRef.current = {
+      confetti: createConfetti(count, measured, spawn, random, colors.length),
+      surface: measured,
+      spawn,
+      time: 0,
+      fade: 1,
+    };
+    const mesh = meshRef.current;
+    if (mesh) {
+      const { confetti } = stateRef.current;
+      for (let i = 0; i < count; i += 1) {
+        mesh.setColorAt(i, colors[confetti.color[i]]);
+      }
+      if (mesh.instanceColor) {
+        mesh.instanceColor.needsUpdate = true;
+      }
+    }
+  }, [isActive, count, surface, random, colors]);
+
+  useFrame((_, delta) => {
+    const mesh = meshRef.current;
+    const state = stateRef.current;
+    if (!mesh || !state) {
+      return;
+    }
+    // Once the celebration ends, let the last pieces fall and fade the rest
+    if (!isActive) {
+      state.fade = Math.max(0, state.fade - delta / FADE_SECONDS);
+    }
+    mesh.visible = state.fade > 0;
+    if (!mesh.visible) {
+      return;
+    }
+
+    state.time += delta;
+    stepConfetti(
+      state.confetti,
+      Math.min(delta, 0.05),
+      state.time,
+      state.surface,
+      state.spawn,
+      random,
+      colors.length,
+      isActive
+    );
+
+    const { position, rotation, status } = state.confetti;
+    for (let i = 0; i < count; i += 1) {
+      const i3 = i * 3;
+      dummy.position.set(position[i3], position[i3 + 1], position[i3 + 2]);
+      dummy.rotation.set(rotation[i3], rotation[i3 + 1], rotation[i3 + 2]);
+      dummy.scale.setScalar(status[i] === PIECE_GONE ? 0 : state.fade);
+      dummy.updateMatrix();
+      mesh.setMatrixAt(i, dummy.matrix);
+    }
+    mesh.instanceMatrix.needsUpdate = true;
+  });
+
+  return (
+    <instancedMesh
+      ref={meshRef}
+      args={[undefined, undefined, count]}
+      frustumCulled={false}
+      visible={false}
+    >
+      <planeGeometry args={PIECE_SIZE} />
+      <meshStandardMaterial side={DoubleSide} roughness={0.6} metalness={0.1} />
+    </instancedMesh>
+  );
+}
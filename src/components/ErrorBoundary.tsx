@@ -0,0 +1,38 @@
+import { Component, type ErrorInfo, type ReactNode } from "react";
+
+type ErrorBoundaryProps = {
+  /** Shown instead of the children once they throw. */
+  fallback: ReactNode | ((error: Error) => ReactNode);
+  /** Logged with this label; defaults to a plain warning. */
+  label?: string;
+  children?: ReactNode;
+};
+
+type ErrorBoundaryState = {
+  error: Error | null;
+};
+
+/**
+ * Catches a render or loader error below it and shows the fallback, so one
+ * broken asset does not take the whole page down.
+ */
+export class ErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundaryState> {
+  state: ErrorBoundaryState = { error: null };
+
+  static getDerivedStateFromError(error: unknown): ErrorBoundaryState {
+    return { error: error instanceof Error ? error : new Error(String(error)) };
+  }
+
+  componentDidCatch(error: Error, info: ErrorInfo) {
+    console.warn(this.props.label ?? "Render failed", error, info.componentStack);
+  }
+
+  render() {
+    const { error } = this.state;
+    if (!error) {
+      return this.props.children;
+    }
+    const { fallback } = this.props;
+    return typeof fallback === "function" ? fallback(error) : fallback;
+  }
+}
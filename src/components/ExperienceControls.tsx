@@ -0,0 +1,122 @@
+import { useEffect, useState, type ChangeEvent, type MouseEvent, type RefObject } from "react";
+import {
+  canSkipIntro,
+  type ExperiencePhase,
+} from "../scene/experienceMachine";
+import type { TimelinePlayer } from "../timeline/timeline";
+
+type ExperienceControlsProps = {
+  phase: ExperiencePhase;
+  onSkipIntro: () => void;
+  onCelebrate: () => void;
+  onCutCake: () => void;
+  /** Slides the cut slices onto the plates; unset until there is something to serve. */
+  onServe?: () => void;
+  onReplay: () => void;
+  /** The intro's player, for pausing and scrubbing it while it runs. */
+  introTimelineRef?: RefObject<TimelinePlayer | null>;
+};
+
+const stopPropagation = (event: MouseEvent) => {
+  // Control clicks must not count as a tap on the scene
+  event.stopPropagation();
+};
+
+type Playhead = Pick<TimelinePlayer, "time" | "duration" | "isPlaying">;
+
+const samePlayhead = (a: Playhead, b: Playhead) =>
+  a.time === b.time && a.duration === b.duration && a.isPlaying === b.isPlaying;
+
+/** Pause and scrub for the intro, following its playhead as it plays. */
+function IntroControls({ timelineRef }: { timelineRef: RefObject<TimelinePlayer | null> }) {
+  const [playhead, setPlayhead] = useState<Playhead>({ time: 0, duration: 0, isPlaying: false });
+
+  useEffect(() => {
+    let handle = 0;
+    const follow = () => {
+      const player = timelineRef.current;
+      if (player) {
+        const { time, duration, isPlaying } = player;
+        const next = { time, duration, isPlaying };
+        setPlayhead((current) => (samePlayhead(current, next) ? current : next));
+      }
+      handle = requestAnimationFrame(follow);
+    };
+    handle = requestAnimationFrame(follow);
+    return () => cancelAnimationFrame(handle);
+  }, [timelineRef]);
+
+  const togglePlaying = () => {
+    const player = timelineRef.current;
+    if (player?.isPlaying) {
+      player.pause();
+    } else {
+      player?.play();
+    }
+  };
+
+  const scrub = (event: ChangeEvent<HTMLInputElement>) => {
+    timelineRef.current?.seek(Number(event.target.value));
+  };
+
+  return (
+    <>
+      <button type="button" onClick={togglePlaying}>
+        {playhead.isPlaying ? "pause" : "play"}
+      </button>
+      <input
+        className="intro-scrubber"
+        type="range"
+        aria-label="intro position"
+        min={0}
+        max={playhead.duration}
+        step={0.01}
+        value={playhead.time}
+        onChange={scrub}
+      />
+    </>
+  );
+}
+
+export function ExperienceControls({
+  phase,
+  onSkipIntro,
+  onCelebrate,
+  onCutCake,
+  onServe,
+  onReplay,
+  introTimelineRef,
+}: ExperienceControlsProps) {
+  return (
+    <nav className="experience-controls" onClick={stopPropagation}>
+      {canSkipIntro(phase) && (
+        <button type="button" onClick={onSkipIntro}>
+          {phase === "singing" ? "skip song" : "skip intro"}
+        </button>
+      )}
+      {phase === "sceneIntro" && introTimelineRef && (
+        <IntroControls timelineRef={introTimelineRef} />
+      )}
+      {(phase === "ready" || phase === "singing") && (
+        <button type="button" onClick={onCelebrate}>
+          celebrate
+        </button>
+      )}
+      {phase === "celebrating" && (
+        <button type="button" onClick={onCutCake}>
+          cut the cake
+        </button>
+      )}
+      {phase === "cutting" && onServe && (
+        <button type="button" onClick={onServe}>
+          serve
+        </button>
+      )}
+      {(phase === "ready" || phase === "celebrating" || phase === "cutting") && (
+        <button type="button" onClick={onReplay}>
+          replay
+        </button>
+      )}
+    </nav>
+  );
+}
@@ -0,0 +1,105 @@
+import { useFrame } from "@react-three/fiber";
+import { useEffect, useMemo, useRef } from "react";
+import { CanvasTexture, SRGBColorSpace, Sprite, type SpriteMaterial } from "three";
+import type { Reaction } from "../guestbook/backend";
+
+type FloatingReactionsProps = {
+  reactions: ReadonlyArray<Reaction>;
+};
+
+const TEXTURE_SIZE = 128;
+const SPRITE_SIZE = 0.28;
+const RISE_SPEED = 0.45;
+const LIFETIME = 3.5;
+const FADE_IN = 0.25;
+// Reactions leave the table from within this square around the cake
+const SPREAD = 1.6;
+const TABLE_TOP_Y = 0.08;
+
+const textureCache = new Map<string, CanvasTexture>();
+
+/** Draws an emoji into a texture, once per emoji. */
+function emojiTexture(emoji: string) {
+  const cached = textureCache.get(emoji);
+  if (cached) {
+    return cached;
+  }
+  const canvas = document.createElement("canvas");
+  canvas.width = TEXTURE_SIZE;
+  canvas.height = TEXTURE_SIZE;
+  const context = canvas.getContext("2d");
+  if (context) {
+    context.font = `${TEXTURE_SIZE * 0.8}px "Apple Color Emoji", "Segoe UI Emoji", "Noto Color Emoji", sans-serif`;
+    context.textAlign = "center";
+    context.textBaseline = "middle";
+    context.fillText(emoji, TEXTURE_SIZE / 2, TEXTURE_SIZE / 2 + TEXTURE_SIZE * 0.05);
+  }
+  const texture = new CanvasTexture(canvas);
+  texture.colorSpace = SRGBColorSpace;
+  textureCache.set(emoji, texture);
+  return texture;
+}
+
+// A stable pseudo-random value in [0, 1) from a reaction id and a salt
+function hash(id: string, salt: number) {
+  let value = salt * 2654435761;
+  for (let i = 0; i < id.length; i += 1) {
+    value = Math.imul(value ^ id.charCodeAt(i), 2246822519);
+  }
+  return ((value >>> 0) % 10000) / 10000;
+}
+
+function FloatingReaction({ reaction }: { reaction: Reaction }) {
+  const spriteRef = useRef<Sprite>(null);
+  const age = useRef(0);
+  const texture = useMemo(() => emojiTexture(reaction.emoji), [reaction.emoji]);
+  const start = useMemo(
+    () => ({
+      x: (hash(reaction.id, 1) - 0.5) * SPREAD,
+      z: (hash(reaction.id, 2) - 0.5) * SPREAD,
+      sway: 0.5 + hash(reaction.id, 3),
+      phase: hash(reaction.id, 4) * Math.PI * 2,
+    }),
+    [reaction.id]
+  );
+
+  useEffect(() => {
+    spriteRef.current?.position.set(start.x, TABLE_TOP_Y, start.z);
+  }, [start]);
+
+  useFrame((_, delta) => {
+    const sprite = spriteRef.current;
+    if (!sprite) {
+      return;
+    }
+    age.current += delta;
+    const t = age.current;
+    sprite.position.set(
+      start.x + Math.sin(t * start.sway * 2 + start.phase) * 0.12,
+      TABLE_TOP_Y + t * RISE_SPEED,
+      start.z
+    );
+    const grow = Math.min(t / FADE_IN, 1);
+    sprite.scale.setScalar(SPRITE_SIZE * (0.6 + 0.4 * grow));
+    const material = sprite.material as SpriteMaterial;
+    material.opacity = Math.max(0, Math.min(grow, (LIFETIME - t) / (LIFETIME / 3)));
+    sprite.visible = t < LIFETIME;
+  });
+
+  return (
+    <sprite ref={spriteRef} scale={SPRITE_SIZE * 0.6}>
+      <spriteMaterial map={texture} transparent depthWrite={false} opacity={0} />
+    </sprite>
+  );
+}
+
+/** Guests' reactions, rising from the table and fading out. */
+export function FloatingReactions({ reactions }: FloatingReactionsProps) {
+  return (
+    <>
+      {reactions.map((reaction) => (
+        <FloatingReaction key={reaction.id} reaction={reaction} />
+      ))}
+    </>
+  );
+}
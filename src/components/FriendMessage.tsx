@@ -0,0 +1,301 @@
+import { Html, useCursor, useTexture } from "@react-three/drei";
+import { useFrame, useThree, type ThreeEvent } from "@react-three/fiber";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  Euler,
+  Group,
+  Mesh,
+  Quaternion,
+  Shape,
+  SRGBColorSpace,
+  Vector3,
+  type Texture,
+} from "three";
+import { createFittedPlane, fitPhoto, textureAspect } from "../frames/fit";
+import {
+  messageKindOf,
+  messageObjectOf,
+  type Contributor,
+  type MessageObject,
+} from "../messages/contributor";
+import type { MessageStatus } from "../messages/messagePlayer";
+import { useMessagePlayer } from "../messages/useMessagePlayer";
+
+type FriendMessageProps = {
+  contributor: Contributor;
+  isActive: boolean;
+  isRead: boolean;
+  onToggle: (id: string) => void;
+  /** The message started or stopped playing with sound. */
+  onAudibleChange?: (id: string, audible: boolean) => void;
+};
+
+type ObjectShape = {
+  size: [number, number, number];
+  color: string;
+  /** Picture area on the front face; the envelope shows a round seal instead. */
+  screen?: [number, number];
+};
+
+const OBJECT_SHAPES: Record<MessageObject, ObjectShape> = {
+  envelope: { size: [0.5, 0.34, 0.012], color: "#f3e6d3" },
+  phone: { size: [0.22, 0.44, 0.018], color: "#1b1b1f", screen: [0.2, 0.4] },
+  tablet: { size: [0.52, 0.36, 0.018], color: "#1b1b1f", screen: [0.48, 0.32] },
+};
+
+const SEAL_RADIUS = 0.07;
+const CAMERA_DISTANCE = 0.9;
+const CAMERA_Y_FLOOR = 0.8;
+const HOVER_LIFT = 0.04;
+const PLACEHOLDER_COLOR = "#3a2f4a";
+
+const STATUS_LABELS: Record<MessageStatus, string> = {
+  idle: "▶",
+  playing: "▶ playing",
+  paused: "❚❚ paused",
+  ended: "■ played",
+  unavailable: "message unavailable",
+};
+
+function AvatarMaterial({ avatar }: { avatar: string }) {
+  const texture = useTexture(avatar);
+  useEffect(() => {
+    texture.colorSpace = SRGBColorSpace;
+  }, [texture]);
+
+  return <meshBasicMaterial map={texture} toneMapped={false} />;
+}
+
+/** A picture cropped to fill the screen, re-fitted once its size is known. */
+function Screen({ size, texture }: { size: [number, number]; texture: Texture }) {
+  const [aspect, setAspect] = useState<number | undefined>(undefined);
+  const [width, height] = size;
+  const geometry = useMemo(
+    () => createFittedPlane(fitPhoto("cover", aspect, width, height)),
+    [aspect, width, height]
+  );
+
+  useEffect(() => {
+    return () => geometry.dispose();
+  }, [geometry]);
+
+  useFrame(() => {
+    const next = textureAspect(texture);
+    if (next !== aspect) {
+      setAspect(next);
+    }
+  });
+
+  return (
+    <mesh geometry={geometry}>
+      <meshBasicMaterial map={texture} toneMapped={false} />
+    </mesh>
+  );
+}
+
+function AvatarScreen({ size, avatar }: { size: [number, number]; avatar: string }) {
+  const texture = useTexture(avatar);
+  useEffect(() => {
+    texture.colorSpace = SRGBColorSpace;
+  }, [texture]);
+
+  return <Screen size={size} texture={texture} />;
+}
+
+export function FriendMessage({
+  contributor,
+  isActive,
+  isRead,
+  onToggle,
+  onAudibleChange,
+}: FriendMessageProps) {
+  const { id, name, avatar, media, position, rotation } = contributor;
+  const kind = messageKindOf(contributor);
+  const shape = OBJECT_SHAPES[messageObjectOf(contributor)];
+  const groupRef = useRef<Group>(null);
+  const badgeRef = useRef<Mesh>(null);
+  const { camera } = useThree();
+  const [isHovered, setIsHovered] = useState(false);
+  const { player, status } = useMessagePlayer(media, kind);
+
+  useCursor(isHovered || isActive, "pointer");
+
+  const defaultPosition = useMemo(() => new Vector3(...position), [position]);
+  const defaultQuaternion = useMemo(
+    () => new Quaternion().setFromEuler(new Euler(...rotation)),
+    [rotation]
+  );
+
+  useEffect(() => {
+    const group = groupRef.current;
+    if (!group) {
+      return;
+    }
+    group.position.copy(defaultPosition);
+    group.quaternion.copy(defaultQuaternion);
+  }, [defaultPosition, defaultQuaternion]);
+
+  // Play while brought up; put back on the table, it stops and rewinds
+  useEffect(() => {
+    if (!player) {
+      return;
+    }
+    if (isActive) {
+      player.play();
+    } else {
+      setIsHovered(false);
+      player.stop();
+    }
+  }, [player, isActive]);
+
+  useEffect(() => {
+    onAudibleChange?.(id, status === "playing");
+  }, [id, status, onAudibleChange]);
+
+  useEffect(() => {
+    return () => onAudibleChange?.(id, false);
+  }, [id, onAudibleChange]);
+
+  const tmpPosition = useMemo(() => new Vector3(), []);
+  const tmpQuaternion = useMemo(() => new Quaternion(), []);
+  const tmpDirection = useMemo(() => new Vector3(), []);
+
+  useFrame(({ clock }, delta) => {
+    const group = groupRef.current;
+    if (!group) {
+      return;
+    }
+
+    if (isActive) {
+      tmpPosition
+        .copy(camera.position)
+        .add(camera.getWorldDirection(tmpDirection).multiplyScalar(CAMERA_DISTANCE));
+      tmpPosition.y = Math.max(tmpPosition.y, CAMERA_Y_FLOOR);
+      tmpQuaternion.copy(camera.quaternion);
+    } else {
+      tmpPosition.copy(defaultPosition);
+      if (isHovered) {
+        tmpPosition.y += HOVER_LIFT;
+      }
+      tmpQuaternion.copy(defaultQuaternion);
+    }
+    group.position.lerp(tmpPosition, 1 - Math.exp(-delta * 12));
+    group.quaternion.slerp(tmpQuaternion, 1 - Math.exp(-delta * 10));
+
+    const badge = badgeRef.current;
+    if (badge) {
+      badge.scale.setScalar(1 + Math.sin(clock.getElapsedTime() * 4) * 0.2);
+    }
+  });
+
+  const handlePointerOver = useCallback(
+    (event: ThreeEvent<PointerEvent>) => {
+      event.stopPropagation();
+      if (!isActive) {
+        setIsHovered(true);
+      }
+    },
+    [isActive]
+  );
+
+  const handlePointerOut = useCallback((event: ThreeEvent<PointerEvent>) => {
+    event.stopPropagation();
+    setIsHovered(false);
+  }, []);
+
+  const handlePointerDown = useCallback((event: ThreeEvent<PointerEvent>) => {
+    event.stopPropagation();
+  }, []);
+
+  const handleClick = useCallback(
+    (event: ThreeEvent<MouseEvent>) => {
+      event.stopPropagation();
+      onToggle(id);
+    },
+    [id, onToggle]
+  );
+
+  const [width, height, depth] = shape.size;
+  // The envelope's flap, a V from the top corners to the middle
+  const flap = useMemo(
+    () =>
+      new Shape()
+        .moveTo(-width / 2, height / 2)
+        .lineTo(width / 2, height / 2)
+        .lineTo(0, -height * 0.1)
+        .closePath(),
+    [width, height]
+  );
+  const front = depth / 2 + 0.0005;
+  const showsVideo = isActive && player?.texture && status !== "unavailable";
+
+  return (
+    <group
+      ref={groupRef}
+      onPointerOver={handlePointerOver}
+      onPointerOut={handlePointerOut}
+      onPointerDown={handlePointerDown}
+      onClick={handleClick}
+    >
+      <mesh castShadow receiveShadow>
+        <boxGeometry args={shape.size} />
+        <meshStandardMaterial color={shape.color} roughness={0.5} metalness={0.1} />
+      </mesh>
+      {shape.screen ? (
+        <group position={[0, 0, front]}>
+          {showsVideo && player.texture ? (
+            <Screen size={shape.screen} texture={player.texture} />
+          ) : avatar ? (
+            <AvatarScreen size={shape.screen} avatar={avatar} />
+          ) : (
+            <mesh>
+              <planeGeometry args={shape.screen} />
+              <meshBasicMaterial color={PLACEHOLDER_COLOR} />
+            </mesh>
+          )}
+        </group>
+      ) : (
+        <>
+          <mesh position={[0, 0, front]}>
+            <shapeGeometry args={[flap]} />
+            <meshStandardMaterial color="#e8d5bb" roughness={0.7} />
+          </mesh>
+          <mesh position={[0, 0, front + 0.0005]}>
+            <circleGeometry args={[SEAL_RADIUS, 32]} />
+            {avatar ? (
+              <AvatarMaterial avatar={avatar} />
+            ) : (
+              <meshStandardMaterial color="#c0394b" />
+            )}
+          </mesh>
+        </>
+      )}
+      {!isRead && !isActive && (
+        <mesh
+          ref={badgeRef}
+          position={[width / 2 - 0.02, height / 2 - 0.02, front + 0.02]}
+        >
+          <sphereGeometry args={[0.022, 16, 16]} />
+          <meshStandardMaterial
+            color="#ff6f91"
+            emissive="#ff6f91"
+            emissiveIntensity={1.5}
+            toneMapped={false}
+          />
+        </mesh>
+      )}
+      {isActive && (
+        <Html
+          center
+          position={[0, -height / 2 - 0.06, 0]}
+          style={{ pointerEvents: "none" }}
+        >
+          <div className="message-label">
+            <span>{name}</span>
+            <span className="message-label__status">{STATUS_LABELS[status]}</span>
+          </div>
+        </Html>
+      )}
+    </group>
+  );
+}
@@ -0,0 +1,120 @@
+import { useCallback, useState, type FormEvent, type MouseEvent } from "react";
+import {
+  MAX_AUTHOR_LENGTH,
+  MAX_MESSAGE_LENGTH,
+  type GuestbookEntry,
+} from "../guestbook/backend";
+
+type GuestbookOverlayProps = {
+  reactions: ReadonlyArray<string>;
+  entries: ReadonlyArray<GuestbookEntry>;
+  /** Prefills the name field, e.g. the party guest name. */
+  defaultAuthor?: string;
+  /** Sits above the candle hint and microphone prompt while they show. */
+  isRaised: boolean;
+  onReact: (author: string, emoji: string) => void;
+  onPost: (author: string, text: string) => Promise<unknown>;
+};
+
+const stopPropagation = (event: MouseEvent) => {
+  // Overlay clicks must not count as a tap on the scene
+  event.stopPropagation();
+};
+
+const formatTime = (at: number) =>
+  new Date(at).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
+export function GuestbookOverlay({
+  reactions,
+  entries,
+  defaultAuthor = "",
+  isRaised,
+  onReact,
+  onPost,
+}: GuestbookOverlayProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [author, setAuthor] = useState(defaultAuthor);
+  const [text, setText] = useState("");
+  const [isPosting, setIsPosting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = useCallback(
+    (event: FormEvent) => {
+      event.preventDefault();
+      if (!text.trim() || isPosting) {
+        return;
+      }
+      setIsPosting(true);
+      setError(null);
+      onPost(author, text)
+        .then(() => setText(""))
+        .catch((reason: unknown) => {
+          setError(reason instanceof Error ? reason.message : "could not send");
+        })
+        .finally(() => setIsPosting(false));
+    },
+    [author, text, isPosting, onPost]
+  );
+
+  return (
+    <div
+      className={isRaised ? "guestbook guestbook--raised" : "guestbook"}
+      onClick={stopPropagation}
+    >
+      {isOpen && (
+        <section className="guestbook__panel" aria-label="guestbook">
+          <ol className="guestbook__entries">
+            {entries.length === 0 && <li className="guestbook__empty">&gt; no messages yet</li>}
+            {entries.map((entry) => (
+              <li key={entry.id}>
+                <span className="guestbook__meta">
+                  [{formatTime(entry.at)}] {entry.author}:
+                </span>{" "}
+                {entry.text}
+              </li>
+            ))}
+          </ol>
+          <form className="guestbook__form" onSubmit={handleSubmit}>
+            <input
+              type="text"
+              placeholder="name"
+              value={author}
+              maxLength={MAX_AUTHOR_LENGTH}
+              onChange={(event) => setAuthor(event.target.value)}
+            />
+            <input
+              type="text"
+              placeholder="leave a message"
+              value={text}
+              maxLength={MAX_MESSAGE_LENGTH}
+              onChange={(event) => setText(event.target.value)}
+            />
+            <button type="submit" disabled={!text.trim() || isPosting}>
+              send
+            </button>
+          </form>
+          {error && (
+            <p className="guestbook__error" role="alert">
+              &gt; {error}
+            </p>
+          )}
+        </section>
+      )}
+      <nav className="guestbook__bar">
+        {reactions.map((emoji) => (
+          <button
+            key={emoji}
+            type="button"
+            className="guestbook__reaction"
+            onClick={() => onReact(author, emoji)}
+          >
+            {emoji}
+          </button>
+        ))}
+        <button type="button" onClick={() => setIsOpen((open) => !open)}>
+          {isOpen ? "close" : `guestbook (${entries.length})`}
+        </button>
+      </nav>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import type { ChangeEvent, MouseEvent } from "react";
+import type { MicrophoneStatus } from "../audio/useMicrophoneBlow";
+
+type MicrophonePromptProps = {
+  status: MicrophoneStatus;
+  sensitivity: number;
+  onRequest: () => void;
+  onSensitivityChange: (value: number) => void;
+};
+
+const stopPropagation = (event: MouseEvent) => {
+  // Clicking the prompt must not count as a tap on the scene
+  event.stopPropagation();
+};
+
+export function MicrophonePrompt({
+  status,
+  sensitivity,
+  onRequest,
+  onSensitivityChange,
+}: MicrophonePromptProps) {
+  const handleSensitivity = (event: ChangeEvent<HTMLInputElement>) => {
+    onSensitivityChange(Number(event.target.value));
+  };
+
+  return (
+    <div className="mic-prompt" onClick={stopPropagation}>
+      {status === "idle" && (
+        <button type="button" onClick={onRequest}>
+          &gt; use the microphone to blow
+        </button>
+      )}
+      {status === "requesting" && <span>&gt; waiting for the microphone...</span>}
+      {status === "listening" && (
+        <label>
+          <span>sensitivity</span>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={sensitivity}
+            onChange={handleSensitivity}
+          />
+        </label>
+      )}
+      {(status === "denied" || status === "unsupported") && (
+        <span>&gt; microphone unavailable, tap instead</span>
+      )}
+    </div>
+  );
+}
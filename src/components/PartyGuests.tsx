@@ -0,0 +1,138 @@
+import { Html } from "@react-three/drei";
+import { useFrame, useThree } from "@react-three/fiber";
+import { useEffect, useRef } from "react";
+import { Group, Plane, Raycaster, Vector2, Vector3 } from "three";
+import type { Guest } from "../party/protocol";
+
+type Vec3 = [number, number, number];
+
+const TABLE_TOP_Y = 0.08;
+const TABLE_HALF_WIDTH = 2.5;
+const TABLE_HALF_DEPTH = 3.5;
+const CURSOR_INTERVAL_MS = 100;
+const MARKER_HEIGHT = 0.12;
+
+type PartyPointerProps = {
+  /** Where this guest points on the table, or null once off it. */
+  onMove: (position: Vec3 | null) => void;
+};
+
+/** Follows the pointer over the table top, at most every 100 ms. */
+export function PartyPointer({ onMove }: PartyPointerProps) {
+  const get = useThree((state) => state.get);
+  const element = useThree((state) => state.gl.domElement);
+  const onMoveRef = useRef(onMove);
+
+  useEffect(() => {
+    onMoveRef.current = onMove;
+  }, [onMove]);
+
+  useEffect(() => {
+    const raycaster = new Raycaster();
+    const plane = new Plane(new Vector3(0, 1, 0), -TABLE_TOP_Y);
+    const pointer = new Vector2();
+    const hit = new Vector3();
+    let lastSent = 0;
+    let last: Vec3 | null = null;
+
+    const emit = (position: Vec3 | null) => {
+      if (position === null && last === null) {
+        return;
+      }
+      last = position;
+      lastSent = performance.now();
+      onMoveRef.current(position);
+    };
+
+    const handleMove = (event: PointerEvent) => {
+      if (performance.now() - lastSent < CURSOR_INTERVAL_MS) {
+        return;
+      }
+      const rect = element.getBoundingClientRect();
+      pointer.set(
+        ((event.clientX - rect.left) / rect.width) * 2 - 1,
+        -((event.clientY - rect.top) / rect.height) * 2 + 1
+      );
+      raycaster.setFromCamera(pointer, get().camera);
+      const onTable =
+        raycaster.ray.intersectPlane(plane, hit) &&
+        Math.abs(hit.x) <= TABLE_HALF_WIDTH &&
+        Math.abs(hit.z) <= TABLE_HALF_DEPTH;
+      emit(onTable ? [hit.x, TABLE_TOP_Y, hit.z] : null);
+    };
+    const handleLeave = () => emit(null);
+
+    element.addEventListener("pointermove", handleMove);
+    element.addEventListener("pointerleave", handleLeave);
+    return () => {
+      element.removeEventListener("pointermove", handleMove);
+      element.removeEventListener("pointerleave", handleLeave);
+    };
+  }, [element, get]);
+
+  return null;
+}
+
+function GuestMarker({ guest, cursor }: { guest: Guest; cursor: Vec3 }) {
+  const groupRef = useRef<Group>(null);
+  const target = useRef(new Vector3());
+
+  useEffect(() => {
+    target.current.set(...cursor);
+  }, [cursor]);
+
+  // Glide between the relay's updates rather than jumping
+  useFrame(({ clock }, delta) => {
+    const group = groupRef.current;
+    if (!group) {
+      return;
+    }
+    if (group.userData.placed) {
+      group.position.lerp(target.current, 1 - Math.exp(-delta * 10));
+    } else {
+      group.position.copy(target.current);
+      group.userData.placed = true;
+    }
+    group.children[0].position.y =
+      MARKER_HEIGHT + Math.sin(clock.getElapsedTime() * 3) * 0.015;
+  });
+
+  return (
+    <group ref={groupRef}>
+      <mesh rotation={[Math.PI, 0, 0]}>
+        <coneGeometry args={[0.035, 0.09, 16]} />
+        <meshStandardMaterial
+          color={guest.color}
+          emissive={guest.color}
+          emissiveIntensity={0.6}
+        />
+      </mesh>
+      <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, 0.002, 0]}>
+        <ringGeometry args={[0.04, 0.055, 32]} />
+        <meshBasicMaterial color={guest.color} transparent opacity={0.7} />
+      </mesh>
+      <Html center position={[0, MARKER_HEIGHT + 0.1, 0]} style={{ pointerEvents: "none" }}>
+        <div className="party-marker" style={{ color: guest.color }}>
+          {guest.name}
+        </div>
+      </Html>
+    </group>
+  );
+}
+
+type PartyGuestsProps = {
+  guests: ReadonlyArray<Guest>;
+};
+
+/** The other guests' pointers, as colored pins on the table. */
+export function PartyGuests({ guests }: PartyGuestsProps) {
+  return (
+    <>
+      {guests.map((guest) =>
+        guest.cursor ? (
+          <GuestMarker key={guest.id} guest={guest} cursor={guest.cursor} />
+        ) : null
+      )}
+    </>
+  );
+}
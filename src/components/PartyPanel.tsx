@@ -0,0 +1,53 @@
+import type { MouseEvent } from "react";
+import type { Guest } from "../party/protocol";
+import type { PartyStatus } from "../party/usePartySync";
+
+type PartyPanelProps = {
+  room: string;
+  status: PartyStatus;
+  guests: ReadonlyArray<Guest>;
+  /** The latest cheers, newest last. */
+  cheers: ReadonlyArray<{ key: number; guest: Guest }>;
+  onCheer: () => void;
+};
+
+const STATUS_LABELS: Record<PartyStatus, string> = {
+  connecting: "connecting…",
+  connected: "live",
+  disconnected: "relay unreachable, retrying…",
+};
+
+const stopPropagation = (event: MouseEvent) => {
+  // Panel clicks must not count as a tap on the scene
+  event.stopPropagation();
+};
+
+export function PartyPanel({ room, status, guests, cheers, onCheer }: PartyPanelProps) {
+  return (
+    <aside className="party-panel" onClick={stopPropagation}>
+      <div className="party-panel__room">
+        &gt; party {room} · {STATUS_LABELS[status]}
+      </div>
+      {status === "connected" && (
+        <ul className="party-panel__guests">
+          <li>you</li>
+          {guests.map((guest) => (
+            <li key={guest.id} style={{ color: guest.color }}>
+              {guest.name}
+            </li>
+          ))}
+        </ul>
+      )}
+      <button type="button" onClick={onCheer} disabled={status !== "connected"}>
+        cheer
+      </button>
+      <ul className="party-panel__cheers" aria-live="polite">
+        {cheers.map(({ key, guest }) => (
+          <li key={key} style={{ color: guest.color }}>
+            {guest.name} cheers!
+          </li>
+        ))}
+      </ul>
+    </aside>
+  );
+}
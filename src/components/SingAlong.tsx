@@ -0,0 +1,61 @@
+import { useEffect, useState } from "react";
+import { lyricPosition, type LyricPosition, type Lyrics } from "../singalong/lrc";
+
+type SingAlongProps = {
+  lyrics: Lyrics;
+  /** Seconds into the song. */
+  getTime: () => number;
+};
+
+const wordClassName = (index: number, current: number) => {
+  if (index < current) {
+    return "lyrics-word lyrics-word--sung";
+  }
+  return index === current ? "lyrics-word lyrics-word--current" : "lyrics-word";
+};
+
+/** The line being sung, word by word, with the next line below it. */
+export function SingAlong({ lyrics, getTime }: SingAlongProps) {
+  const [position, setPosition] = useState<LyricPosition>({ line: -1, word: -1 });
+
+  useEffect(() => {
+    let frame = 0;
+    const tick = () => {
+      frame = requestAnimationFrame(tick);
+      const next = lyricPosition(lyrics, getTime());
+      setPosition((current) =>
+        current.line === next.line && current.word === next.word ? current : next
+      );
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [lyrics, getTime]);
+
+  // Before the first line, show what's coming
+  const lineIndex = position.line === -1 ? 0 : position.line;
+  const line = lyrics.lines[lineIndex];
+  const nextLine = lyrics.lines[lineIndex + 1];
+  if (!line) {
+    return null;
+  }
+
+  return (
+    <div className="lyrics" aria-live="polite">
+      <p className="lyrics-line">
+        {line.words.map((word, index) => (
+          <span
+            key={index}
+            className={wordClassName(index, position.line === -1 ? -1 : position.word)}
+          >
+            {word.text}{" "}
+          </span>
+        ))}
+      </p>
+      {nextLine && (
+        <p className="lyrics-line lyrics-line--next">
+          {nextLine.words.map((word) => word.text).join(" ")}
+        </p>
+      )}
+    </div>
+  );
+}
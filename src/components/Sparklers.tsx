@@ -0,0 +1,83 @@
+import { useFrame } from "@react-three/fiber";
+import { useEffect, useMemo } from "react";
+import { MathUtils, Quaternion, Vector3 } from "three";
+import {
+  compileSparklers,
+  placeSparklers,
+} from "../celebration/sparklers";
+import {
+  createFireworkGeometry,
+  createFireworkMaterial,
+  createFireworkUniforms,
+} from "../fireworks/fireworkMaterial";
+import { DEFAULT_CAKE_TOP, type CakeTop } from "../scene/candles";
+
+type SparklersProps = {
+  isActive: boolean;
+  count?: number;
+  top?: CakeTop;
+};
+
+const DEFAULT_COUNT = 3;
+const STICK_RADIUS = 0.006;
+const UP = new Vector3(0, 1, 0);
+
+/** Sparklers stuck in the cake; render them inside the cake's group. */
+export function Sparklers({
+  isActive,
+  count = DEFAULT_COUNT,
+  top = DEFAULT_CAKE_TOP,
+}: SparklersProps) {
+  const placements = useMemo(() => placeSparklers(count, top), [count, top]);
+  const sticks = useMemo(
+    () =>
+      placements.map(({ base, tip }) => {
+        const start = new Vector3(...base);
+        const axis = new Vector3(...tip).sub(start);
+        const length = axis.length();
+        return {
+          length,
+          position: start.addScaledVector(axis, 0.5),
+          quaternion: new Quaternion().setFromUnitVectors(UP, axis.normalize()),
+        };
+      }),
+    [placements]
+  );
+  const sparks = useMemo(() => compileSparklers(placements), [placements]);
+  const geometry = useMemo(() => createFireworkGeometry(sparks), [sparks]);
+  const uniforms = useMemo(() => createFireworkUniforms(), []);
+  const material = useMemo(() => createFireworkMaterial(uniforms), [uniforms]);
+
+  useEffect(() => {
+    return () => geometry.dispose();
+  }, [geometry]);
+
+  useEffect(() => {
+    return () => material.dispose();
+  }, [material]);
+
+  useFrame(({ size, viewport }, delta) => {
+    const target = isActive ? 1 : 0;
+    uniforms.uOpacity.value = MathUtils.damp(uniforms.uOpacity.value, target, 4, delta);
+    if (uniforms.uOpacity.value < 0.01) {
+      return;
+    }
+    uniforms.uTime.value += delta;
+    uniforms.uDuration.value = sparks.duration;
+    uniforms.uLoop.value = 1;
+    uniforms.uSizeScale.value = (size.height * viewport.dpr) / 2;
+  });
+
+  return (
+    <group>
+      {isActive &&
+        sticks.map(({ position, quaternion, length }, index) => (
+          <mesh key={index} position={position} quaternion={quaternion}>
+            <cylinderGeometry args={[STICK_RADIUS, STICK_RADIUS, length, 6]} />
+            <meshStandardMaterial color="#555555" metalness={0.6} roughness={0.4} />
+          </mesh>
+        ))}
+      <points geometry={geometry} material={material} frustumCulled={false} />
+    </group>
+  );
+}
@@ -0,0 +1,132 @@
+// @vitest-environment jsdom
+import { act, type ComponentProps } from "react";
+import { createRoot, type Root } from "react-dom/client";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { compileScript, type TypewriterClock } from "../typewriter/script";
+import { Typewriter } from "./Typewriter";
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+const CHAR_DELAY = 80;
+// Empty lines hold a no-break space so they keep their height
+const EMPTY_LINE = "\u00a0";
+
+/** A clock that only moves when the test advances it. */
+function createFakeClock() {
+  let now = 0;
+  let nextHandle = 1;
+  const timers = new Map<number, { at: number; callback: () => void }>();
+  const clock: TypewriterClock = {
+    setTimeout: (callback, ms) => {
+      timers.set(nextHandle, { at: now + ms, callback });
+      return nextHandle++;
+    },
+    clearTimeout: (handle) => {
+      timers.delete(handle);
+    },
+  };
+  const advance = (ms: number) => {
+    const end = now + ms;
+    for (;;) {
+      const due = [...timers].filter(([, timer]) => timer.at <= end);
+      if (due.length === 0) {
+        break;
+      }
+      const [handle, timer] = due.reduce((first, next) => (next[1].at < first[1].at ? next : first));
+      timers.delete(handle);
+      now = timer.at;
+      act(timer.callback);
+    }
+    now = end;
+  };
+  return { clock, advance };
+}
+
+let root: Root | null = null;
+let container: HTMLElement;
+
+type Props = ComponentProps<typeof Typewriter>;
+
+function render(props: Props) {
+  container = document.createElement("div");
+  root = createRoot(container);
+  act(() => root!.render(<Typewriter {...props} />));
+  return (next: Partial<Props>) => act(() => root!.render(<Typewriter {...props} {...next} />));
+}
+
+const shownLines = () =>
+  [...container.querySelectorAll(".typed-line")].map((line) => line.textContent);
+
+afterEach(() => {
+  act(() => root?.unmount());
+  root = null;
+});
+
+describe("Typewriter", () => {
+  const steps = compileScript(["hi", "{em}yo{/em}"], CHAR_DELAY).steps;
+
+  it("types one step each time its delay passes", () => {
+    const { clock, advance } = createFakeClock();
+    render({ steps, running: true, showCursor: false, clock });
+
+    expect(shownLines()).toEqual([EMPTY_LINE]);
+    advance(CHAR_DELAY - 1);
+    expect(shownLines()).toEqual([EMPTY_LINE]);
+    advance(1);
+    expect(shownLines()).toEqual(["h"]);
+    advance(CHAR_DELAY * 3);
+    expect(shownLines()).toEqual(["hi", "y"]);
+    expect(container.querySelector(".typed-em")?.textContent).toBe("y");
+  });
+
+  it("calls onComplete once the last step is typed", () => {
+    const { clock, advance } = createFakeClock();
+    const onComplete = vi.fn();
+    render({ steps, running: true, showCursor: false, clock, onComplete });
+
+    advance(CHAR_DELAY * (steps.length - 1));
+    expect(onComplete).not.toHaveBeenCalled();
+    advance(CHAR_DELAY * 10);
+    expect(shownLines()).toEqual(["hi", "yo"]);
+    expect(onComplete).toHaveBeenCalledTimes(1);
+  });
+
+  it("holds its place while paused", () => {
+    const { clock, advance } = createFakeClock();
+    const update = render({ steps, running: true, showCursor: false, clock });
+
+    advance(CHAR_DELAY);
+    update({ running: false });
+    advance(CHAR_DELAY * 10);
+    expect(shownLines()).toEqual(["h"]);
+
+    update({ running: true });
+    advance(CHAR_DELAY);
+    expect(shownLines()).toEqual(["hi"]);
+  });
+
+  it("shows everything at once when finished", () => {
+    const { clock } = createFakeClock();
+    render({ steps, running: false, finished: true, showCursor: false, clock });
+
+    expect(shownLines()).toEqual(["hi", "yo"]);
+  });
+
+  it("labels itself with the whole script for screen readers", () => {
+    const { clock } = createFakeClock();
+    render({ steps, running: false, showCursor: false, clock });
+
+    expect(container.querySelector(".typed-text")?.getAttribute("aria-label")).toBe("hi\nyo");
+  });
+
+  it("blinks the cursor on the clock too", () => {
+    const { clock, advance } = createFakeClock();
+    render({ steps, running: false, clock, cursorBlinkInterval: 500 });
+
+    expect(container.querySelector(".typed-cursor")).not.toBeNull();
+    advance(500);
+    expect(container.querySelector(".typed-cursor")).toBeNull();
+    advance(500);
+    expect(container.querySelector(".typed-cursor")).not.toBeNull();
+  });
+});
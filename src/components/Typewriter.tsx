@@ -0,0 +1,111 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  browserClock,
+  renderSteps,
+  scriptToPlainText,
+  type TypewriterClock,
+  type TypewriterStep,
+} from "../typewriter/script";
+
+type TypewriterProps = {
+  steps: ReadonlyArray<TypewriterStep>;
+  /** Types while true; pausing keeps what has been typed so far. */
+  running: boolean;
+  /** Shows the whole script at once, e.g. when the intro is skipped. */
+  finished?: boolean;
+  showCursor?: boolean;
+  onComplete?: () => void;
+  /** Called as each step is applied, e.g. to click on every keystroke. */
+  onStep?: (step: TypewriterStep) => void;
+  clock?: TypewriterClock;
+  cursorBlinkInterval?: number;
+};
+
+const DEFAULT_CURSOR_BLINK_INTERVAL = 480;
+
+export function Typewriter({
+  steps,
+  running,
+  finished = false,
+  showCursor = true,
+  onComplete,
+  onStep,
+  clock = browserClock,
+  cursorBlinkInterval = DEFAULT_CURSOR_BLINK_INTERVAL,
+}: TypewriterProps) {
+  const [stepCount, setStepCount] = useState(0);
+  const [cursorVisible, setCursorVisible] = useState(true);
+  const completedRef = useRef(false);
+  const onStepRef = useRef(onStep);
+  const isDone = finished || stepCount >= steps.length;
+
+  useEffect(() => {
+    onStepRef.current = onStep;
+  }, [onStep]);
+
+  useEffect(() => {
+    if (!running || finished || stepCount >= steps.length) {
+      return;
+    }
+    const handle = clock.setTimeout(() => {
+      onStepRef.current?.(steps[stepCount]);
+      setStepCount((count) => count + 1);
+    }, steps[stepCount].delay);
+    return () => clock.clearTimeout(handle);
+  }, [clock, running, finished, stepCount, steps]);
+
+  useEffect(() => {
+    if (running && isDone && !completedRef.current) {
+      completedRef.current = true;
+      onComplete?.();
+    }
+  }, [running, isDone, onComplete]);
+
+  useEffect(() => {
+    if (!showCursor) {
+      return;
+    }
+    let handle = 0;
+    const blink = () => {
+      setCursorVisible((visible) => !visible);
+      handle = clock.setTimeout(blink, cursorBlinkInterval);
+    };
+    handle = clock.setTimeout(blink, cursorBlinkInterval);
+    return () => clock.clearTimeout(handle);
+  }, [clock, showCursor, cursorBlinkInterval]);
+
+  const lines = useMemo(
+    () => renderSteps(steps, finished ? steps.length : stepCount),
+    [steps, finished, stepCount]
+  );
+  const fullText = useMemo(
+    () => scriptToPlainText(renderSteps(steps, steps.length)),
+    [steps]
+  );
+
+  return (
+    <div className="typed-text" aria-label={fullText}>
+      {lines.map((spans, index) => (
+        <span className="typed-line" aria-hidden="true" key={`typed-line-${index}`}>
+          {spans.length === 0
+            ? " "
+            : spans.map((span, spanIndex) => {
+                const className = span.style.emphasis ? "typed-em" : undefined;
+                return (
+                  <span
+                    key={spanIndex}
+                    className={className}
+                    style={span.style.color ? { color: span.style.color } : undefined}
+                  >
+                    {span.text}
+                  </span>
+                );
+              })}
+          {showCursor && cursorVisible && index === lines.length - 1 && (
+            <span className="typed-cursor">_</span>
+          )}
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,294 @@
+import { useEffect, useMemo, useState, type ChangeEvent, type FormEvent } from "react";
+import { createBundle, createShareLink, type SharedScene } from "../share/shareLink";
+import { readPhoto, type LocalPhoto } from "./photos";
+
+type Step = "recipient" | "intro" | "photos" | "card" | "share";
+
+const STEPS: ReadonlyArray<Step> = ["recipient", "intro", "photos", "card", "share"];
+
+const STEP_TITLES: Record<Step, string> = {
+  recipient: "who is it for?",
+  intro: "what should the intro say?",
+  photos: "which photos go in the frames?",
+  card: "what does the card say?",
+  share: "share it",
+};
+
+const defaultIntro = (name: string) =>
+  [`> ${name || "you"}`, "...", "> happy birthday!", "...", "> pull up a chair"].join("\n");
+
+const splitLines = (text: string) =>
+  text
+    .split("\n")
+    .map((line) => line.trimEnd())
+    .filter((line) => line.trim().length > 0);
+
+const slugify = (name: string) =>
+  name
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "") || "scene";
+
+type ShareState =
+  | { status: "working" }
+  | { status: "ready"; link: string | null }
+  | { status: "error"; message: string };
+
+/**
+ * Walks through the recipient, intro lines, photos and card message, then
+ * makes a share link (text and photo URLs) and a bundle (everything,
+ * including photos picked from this computer).
+ */
+export function CreatorWizard() {
+  const [step, setStep] = useState<Step>("recipient");
+  const [name, setName] = useState("");
+  const [age, setAge] = useState("");
+  const [intro, setIntro] = useState<string | null>(null);
+  const [photoUrls, setPhotoUrls] = useState("");
+  const [localPhotos, setLocalPhotos] = useState<ReadonlyArray<LocalPhoto>>([]);
+  const [isReadingPhotos, setIsReadingPhotos] = useState(false);
+  const [message, setMessage] = useState("");
+  const [share, setShare] = useState<ShareState>({ status: "working" });
+  const [copied, setCopied] = useState(false);
+
+  const stepIndex = STEPS.indexOf(step);
+  const trimmedName = name.trim();
+  const parsedAge = age.trim() === "" ? undefined : Number(age);
+  const isAgeValid =
+    parsedAge === undefined || (Number.isInteger(parsedAge) && parsedAge >= 0 && parsedAge <= 150);
+
+  // The link carries only what fits in a URL; the bundle carries everything
+  const linkScene = useMemo<SharedScene>(
+    () => ({
+      name: trimmedName,
+      age: parsedAge,
+      lines: splitLines(intro ?? defaultIntro(trimmedName)),
+      photos: splitLines(photoUrls).map((url) => url.trim()),
+      message: message.trim() || undefined,
+    }),
+    [trimmedName, parsedAge, intro, photoUrls, message]
+  );
+
+  useEffect(() => {
+    if (step !== "share") {
+      return;
+    }
+    let cancelled = false;
+    setShare({ status: "working" });
+    setCopied(false);
+    createShareLink(linkScene, window.location.href)
+      .then((link) => {
+        if (!cancelled) {
+          setShare({ status: "ready", link });
+        }
+      })
+      .catch((error: unknown) => {
+        if (!cancelled) {
+          setShare({ status: "error", message: String(error) });
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [step, linkScene]);
+
+  const goTo = (offset: number) => setStep(STEPS[stepIndex + offset]);
+
+  const handleNext = (event: FormEvent) => {
+    event.preventDefault();
+    goTo(1);
+  };
+
+  const handlePhotoFiles = (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    if (files.length === 0) {
+      return;
+    }
+    setIsReadingPhotos(true);
+    Promise.allSettled(files.map(readPhoto))
+      .then((results) => {
+        const read = results.flatMap((result) =>
+          result.status === "fulfilled" ? [result.value] : []
+        );
+        if (read.length < files.length) {
+          console.warn(`${files.length - read.length} photo(s) could not be read`);
+        }
+        setLocalPhotos((current) => [...current, ...read]);
+      })
+      .finally(() => setIsReadingPhotos(false));
+  };
+
+  const handleCopy = (link: string) => {
+    void navigator.clipboard
+      ?.writeText(link)
+      .then(() => setCopied(true))
+      .catch(() => {
+        // Clipboard may be unavailable (e.g. http); the link can be selected
+      });
+  };
+
+  const handleDownloadBundle = () => {
+    const bundle = createBundle({
+      ...linkScene,
+      photos: [...linkScene.photos, ...localPhotos.map((photo) => photo.dataUrl)],
+    });
+    const url = URL.createObjectURL(new Blob([bundle], { type: "application/json" }));
+    const anchor = document.createElement("a");
+    anchor.href = url;
+    anchor.download = `${slugify(trimmedName)}.json`;
+    anchor.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const canContinue =
+    (step !== "recipient" || (trimmedName.length > 0 && isAgeValid)) && !isReadingPhotos;
+
+  return (
+    <div className="creator">
+      <form className="creator__card" onSubmit={handleNext}>
+        <p className="creator__progress">
+          &gt; step {stepIndex + 1}/{STEPS.length} · {STEP_TITLES[step]}
+        </p>
+
+        {step === "recipient" && (
+          <>
+            <label>
+              name
+              <input
+                autoFocus
+                value={name}
+                onChange={(event) => setName(event.target.value)}
+                placeholder="alice"
+              />
+            </label>
+            <label>
+              age (optional)
+              <input
+                inputMode="numeric"
+                value={age}
+                onChange={(event) => setAge(event.target.value)}
+                placeholder="30"
+              />
+            </label>
+            {!isAgeValid && <p className="creator__error">&gt; age should be a whole number</p>}
+          </>
+        )}
+
+        {step === "intro" && (
+          <label>
+            one line per row; {"{em}"}words{"{/em}"} for italics, {"{pause:500}"} to wait
+            <textarea
+              rows={8}
+              value={intro ?? defaultIntro(trimmedName)}
+              onChange={(event) => setIntro(event.target.value)}
+            />
+          </label>
+        )}
+
+        {step === "photos" && (
+          <>
+            <label>
+              photo links, one per row (these fit in the share link)
+              <textarea
+                rows={4}
+                value={photoUrls}
+                onChange={(event) => setPhotoUrls(event.target.value)}
+                placeholder="https://example.com/us.jpg"
+              />
+            </label>
+            <label>
+              or photos from this computer (these go in the bundle)
+              <input type="file" accept="image/*" multiple onChange={handlePhotoFiles} />
+            </label>
+            {isReadingPhotos && <p>&gt; reading photos...</p>}
+            {localPhotos.length > 0 && (
+              <ul className="creator__photos">
+                {localPhotos.map((photo, index) => (
+                  <li key={`${photo.name}-${index}`}>
+                    <img src={photo.dataUrl} alt={photo.name} />
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setLocalPhotos((current) => current.filter((_, other) => other !== index))
+                      }
+                    >
+                      remove
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+
+        {step === "card" && (
+          <label>
+            written on the back of the card (optional)
+            <textarea
+              rows={6}
+              value={message}
+              onChange={(event) => setMessage(event.target.value)}
+              placeholder={`Dear ${trimmedName || "you"},\n\nHappy birthday!`}
+            />
+          </label>
+        )}
+
+        {step === "share" && (
+          <div className="creator__share">
+            {share.status === "working" && <p>&gt; packing the link...</p>}
+            {share.status === "error" && (
+              <p className="creator__error">&gt; could not make a link: {share.message}</p>
+            )}
+            {share.status === "ready" && share.link && (
+              <>
+                <textarea readOnly rows={4} value={share.link} />
+                <div className="creator__actions">
+                  <button type="button" onClick={() => handleCopy(share.link!)}>
+                    {copied ? "copied" : "copy link"}
+                  </button>
+                  <a href={share.link} target="_blank" rel="noreferrer">
+                    open it
+                  </a>
+                </div>
+              </>
+            )}
+            {share.status === "ready" && !share.link && (
+              <p className="creator__error">
+                &gt; too much for a link; shorten the text or use the bundle
+              </p>
+            )}
+            {localPhotos.length > 0 && (
+              <p>
+                &gt; the {localPhotos.length} photo(s) from this computer are not in the link.
+              </p>
+            )}
+            <p>
+              &gt; the bundle is a scene file with everything in it. Put it in{" "}
+              <code>public/scenes/</code> and open <code>?scene={slugify(trimmedName)}</code>.
+            </p>
+            <div className="creator__actions">
+              <button type="button" onClick={handleDownloadBundle}>
+                download bundle
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="creator__nav">
+          {stepIndex > 0 && (
+            <button type="button" onClick={() => goTo(-1)}>
+              back
+            </button>
+          )}
+          {step !== "share" && (
+            <button type="submit" disabled={!canContinue}>
+              next
+            </button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,3 @@
+/** The creator wizard is opened with `?create` in the page URL. */
+export const isCreatorRequested = () =>
+  new URLSearchParams(window.location.search).has("create");
@@ -0,0 +1,28 @@
+// Photos from the creator's computer are shrunk to this many pixels on the
+// long side, which keeps a bundle with a handful of them to a few MB
+const MAX_PHOTO_SIZE = 1600;
+const JPEG_QUALITY = 0.85;
+
+export type LocalPhoto = {
+  name: string;
+  dataUrl: string;
+};
+
+/** Reads an image file as a downscaled JPEG data URL. */
+export async function readPhoto(file: File): Promise<LocalPhoto> {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const scale = Math.min(1, MAX_PHOTO_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    const context = canvas.getContext("2d");
+    if (!context) {
+      throw new Error("Canvas 2D is not available");
+    }
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    return { name: file.name, dataUrl: canvas.toDataURL("image/jpeg", JPEG_QUALITY) };
+  } finally {
+    bitmap.close();
+  }
+}
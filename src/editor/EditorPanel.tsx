@@ -0,0 +1,89 @@
+import { useState, type MouseEvent } from "react";
+import type {
+  BirthdayCardConfig,
+  PictureFrameConfig,
+  SceneManifest,
+} from "../scene/manifest";
+import { exportLayout, type LayoutExportFormat } from "./exportLayout";
+
+type EditorPanelProps = {
+  manifest: SceneManifest;
+  cards: ReadonlyArray<BirthdayCardConfig>;
+  frames: ReadonlyArray<PictureFrameConfig>;
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+};
+
+const EXPORT_FORMATS: ReadonlyArray<LayoutExportFormat> = [
+  "cards",
+  "frames",
+  "manifest",
+];
+
+const stopPropagation = (event: MouseEvent) => {
+  // Keep editor clicks from reaching the App's tap-to-start/blow handler
+  event.stopPropagation();
+};
+
+export function EditorPanel({
+  manifest,
+  cards,
+  frames,
+  selectedId,
+  onSelect,
+}: EditorPanelProps) {
+  const [output, setOutput] = useState("");
+  const [copied, setCopied] = useState(false);
+
+  const handleExport = (format: LayoutExportFormat) => {
+    const text = exportLayout(format, manifest, cards, frames);
+    setOutput(text);
+    setCopied(false);
+    void navigator.clipboard
+      ?.writeText(text)
+      .then(() => setCopied(true))
+      .catch(() => {
+        // Clipboard may be unavailable (e.g. http); the textarea still has it
+      });
+  };
+
+  const items = [
+    ...frames.map((frame) => ({ id: frame.id, kind: "frame" })),
+    ...cards.map((card) => ({ id: card.id, kind: "card" })),
+  ];
+
+  return (
+    <div className="editor-panel" onClick={stopPropagation}>
+      <p className="editor-panel__title">&gt; editor</p>
+      <p className="editor-panel__hint">
+        click an item or pick it below · [t] move · [r] rotate
+      </p>
+      <ul className="editor-panel__items">
+        {items.map((item) => (
+          <li key={item.id}>
+            <button
+              type="button"
+              aria-pressed={item.id === selectedId}
+              onClick={() => onSelect(item.id === selectedId ? null : item.id)}
+            >
+              {item.kind} · {item.id}
+            </button>
+          </li>
+        ))}
+      </ul>
+      <div className="editor-panel__actions">
+        {EXPORT_FORMATS.map((format) => (
+          <button type="button" key={format} onClick={() => handleExport(format)}>
+            export {format}
+          </button>
+        ))}
+      </div>
+      {output && (
+        <>
+          <textarea readOnly value={output} rows={10} />
+          {copied && <p className="editor-panel__hint">copied to clipboard</p>}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { TransformControls } from "@react-three/drei";
+import { useEffect, useMemo, useRef, useState, type RefObject } from "react";
+import { Group, Object3D, Raycaster, Vector3 } from "three";
+import type { Vec3 } from "../scene/manifest";
+
+export type EditableItem = {
+  id: string;
+  position: Vec3;
+  rotation: Vec3;
+};
+
+type SceneEditorProps = {
+  items: ReadonlyArray<EditableItem>;
+  selectedId: string | null;
+  /** The object items rest on (the table model), used for surface snapping. */
+  surface: RefObject<Object3D | null>;
+  onChange: (id: string, position: Vec3, rotation: Vec3) => void;
+};
+
+type GizmoMode = "translate" | "rotate";
+
+const RAY_START_HEIGHT = 50;
+const DOWN = new Vector3(0, -1, 0);
+
+/**
+ * Transform gizmo for the selected table item. The gizmo drives an invisible
+ * handle in table space; every change is snapped to the table surface and
+ * written back through `onChange`, so the item itself keeps animating towards
+ * its `tablePosition` / `tableRotation` props as usual.
+ */
+export function SceneEditor({
+  items,
+  selectedId,
+  surface,
+  onChange,
+}: SceneEditorProps) {
+  const [handle, setHandle] = useState<Group | null>(null);
+  const [mode, setMode] = useState<GizmoMode>("translate");
+  // Height of each item above the surface, measured when it is first selected
+  const restOffsetsRef = useRef(new Map<string, number>());
+  const raycaster = useMemo(() => new Raycaster(), []);
+
+  const selected = items.find((item) => item.id === selectedId) ?? null;
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "t") {
+        setMode("translate");
+      } else if (event.key === "r") {
+        setMode("rotate");
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  // Returns the table surface height (in the handle's parent space) under x/z.
+  const sampleSurfaceY = (parent: Object3D, x: number, z: number) => {
+    const table = surface.current;
+    if (!table) {
+      return null;
+    }
+    const origin = parent.localToWorld(new Vector3(x, RAY_START_HEIGHT, z));
+    raycaster.set(origin, DOWN);
+    const [hit] = raycaster.intersectObject(table, true);
+    if (!hit) {
+      return null;
+    }
+    return parent.worldToLocal(hit.point.clone()).y;
+  };
+
+  const handleObjectChange = () => {
+    if (!handle || !selected || !handle.parent) {
+      return;
+    }
+    const { x, z } = handle.position;
+    const offsets = restOffsetsRef.current;
+    if (!offsets.has(selected.id)) {
+      const [startX, startY, startZ] = selected.position;
+      const startSurface = sampleSurfaceY(handle.parent, startX, startZ);
+      offsets.set(selected.id, startSurface === null ? 0 : startY - startSurface);
+    }
+    const surfaceY = sampleSurfaceY(handle.parent, x, z);
+    if (surfaceY !== null) {
+      handle.position.y = surfaceY + (offsets.get(selected.id) ?? 0);
+    }
+    const { rotation } = handle;
+    onChange(
+      selected.id,
+      [x, handle.position.y, z],
+      [rotation.x, rotation.y, rotation.z]
+    );
+  };
+
+  return (
+    <>
+      {selected && (
+        <group
+          key={selected.id}
+          ref={setHandle}
+          position={selected.position}
+          rotation={selected.rotation}
+        />
+      )}
+      {selected && handle && (
+        <TransformControls
+          object={handle}
+          mode={mode}
+          space="world"
+          size={0.6}
+          showX={mode === "translate"}
+          showY={mode === "rotate"}
+          showZ={mode === "translate"}
+          rotationSnap={Math.PI / 36}
+          onObjectChange={handleObjectChange}
+        />
+      )}
+    </>
+  );
+}
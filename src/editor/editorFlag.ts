@@ -0,0 +1,3 @@
+/** The placement editor is switched on with `?edit` in the page URL. */
+export const isEditorRequested = () =>
+  new URLSearchParams(window.location.search).has("edit");
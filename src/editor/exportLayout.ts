@@ -0,0 +1,47 @@
+import type {
+  BirthdayCardConfig,
+  PictureFrameConfig,
+  SceneManifest,
+  Vec3,
+} from "../scene/manifest";
+
+export type LayoutExportFormat = "cards" | "frames" | "manifest";
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+const roundVec3 = ([x, y, z]: Vec3): Vec3 => [round(x), round(y), round(z)];
+
+const roundTransforms = <T extends { position: Vec3; rotation: Vec3 }>(
+  items: ReadonlyArray<T>
+) =>
+  items.map((item) => ({
+    ...item,
+    position: roundVec3(item.position),
+    rotation: roundVec3(item.rotation),
+  }));
+
+/**
+ * Serialises the edited layout either as the bare `cards` / `frames` arrays
+ * (ready to paste into a manifest or the default scene) or as a full manifest.
+ */
+export function exportLayout(
+  format: LayoutExportFormat,
+  manifest: SceneManifest,
+  cards: ReadonlyArray<BirthdayCardConfig>,
+  frames: ReadonlyArray<PictureFrameConfig>
+) {
+  const roundedCards = roundTransforms(cards);
+  const roundedFrames = roundTransforms(frames);
+  switch (format) {
+    case "cards":
+      return JSON.stringify(roundedCards, null, 2);
+    case "frames":
+      return JSON.stringify(roundedFrames, null, 2);
+    case "manifest":
+      return JSON.stringify(
+        { ...manifest, cards: roundedCards, frames: roundedFrames },
+        null,
+        2
+      );
+  }
+}
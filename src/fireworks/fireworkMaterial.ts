@@ -0,0 +1,154 @@
+import {
+  AdditiveBlending,
+  BufferAttribute,
+  BufferGeometry,
+  ShaderMaterial,
+  type IUniform,
+} from "three";
+import type { CompiledShow } from "./simulation";
+
+/**
+ * Draws a compiled show (simulation.ts). The vertex shader is the one place
+ * a particle's flight and brightness are worked out: the closed-form
+ * drag/gravity motion from its launch parameters and the show time, so
+ * nothing is uploaded per frame.
+ */
+
+export type FireworkUniforms = {
+  uTime: IUniform<number>;
+  uDuration: IUniform<number>;
+  uLoop: IUniform<number>;
+  uOpacity: IUniform<number>;
+  /** Converts a particle's size to pixels at unit distance. */
+  uSizeScale: IUniform<number>;
+};
+
+export function createFireworkUniforms(): FireworkUniforms {
+  return {
+    uTime: { value: 0 },
+    uDuration: { value: 0 },
+    uLoop: { value: 1 },
+    uOpacity: { value: 0 },
+    uSizeScale: { value: 1 },
+  };
+}
+
+const vertexShader = /* glsl */ `
+  uniform float uTime;
+  uniform float uDuration;
+  uniform float uLoop;
+  uniform float uOpacity;
+  uniform float uSizeScale;
+  uniform float uTrailDelay;
+  uniform float uTrailFade;
+
+  attribute float aStart;
+  attribute float aLifetime;
+  attribute vec3 aVelocity;
+  attribute float aDrag;
+  attribute float aGravity;
+  attribute vec3 aColor;
+  attribute float aSize;
+  attribute float aTwinkle;
+
+  varying vec3 vColor;
+  varying float vAlpha;
+
+  float integrate(float p0, float v0, float k, float g, float t) {
+    if (k <= 0.0) {
+      return p0 + v0 * t + 0.5 * g * t * t;
+    }
+    float f = (1.0 - exp(-k * t)) / k;
+    return p0 + v0 * f + (g / k) * (t - f);
+  }
+
+  void main() {
+    float time = uTime - uTrailDelay;
+    float age = time - aStart;
+    if (uLoop > 0.5 && uDuration > 0.0) {
+      age = mod(time, uDuration) - aStart;
+      if (age < 0.0 && time >= uDuration) {
+        age += uDuration;
+      }
+    }
+    if (time < 0.0 || age < 0.0 || age > aLifetime) {
+      // Park dead particles outside the clip volume
+      gl_Position = vec4(2.0, 2.0, 2.0, 1.0);
+      gl_PointSize = 0.0;
+      vAlpha = 0.0;
+      return;
+    }
+
+    vec3 current = vec3(
+      integrate(position.x, aVelocity.x, aDrag, 0.0, age),
+      integrate(position.y, aVelocity.y, aDrag, aGravity, age),
+      integrate(position.z, aVelocity.z, aDrag, 0.0, age)
+    );
+
+    float progress = age / aLifetime;
+    float fade = max(0.0, 1.0 - progress * progress);
+    float noise = fract(sin(float(gl_VertexID) * 12.9898 + floor(age * 24.0) * 78.233) * 43758.5453);
+    fade *= 1.0 - aTwinkle * noise;
+
+    vColor = aColor;
+    vAlpha = fade * uOpacity * uTrailFade;
+
+    vec4 viewPosition = modelViewMatrix * vec4(current, 1.0);
+    gl_PointSize = aSize * (0.5 + 0.5 * uTrailFade) * uSizeScale / -viewPosition.z;
+    gl_Position = projectionMatrix * viewPosition;
+  }
+`;
+
+// A soft round sprite with a hot centre instead of square points
+const fragmentShader = /* glsl */ `
+  varying vec3 vColor;
+  varying float vAlpha;
+
+  void main() {
+    float distance = length(gl_PointCoord - 0.5) * 2.0;
+    if (distance > 1.0 || vAlpha <= 0.0) {
+      discard;
+    }
+    float glow = pow(1.0 - distance, 2.0);
+    float core = smoothstep(0.35, 0.0, distance);
+    gl_FragColor = vec4(mix(vColor, vec3(1.0), core * 0.6), glow * vAlpha);
+  }
+`;
+
+/**
+ * One material per pass. Trail passes draw the same particles a little in
+ * the past, dimmer and smaller; they share the show uniforms with the head.
+ */
+export function createFireworkMaterial(
+  uniforms: FireworkUniforms,
+  trailDelay = 0,
+  trailFade = 1
+) {
+  return new ShaderMaterial({
+    uniforms: {
+      ...uniforms,
+      uTrailDelay: { value: trailDelay },
+      uTrailFade: { value: trailFade },
+    },
+    vertexShader,
+    fragmentShader,
+    transparent: true,
+    depthWrite: false,
+    blending: AdditiveBlending,
+  });
+}
+
+/** Static attributes straight from the compiled show's arrays. */
+export function createFireworkGeometry(show: CompiledShow) {
+  const geometry = new BufferGeometry();
+  geometry.setAttribute("position", new BufferAttribute(show.origin, 3));
+  geometry.setAttribute("aStart", new BufferAttribute(show.start, 1));
+  geometry.setAttribute("aLifetime", new BufferAttribute(show.lifetime, 1));
+  geometry.setAttribute("aVelocity", new BufferAttribute(show.velocity, 3));
+  geometry.setAttribute("aDrag", new BufferAttribute(show.drag, 1));
+  geometry.setAttribute("aGravity", new BufferAttribute(show.gravity, 1));
+  geometry.setAttribute("aColor", new BufferAttribute(show.color, 3));
+  geometry.setAttribute("aSize", new BufferAttribute(show.size, 1));
+  geometry.setAttribute("aTwinkle", new BufferAttribute(show.twinkle, 1));
+  return geometry;
+}
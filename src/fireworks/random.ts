@@ -0,0 +1,23 @@
+/** Small seeded PRNG (mulberry32) so a show plays out the same every time. */
+export type Random = {
+  /** Uniform in [0, 1). */
+  next: () => number;
+  range: (min: number, max: number) => number;
+  pick: <T>(items: ReadonlyArray<T>) => T;
+};
+
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    range: (min, max) => min + (max - min) * next(),
+    pick: (items) => items[Math.floor(next() * items.length)],
+  };
+}
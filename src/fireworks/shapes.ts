@@ -0,0 +1,135 @@
+import type { Random } from "./random";
+
+/**
+ * Burst shapes as unit-scale launch directions. Flat shapes (heart, text)
+ * are returned as 2D points in a plane facing the viewer; the simulation
+ * orients that plane.
+ */
+
+export type Vec2 = [number, number];
+export type Vec3 = [number, number, number];
+
+/** Evenly spread directions on a sphere (Fibonacci lattice), lightly jittered. */
+export function sphereDirections(count: number, random: Random): Vec3[] {
+  const directions: Vec3[] = [];
+  const golden = Math.PI * (3 - Math.sqrt(5));
+  for (let i = 0; i < count; i += 1) {
+    const y = 1 - ((i + 0.5) / count) * 2;
+    const radius = Math.sqrt(1 - y * y);
+    const theta = i * golden + random.range(-0.05, 0.05);
+    directions.push([Math.cos(theta) * radius, y, Math.sin(theta) * radius]);
+  }
+  return directions;
+}
+
+/** A circle of directions in a randomly tilted plane. */
+export function ringDirections(count: number, random: Random): Vec3[] {
+  const tilt = random.range(0.3, 1.2);
+  const spin = random.range(0, Math.PI * 2);
+  const directions: Vec3[] = [];
+  for (let i = 0; i < count; i += 1) {
+    const angle = (i / count) * Math.PI * 2;
+    const x = Math.cos(angle);
+    const z = Math.sin(angle);
+    // Tilt around X, then spin around Y
+    const y = z * Math.sin(tilt);
+    const tiltedZ = z * Math.cos(tilt);
+    directions.push([
+      x * Math.cos(spin) - tiltedZ * Math.sin(spin),
+      y,
+      x * Math.sin(spin) + tiltedZ * Math.cos(spin),
+    ]);
+  }
+  return directions;
+}
+
+/** The classic parametric heart, scaled to fit a unit circle. */
+export function heartPoints(count: number): Vec2[] {
+  const points: Vec2[] = [];
+  for (let i = 0; i < count; i += 1) {
+    const t = (i / count) * Math.PI * 2;
+    const x = 16 * Math.sin(t) ** 3;
+    const y =
+      13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t);
+    points.push([x / 17, (y + 3) / 17]);
+  }
+  return points;
+}
+
+// 3 × 5 bitmap glyphs, rows from the top
+const GLYPHS: Record<string, string> = {
+  "0": "111101101101111",
+  "1": "010110010010111",
+  "2": "111001111100111",
+  "3": "111001111001111",
+  "4": "101101111001001",
+  "5": "111100111001111",
+  "6": "111100111101111",
+  "7": "111001010010010",
+  "8": "111101111101111",
+  "9": "111101111001111",
+  A: "010101111101101",
+  B: "110101110101110",
+  C: "011100100100011",
+  D: "110101101101110",
+  E: "111100110100111",
+  F: "111100110100100",
+  G: "011100101101011",
+  H: "101101111101101",
+  I: "111010010010111",
+  J: "001001001101010",
+  K: "101101110101101",
+  L: "100100100100111",
+  M: "101111111101101",
+  N: "110101101101101",
+  O: "010101101101010",
+  P: "110101110100100",
+  Q: "010101101110011",
+  R: "110101110101101",
+  S: "011100010001110",
+  T: "111010010010010",
+  U: "101101101101111",
+  V: "101101101101010",
+  W: "101101111111101",
+  X: "101101010101101",
+  Y: "101101010010010",
+  Z: "111001010100111",
+  "!": "010010010000010",
+  "?": "111001010000010",
+  "+": "000010111010000",
+  "-": "000000111000000",
+  "<": "001010100010001",
+  ">": "100010001010100",
+  " ": "000000000000000",
+};
+
+/** Characters the text burst can draw. Others are drawn as blanks. */
+export const TEXT_BURST_CHARACTERS = Object.keys(GLYPHS).join("");
+
+/**
+ * Dot positions spelling `text`, centred and scaled so the wider side spans
+ * -1..1. Each lit cell gets `perCell` dots, scattered slightly within it.
+ */
+export function textPoints(text: string, perCell: number, random: Random): Vec2[] {
+  const characters = [...text.toUpperCase()];
+  const columns = characters.length * 4 - 1;
+  const scale = 2 / Math.max(columns, 5);
+  const points: Vec2[] = [];
+  characters.forEach((character, index) => {
+    const glyph = GLYPHS[character] ?? GLYPHS[" "];
+    for (let cell = 0; cell < 15; cell += 1) {
+      if (glyph[cell] !== "1") {
+        continue;
+      }
+      const column = index * 4 + (cell % 3);
+      const row = Math.floor(cell / 3);
+      for (let n = 0; n < perCell; n += 1) {
+        points.push([
+          (column + 0.5 - columns / 2 + random.range(-0.25, 0.25)) * scale,
+          (2.5 - row + random.range(-0.25, 0.25)) * scale,
+        ]);
+      }
+    }
+  });
+  return points;
+}
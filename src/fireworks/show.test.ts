@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { parseHexColor, shellTime, timeUntilNextBeat } from "./show";
+
+describe("shellTime", () => {
+  it("turns beats into seconds at the show's tempo", () => {
+    expect(shellTime({ beat: 4, shape: "peony" }, { bpm: 120, shells: [] })).toBe(2);
+    expect(shellTime({ time: 1.5, shape: "peony" }, { shells: [] })).toBe(1.5);
+  });
+});
+
+describe("timeUntilNextBeat", () => {
+  it("waits for the next beat of the music", () => {
+    expect(timeUntilNextBeat(0.2, 120)).toBeCloseTo(0.3);
+    expect(timeUntilNextBeat(1, 120)).toBe(0);
+    expect(timeUntilNextBeat(0.2, 120, 0.1)).toBeCloseTo(0.4);
+  });
+
+  it("skips beats that come too soon", () => {
+    expect(timeUntilNextBeat(0.2, 120, 0, 1.3)).toBeCloseTo(1.3);
+    expect(timeUntilNextBeat(0.2, 120, 0, 1.4)).toBeCloseTo(1.8);
+    expect(timeUntilNextBeat(0.2, 120, 0, 0.3)).toBeCloseTo(0.3);
+  });
+});
+
+describe("parseHexColor", () => {
+  it("reads short and long colours", () => {
+    expect(parseHexColor("#fff")).toEqual([1, 1, 1]);
+    expect(parseHexColor("#ff0000")).toEqual([1, 0, 0]);
+  });
+});
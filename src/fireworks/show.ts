@@ -0,0 +1,118 @@
+/**
+ * A firework show is data: a list of shells, each launched at a time (or on
+ * a beat of the music) and bursting into a shape with a colour palette.
+ * `simulation.ts` turns a show into particles; the Fireworks component only
+ * draws them.
+ */
+
+export type BurstShape = "peony" | "ring" | "willow" | "heart" | "text";
+
+export type PaletteName = "rainbow" | "gold" | "pastel" | "fire" | "ice" | "love";
+
+export type ShellConfig = {
+  /** Launch time in seconds from the start of the show. */
+  time?: number;
+  /** Burst on this beat instead (needs the show's `bpm`); the rocket leaves `rise` earlier. */
+  beat?: number;
+  shape: BurstShape;
+  /** A named palette or a list of "#rrggbb" colours. */
+  palette?: PaletteName | string[];
+  /** Burst point relative to the show origin; random when left out. */
+  at?: [number, number, number];
+  /** Burst radius in scene units. */
+  size?: number;
+  /** For "text": what to write. `{age}` is the recipient's age. */
+  text?: string;
+  /** Seconds the rocket takes to climb to the burst point. */
+  rise?: number;
+};
+
+export type FireworkShow = {
+  shells: ShellConfig[];
+  /** Beats per minute of the music, for shells timed in beats. */
+  bpm?: number;
+  /** Time of the first beat in the music, in seconds. */
+  beatOffset?: number;
+  /** Starts again after `duration` (or after the last burst has faded). */
+  loop?: boolean;
+  duration?: number;
+  /** Changes the random parts of the show (positions, colours, scatter). */
+  seed?: number;
+  /** Multiplies the sparks per burst, e.g. 4 for a dense show. */
+  density?: number;
+};
+
+export const PALETTES: Record<PaletteName, ReadonlyArray<string>> = {
+  rainbow: ["#ff4d6d", "#ffb703", "#fff05a", "#7bf1a8", "#4cc9f0", "#b388ff"],
+  gold: ["#ffd27a", "#ffb347", "#fff1c1"],
+  pastel: ["#ffc8dd", "#bde0fe", "#cdb4db", "#caffbf", "#fdffb6"],
+  fire: ["#ff3c00", "#ff8c00", "#ffd000"],
+  ice: ["#a0e7ff", "#e0fbff", "#6fb7ff"],
+  love: ["#ff5c8a", "#ff9ebb", "#ffffff"],
+};
+
+export const PALETTE_NAMES = Object.keys(PALETTES) as PaletteName[];
+
+export const DEFAULT_SHELL_PALETTE: Record<BurstShape, PaletteName> = {
+  peony: "rainbow",
+  ring: "ice",
+  willow: "gold",
+  heart: "love",
+  text: "pastel",
+};
+
+/** Played when a scene does not describe its own show. */
+export const DEFAULT_SHOW: FireworkShow = {
+  loop: true,
+  shells: [
+    { time: 0, shape: "peony" },
+    { time: 0.8, shape: "peony", palette: "fire" },
+    { time: 1.8, shape: "ring" },
+    { time: 2.6, shape: "willow" },
+    { time: 3.4, shape: "peony", palette: "pastel" },
+    { time: 4.2, shape: "ring", palette: "rainbow" },
+    { time: 5.2, shape: "heart" },
+    { time: 6.4, shape: "willow" },
+    { time: 6.6, shape: "peony" },
+    { time: 7.6, shape: "text", text: "{age}", at: [-260, 150, 0], size: 70 },
+    { time: 8.2, shape: "peony", palette: "gold" },
+    { time: 8.4, shape: "ring", palette: "love" },
+  ],
+};
+
+/** Seconds from a shell's config, resolving beats against the show's tempo. */
+export function shellTime(shell: ShellConfig, show: FireworkShow) {
+  if (shell.beat !== undefined && show.bpm) {
+    return shell.beat * (60 / show.bpm);
+  }
+  return shell.time ?? 0;
+}
+
+/**
+ * How long to wait so the show's beat 0 lands on a beat of the music that
+ * is currently at `musicTime` seconds, at least `minWait` from now.
+ */
+export function timeUntilNextBeat(
+  musicTime: number,
+  bpm: number,
+  beatOffset = 0,
+  minWait = 0
+) {
+  const beatLength = 60 / bpm;
+  const sinceBeat = (((musicTime - beatOffset) % beatLength) + beatLength) % beatLength;
+  const wait = sinceBeat === 0 ? 0 : beatLength - sinceBeat;
+  return wait + Math.max(0, Math.ceil((minWait - wait) / beatLength)) * beatLength;
+}
+
+export function parseHexColor(hex: string): [number, number, number] {
+  const value = hex.replace("#", "");
+  const full =
+    value.length === 3
+      ? value
+          .split("")
+          .map((digit) => digit + digit)
+          .join("")
+      : value;
+  const number = Number.parseInt(full.slice(0, 6), 16);
+  return [((number >> 16) & 255) / 255, ((number >> 8) & 255) / 255, (number & 255) / 255];
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import type { FireworkShow } from "./show";
+import { burstsBetween, compileShow } from "./simulation";
+
+const ORIGIN: [number, number, number] = [0, 10, 0];
+
+const BEAT_SHOW: FireworkShow = {
+  bpm: 120,
+  loop: false,
+  shells: [
+    { beat: 0, shape: "peony" },
+    { beat: 4, shape: "ring", rise: 0.8 },
+  ],
+};
+
+const TIMED_SHOW: FireworkShow = {
+  loop: true,
+  duration: 5,
+  shells: [
+    { time: 0, shape: "peony" },
+    { time: 2, shape: "willow", rise: 1 },
+  ],
+};
+
+describe("compileShow", () => {
+  it("gives the same particles for the same seed", () => {
+    const first = compileShow(TIMED_SHOW, { origin: ORIGIN, seed: 42 });
+    const second = compileShow(TIMED_SHOW, { origin: ORIGIN, seed: 42 });
+
+    expect(second.count).toBe(first.count);
+    expect(second.start).toEqual(first.start);
+    expect(second.velocity).toEqual(first.velocity);
+    expect(second.color).toEqual(first.color);
+    expect(second.bursts).toEqual(first.bursts);
+  });
+
+  it("varies the random parts with the seed", () => {
+    const first = compileShow(TIMED_SHOW, { origin: ORIGIN, seed: 1 });
+    const second = compileShow(TIMED_SHOW, { origin: ORIGIN, seed: 2 });
+
+    expect(second.velocity).not.toEqual(first.velocity);
+  });
+
+  it("bursts timed shells after their rockets' climb", () => {
+    const show = compileShow(TIMED_SHOW, { origin: ORIGIN, seed: 3 });
+
+    expect(show.leadIn).toBe(0);
+    expect(show.bursts.map((burst) => burst.time)).toEqual([1.3, 3]);
+    expect(show.duration).toBe(5);
+  });
+
+  it("lands beat-timed bursts on their beats", () => {
+    const show = compileShow(BEAT_SHOW, { origin: ORIGIN, seed: 3 });
+    const [first, second] = show.bursts;
+
+    // The first rocket needs 1.3 s before beat 0
+    expect(show.leadIn).toBeCloseTo(1.3);
+    expect(first.time).toBeCloseTo(show.leadIn);
+    // Beat 4 at 120 bpm is 2 s after beat 0
+    expect(second.time - first.time).toBeCloseTo(2);
+    expect(Math.min(...show.start)).toBeGreaterThanOrEqual(0);
+  });
+
+  it("flies each rocket to its burst point by the burst time", () => {
+    const show = compileShow(BEAT_SHOW, { origin: ORIGIN, seed: 5 });
+    // The first particle is the first shell's rocket
+    const rise = show.lifetime[0];
+    const position = [0, 1, 2].map(
+      (axis) =>
+        show.origin[axis] +
+        show.velocity[axis] * rise +
+        (axis === 1 ? 0.5 * show.gravity[0] * rise * rise : 0)
+    );
+
+    expect(show.start[0] + rise).toBeCloseTo(show.bursts[0].time, 5);
+    position.forEach((value, axis) => {
+      expect(value).toBeCloseTo(show.bursts[0].position[axis], 3);
+    });
+  });
+
+  it("writes the age into text shells, or draws a heart without one", () => {
+    const show: FireworkShow = { shells: [{ time: 0, shape: "text" }] };
+
+    expect(compileShow(show, { origin: ORIGIN, age: 30 }).bursts[0].shape).toBe("text");
+    expect(compileShow(show, { origin: ORIGIN }).bursts[0].shape).toBe("heart");
+  });
+});
+
+describe("burstsBetween", () => {
+  const show = compileShow(TIMED_SHOW, { origin: ORIGIN, seed: 9 });
+  const times = (from: number, to: number) =>
+    burstsBetween(show, from, to).map((burst) => burst.time);
+
+  it("finds the bursts after `from` and up to `to`", () => {
+    expect(times(0, 1.3)).toEqual([1.3]);
+    expect(times(1.3, 2.9)).toEqual([]);
+    expect(times(1.3, 3)).toEqual([3]);
+  });
+
+  it("repeats them on every pass of a looping show", () => {
+    expect(times(2, 9)).toEqual([3, 1.3, 3]);
+  });
+
+  it("finds nothing in an empty or backwards window", () => {
+    expect(times(2, 2)).toEqual([]);
+    expect(times(3, 1)).toEqual([]);
+  });
+
+  it("plays a show that doesn't loop only once", () => {
+    const once = compileShow({ ...TIMED_SHOW, loop: false }, { origin: ORIGIN, seed: 9 });
+
+    expect(burstsBetween(once, 0, 20).map((burst) => burst.time)).toEqual([1.3, 3]);
+  });
+});
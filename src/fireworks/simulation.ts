@@ -0,0 +1,322 @@
+import { createRandom, type Random } from "./random";
+import { heartPoints, ringDirections, sphereDirections, textPoints, type Vec3 } from "./shapes";
+import {
+  DEFAULT_SHELL_PALETTE,
+  PALETTES,
+  parseHexColor,
+  shellTime,
+  type BurstShape,
+  type FireworkShow,
+  type ShellConfig,
+} from "./show";
+
+/**
+ * Turns a show into a fixed set of particles with launch parameters. Every
+ * particle moves analytically (drag and gravity have a closed form), so its
+ * state at any time is a pure function of those parameters and its age,
+ * worked out by the shader in fireworkMaterial.ts: nothing accumulates frame
+ * to frame, and the same seed always gives the same show.
+ */
+
+export type CompiledShow = {
+  count: number;
+  /** Seconds until the show repeats (or ends, when not looping). */
+  duration: number;
+  /**
+   * Show time of beat 0. Rockets for shells on early beats take off before
+   * it, so their bursts land on the beat; 0 when nothing needs the head start.
+   */
+  leadIn: number;
+  loop: boolean;
+  start: Float32Array;
+  lifetime: Float32Array;
+  /** xyz per particle. */
+  origin: Float32Array;
+  velocity: Float32Array;
+  /** Linear drag coefficient (1/s). */
+  drag: Float32Array;
+  /** Vertical acceleration (units/s²). */
+  gravity: Float32Array;
+  /** rgb per particle. */
+  color: Float32Array;
+  size: Float32Array;
+  /** 0 for a steady spark, up to 1 for a strong flicker. */
+  twinkle: Float32Array;
+  bursts: ReadonlyArray<CompiledBurst>;
+};
+
+export type CompiledBurst = { time: number; position: Vec3; shape: BurstShape };
+
+export type CompileShowOptions = {
+  origin: Vec3;
+  seed?: number;
+  /** Fills `{age}` in text shells. */
+  age?: number;
+};
+
+type Particle = {
+  start: number;
+  lifetime: number;
+  origin: Vec3;
+  velocity: Vec3;
+  drag: number;
+  gravity: number;
+  color: Vec3;
+  size: number;
+  twinkle: number;
+};
+
+type BurstStyle = {
+  radius: number;
+  drag: number;
+  gravity: number;
+  lifetime: [number, number];
+  speedJitter: number;
+  twinkle: number;
+  size: number;
+};
+
+const BURST_STYLES: Record<BurstShape, BurstStyle> = {
+  peony: { radius: 55, drag: 1.6, gravity: -10, lifetime: [1.8, 2.6], speedJitter: 0.08, twinkle: 0.2, size: 3 },
+  ring: { radius: 50, drag: 1.6, gravity: -8, lifetime: [1.8, 2.2], speedJitter: 0.03, twinkle: 0.1, size: 3 },
+  willow: { radius: 48, drag: 2.6, gravity: -14, lifetime: [3.2, 4.2], speedJitter: 0.12, twinkle: 0.6, size: 2.6 },
+  heart: { radius: 55, drag: 2.2, gravity: -4, lifetime: [2.2, 2.6], speedJitter: 0.02, twinkle: 0.1, size: 3 },
+  text: { radius: 70, drag: 2.4, gravity: -3, lifetime: [2.6, 3], speedJitter: 0.02, twinkle: 0.15, size: 2.6 },
+};
+
+const BURST_COUNTS: Record<Exclude<BurstShape, "text">, number> = {
+  peony: 140,
+  ring: 90,
+  willow: 110,
+  heart: 120,
+};
+
+const DEFAULT_RISE = 1.3;
+const ROCKET_GRAVITY = -9;
+const ROCKET_COLOR: Vec3 = [1, 0.85, 0.6];
+const TRAIL_PARTICLES = 18;
+const TRAIL_COLOR: Vec3 = [0.9, 0.5, 0.2];
+const TEXT_DOTS_PER_CELL = 3;
+const LOOP_GAP = 1;
+
+/** Position after `age` seconds with linear drag `k` and vertical gravity `g`. */
+function integrate(p0: number, v0: number, k: number, g: number, age: number) {
+  if (k <= 0) {
+    return p0 + v0 * age + 0.5 * g * age * age;
+  }
+  const f = (1 - Math.exp(-k * age)) / k;
+  return p0 + v0 * f + (g / k) * (age - f);
+}
+
+const resolveText = (text: string | undefined, age: number | undefined) =>
+  (text ?? "{age}").replace(/\{age\}/g, age === undefined ? "" : String(age)).trim();
+
+const paletteColors = (shell: ShellConfig) => {
+  const palette = shell.palette ?? DEFAULT_SHELL_PALETTE[shell.shape];
+  const colors = typeof palette === "string" ? PALETTES[palette] : palette;
+  return colors.map(parseHexColor);
+};
+
+/** A random burst point around the viewer, or the shell's own `at`. */
+function burstPoint(shell: ShellConfig, origin: Vec3, random: Random): Vec3 {
+  if (shell.at) {
+    return [origin[0] + shell.at[0], origin[1] + shell.at[1], origin[2] + shell.at[2]];
+  }
+  const azimuth = random.range(0, Math.PI * 2);
+  const distance = random.range(220, 420);
+  return [
+    origin[0] + Math.cos(azimuth) * distance,
+    origin[1] + random.range(110, 190),
+    origin[2] + Math.sin(azimuth) * distance,
+  ];
+}
+
+/**
+ * Unit-scale launch directions for a shell. Flat shapes are laid out in a
+ * vertical plane that faces the show's centre, where the viewer is.
+ */
+function burstDirections(
+  shape: BurstShape,
+  text: string,
+  center: Vec3,
+  origin: Vec3,
+  density: number,
+  random: Random
+): Vec3[] {
+  const count = (base: number) => Math.max(1, Math.round(base * density));
+  if (shape === "peony" || shape === "willow") {
+    return sphereDirections(count(BURST_COUNTS[shape]), random);
+  }
+  if (shape === "ring") {
+    return ringDirections(count(BURST_COUNTS.ring), random);
+  }
+  const points =
+    shape === "text" && text
+      ? textPoints(text, count(TEXT_DOTS_PER_CELL), random)
+      : heartPoints(count(BURST_COUNTS.heart));
+  const outX = center[0] - origin[0];
+  const outZ = center[2] - origin[2];
+  const length = Math.hypot(outX, outZ) || 1;
+  // Viewer's right when looking out towards the burst: forward × up
+  const right: Vec3 = [-outZ / length, 0, outX / length];
+  return points.map(([x, y]) => [right[0] * x, y, right[2] * x]);
+}
+
+function compileShell(
+  shell: ShellConfig,
+  show: FireworkShow,
+  options: CompileShowOptions,
+  random: Random,
+  particles: Particle[]
+) {
+  const rise = shell.rise ?? DEFAULT_RISE;
+  // A shell on a beat bursts on it, so its rocket leaves `rise` earlier
+  const isOnBeat = shell.beat !== undefined && !!show.bpm;
+  const launch = shellTime(shell, show) - (isOnBeat ? rise : 0);
+  const center = burstPoint(shell, options.origin, random);
+  const ground: Vec3 = [
+    center[0] + random.range(-10, 10),
+    options.origin[1],
+    center[2] + random.range(-10, 10),
+  ];
+
+  // Rocket: reaches the burst point exactly `rise` seconds after launch
+  const rocketVelocity: Vec3 = [
+    (center[0] - ground[0]) / rise,
+    (center[1] - ground[1]) / rise - 0.5 * ROCKET_GRAVITY * rise,
+    (center[2] - ground[2]) / rise,
+  ];
+  particles.push({
+    start: launch,
+    lifetime: rise,
+    origin: ground,
+    velocity: rocketVelocity,
+    drag: 0,
+    gravity: ROCKET_GRAVITY,
+    color: ROCKET_COLOR,
+    size: 2.4,
+    twinkle: 0,
+  });
+  for (let i = 0; i < TRAIL_PARTICLES; i += 1) {
+    const t = (rise * i) / TRAIL_PARTICLES;
+    particles.push({
+      start: launch + t,
+      lifetime: random.range(0.4, 0.8),
+      origin: [
+        integrate(ground[0], rocketVelocity[0], 0, 0, t),
+        integrate(ground[1], rocketVelocity[1], 0, ROCKET_GRAVITY, t),
+        integrate(ground[2], rocketVelocity[2], 0, 0, t),
+      ],
+      velocity: [random.range(-3, 3), random.range(-4, 0), random.range(-3, 3)],
+      drag: 1,
+      gravity: -6,
+      color: TRAIL_COLOR,
+      size: 1.6,
+      twinkle: 0.5,
+    });
+  }
+
+  const text = shell.shape === "text" ? resolveText(shell.text, options.age) : "";
+  // A text shell with nothing to write (no age known) becomes a heart
+  const shape: BurstShape = shell.shape === "text" && !text ? "heart" : shell.shape;
+  const style = BURST_STYLES[shape];
+  const radius = shell.size ?? style.radius;
+  const colors = paletteColors(shell);
+  const burstTime = launch + rise;
+
+  const directions = burstDirections(
+    shape,
+    text,
+    center,
+    options.origin,
+    show.density ?? 1,
+    random
+  );
+  for (const direction of directions) {
+    const speed = radius * style.drag * (1 + random.range(-1, 1) * style.speedJitter);
+    particles.push({
+      start: burstTime,
+      lifetime: random.range(style.lifetime[0], style.lifetime[1]),
+      origin: center,
+      velocity: [direction[0] * speed, direction[1] * speed, direction[2] * speed],
+      drag: style.drag,
+      gravity: style.gravity,
+      color: random.pick(colors),
+      size: style.size,
+      twinkle: style.twinkle,
+    });
+  }
+  return { time: burstTime, position: center, shape };
+}
+
+export function compileShow(show: FireworkShow, options: CompileShowOptions): CompiledShow {
+  const random = createRandom(options.seed ?? show.seed ?? 1);
+  const particles: Particle[] = [];
+  const bursts = show.shells.map((shell) =>
+    compileShell(shell, show, options, random, particles)
+  );
+
+  // Shift everything so no rocket takes off before show time 0
+  const leadIn = particles.reduce((lead, particle) => Math.max(lead, -particle.start), 0);
+  const count = particles.length;
+  const compiled: CompiledShow = {
+    count,
+    duration: 0,
+    leadIn,
+    loop: show.loop ?? true,
+    start: new Float32Array(count),
+    lifetime: new Float32Array(count),
+    origin: new Float32Array(count * 3),
+    velocity: new Float32Array(count * 3),
+    drag: new Float32Array(count),
+    gravity: new Float32Array(count),
+    color: new Float32Array(count * 3),
+    size: new Float32Array(count),
+    twinkle: new Float32Array(count),
+    bursts: bursts.map((burst) => ({ ...burst, time: burst.time + leadIn })),
+  };
+  let end = 0;
+  particles.forEach((particle, index) => {
+    compiled.start[index] = particle.start + leadIn;
+    compiled.lifetime[index] = particle.lifetime;
+    compiled.origin.set(particle.origin, index * 3);
+    compiled.velocity.set(particle.velocity, index * 3);
+    compiled.drag[index] = particle.drag;
+    compiled.gravity[index] = particle.gravity;
+    compiled.color.set(particle.color, index * 3);
+    compiled.size[index] = particle.size;
+    compiled.twinkle[index] = particle.twinkle;
+    end = Math.max(end, compiled.start[index] + particle.lifetime);
+  });
+  compiled.duration = show.duration ?? end + LOOP_GAP;
+  return compiled;
+}
+
+/**
+ * Bursts that go off after show time `from` and up to `to`, repeating each
+ * pass of a looping show. Used to time sounds to the bursts.
+ */
+export function burstsBetween(
+  show: CompiledShow,
+  from: number,
+  to: number
+): CompiledBurst[] {
+  if (to <= from || to < 0) {
+    return [];
+  }
+  const { duration } = show;
+  if (!show.loop || duration <= 0) {
+    return show.bursts.filter((burst) => burst.time > from && burst.time <= to);
+  }
+  const crossed: CompiledBurst[] = [];
+  const lastPass = Math.floor(to / duration);
+  for (let pass = Math.max(0, Math.floor(from / duration)); pass <= lastPass; pass += 1) {
+    for (const burst of show.bursts) {
+      const time = pass * duration + burst.time;
+      if (time > from && time <= to) {
+        crossed.push(burst);
+      }
+    }
+  }
+  return crossed;
+}
@@ -0,0 +1,127 @@
+import { PlaneGeometry, type Texture } from "three";
+
+/**
+ * How a photo fills the picture area of a frame. Sizes are in the frame's
+ * local units; the picture area is derived from the frame model's bounding
+ * box, so nothing here depends on a particular model.
+ */
+
+export type PhotoFit = "cover" | "contain" | "stretch";
+export type FrameOrientation = "auto" | "landscape" | "portrait";
+/** Point of interest in the photo, from [0, 0] (top left) to [1, 1]. */
+export type FocalPoint = [number, number];
+
+export const DEFAULT_FOCAL_POINT: FocalPoint = [0.5, 0.5];
+
+export type FittedPhoto = {
+  width: number;
+  height: number;
+  /** Texture window shown on the plane, in UV space. */
+  uvOffset: [number, number];
+  uvRepeat: [number, number];
+};
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * `cover` fills the area and crops around the focal point, `contain` shows
+ * the whole photo inside the area, and `stretch` ignores the photo's shape.
+ * Photos whose size is not known yet are stretched.
+ */
+export function fitPhoto(
+  fit: PhotoFit,
+  imageAspect: number | undefined,
+  areaWidth: number,
+  areaHeight: number,
+  [focalX, focalY]: FocalPoint = DEFAULT_FOCAL_POINT
+): FittedPhoto {
+  const stretched: FittedPhoto = {
+    width: areaWidth,
+    height: areaHeight,
+    uvOffset: [0, 0],
+    uvRepeat: [1, 1],
+  };
+  if (fit === "stretch" || !imageAspect || areaWidth <= 0 || areaHeight <= 0) {
+    return stretched;
+  }
+
+  const areaAspect = areaWidth / areaHeight;
+  if (fit === "contain") {
+    return imageAspect > areaAspect
+      ? { ...stretched, height: areaWidth / imageAspect }
+      : { ...stretched, width: areaHeight * imageAspect };
+  }
+
+  // Cover: show a window of the texture and slide it towards the focal point.
+  // UV v runs bottom to top, while the focal point's y runs top to bottom.
+  if (imageAspect > areaAspect) {
+    const repeatU = areaAspect / imageAspect;
+    return {
+      ...stretched,
+      uvOffset: [(1 - repeatU) * clamp01(focalX), 0],
+      uvRepeat: [repeatU, 1],
+    };
+  }
+  const repeatV = imageAspect / areaAspect;
+  return {
+    ...stretched,
+    uvOffset: [0, (1 - repeatV) * (1 - clamp01(focalY))],
+    uvRepeat: [1, repeatV],
+  };
+}
+
+/**
+ * Whether the frame model should be turned a quarter turn so its long side
+ * matches the photo (or the requested orientation).
+ */
+export function shouldTurnFrame(
+  orientation: FrameOrientation,
+  modelAspect: number,
+  imageAspect: number | undefined
+) {
+  const modelIsLandscape = modelAspect >= 1;
+  switch (orientation) {
+    case "landscape":
+      return !modelIsLandscape;
+    case "portrait":
+      return modelIsLandscape;
+    case "auto":
+      return imageAspect !== undefined && imageAspect >= 1 !== modelIsLandscape;
+  }
+}
+
+/** Width over height of whatever a texture holds, once it is known. */
+export function textureAspect(texture: Texture | undefined) {
+  const source = texture?.image as
+    | {
+        videoWidth?: number;
+        videoHeight?: number;
+        naturalWidth?: number;
+        naturalHeight?: number;
+        width?: number;
+        height?: number;
+      }
+    | undefined;
+  if (!source) {
+    return undefined;
+  }
+  const width = source.videoWidth || source.naturalWidth || source.width || 0;
+  const height = source.videoHeight || source.naturalHeight || source.height || 0;
+  // Canvas-backed sources start out as 1×1 placeholders
+  return width > 1 && height > 1 ? width / height : undefined;
+}
+
+/** A plane sized and UV-mapped for a fitted photo. */
+export function createFittedPlane({ width, height, uvOffset, uvRepeat }: FittedPhoto) {
+  const geometry = new PlaneGeometry(width, height);
+  const uv = geometry.getAttribute("uv");
+  for (let i = 0; i < uv.count; i += 1) {
+    uv.setXY(
+      i,
+      uvOffset[0] + uv.getX(i) * uvRepeat[0],
+      uvOffset[1] + uv.getY(i) * uvRepeat[1]
+    );
+  }
+  uv.needsUpdate = true;
+  return geometry;
+}
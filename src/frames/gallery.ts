@@ -0,0 +1,62 @@
+import type { FocalPoint, PhotoFit } from "./fit";
+
+/**
+ * Paging rules for picture frames that hold several photos. The component
+ * owns timing and rendering; these helpers only decide which photo is next.
+ */
+
+export type FramePhoto = {
+  /** A still image, a video clip (mp4/webm) or an animated GIF/APNG. */
+  image: string;
+  caption?: string;
+  /** Overrides the guess made from the file extension. */
+  kind?: "image" | "video" | "animated";
+  /** Overrides the frame's `fit` for this photo. */
+  fit?: PhotoFit;
+  /** Where to keep the crop centred, from [0, 0] (top left) to [1, 1]. */
+  focalPoint?: FocalPoint;
+};
+
+/** Seconds between photos while a frame sits unfocused on the table. */
+export const DEFAULT_SLIDESHOW_INTERVAL = 8;
+/** Fraction of the photo's width on each side that pages when clicked. */
+const EDGE_ZONE = 0.25;
+/** Horizontal pointer travel, in CSS pixels, that counts as a swipe. */
+const SWIPE_THRESHOLD = 40;
+
+/** A frame configured with a single `image` is a gallery of one. */
+export const toFramePhotos = (
+  image: string | undefined,
+  photos: ReadonlyArray<FramePhoto> | undefined
+): ReadonlyArray<FramePhoto> => photos ?? (image ? [{ image }] : []);
+
+/** Moves `step` photos along, wrapping around at either end. */
+export const stepPhoto = (index: number, step: number, count: number) =>
+  count > 0 ? (((index + step) % count) + count) % count : 0;
+
+/** -1 for the left edge zone, 1 for the right one, 0 for the middle. */
+export const edgeZoneAt = (u: number) =>
+  u < EDGE_ZONE ? -1 : u > 1 - EDGE_ZONE ? 1 : 0;
+
+/**
+ * Dragging left shows the next photo and dragging right the previous one,
+ * as on a phone. Returns 0 when the pointer did not travel far enough.
+ */
+export const swipeStep = (deltaX: number, deltaY: number) =>
+  Math.abs(deltaX) >= SWIPE_THRESHOLD && Math.abs(deltaX) > Math.abs(deltaY)
+    ? deltaX < 0
+      ? 1
+      : -1
+    : 0;
+
+/**
+ * Spreads slideshow changes across frames so they do not all switch on the
+ * same tick. Stable per frame id.
+ */
+export function slideshowOffset(id: string, interval: number) {
+  let hash = 0;
+  for (let i = 0; i < id.length; i += 1) {
+    hash = (hash * 31 + id.charCodeAt(i)) | 0;
+  }
+  return ((Math.abs(hash) % 1000) / 1000) * interval;
+}
@@ -0,0 +1,257 @@
+import {
+  CanvasTexture,
+  SRGBColorSpace,
+  VideoTexture,
+  type Texture,
+} from "three";
+import type { FramePhoto } from "./gallery";
+
+/**
+ * Moving pictures for frames: video clips and animated GIF/APNG. Each source
+ * is driven by the frame every render, so the calls below are cheap and safe
+ * to repeat.
+ */
+
+export type FrameMediaKind = NonNullable<FramePhoto["kind"]>;
+
+export type FrameMedia = {
+  readonly texture: Texture;
+  setPlaying: (playing: boolean) => void;
+  setMuted: (muted: boolean) => void;
+  /** Advances frame-by-frame sources; called once per rendered frame. */
+  update: () => void;
+  /** True while sound from this source can be heard. */
+  readonly isAudible: boolean;
+  dispose: () => void;
+};
+
+const VIDEO_EXTENSIONS = ["mp4", "webm", "mov", "m4v", "ogv"];
+const ANIMATED_EXTENSIONS = ["gif", "apng"];
+
+const extensionOf = (url: string) =>
+  url.split(/[?#]/)[0].split(".").pop()?.toLowerCase() ?? "";
+
+/**
+ * Picks how to load a photo from its `kind` or file extension. Animated PNGs
+ * usually end in `.png`, so they need `"kind": "animated"`.
+ */
+export function mediaKindOf(photo: FramePhoto): FrameMediaKind {
+  if (photo.kind) {
+    return photo.kind;
+  }
+  const extension = extensionOf(photo.image);
+  if (VIDEO_EXTENSIONS.includes(extension)) {
+    return "video";
+  }
+  return ANIMATED_EXTENSIONS.includes(extension) ? "animated" : "image";
+}
+
+export function createVideoMedia(url: string): FrameMedia {
+  const video = document.createElement("video");
+  video.crossOrigin = "anonymous";
+  video.loop = true;
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = "auto";
+  video.src = url;
+
+  const texture = new VideoTexture(video);
+  texture.colorSpace = SRGBColorSpace;
+  // Show the first frame even while paused on the table
+  const handleLoadedData = () => {
+    texture.needsUpdate = true;
+  };
+  video.addEventListener("loadeddata", handleLoadedData);
+
+  let wantsPlaying = false;
+
+  return {
+    texture,
+    setPlaying: (playing) => {
+      if (playing === wantsPlaying) {
+        return;
+      }
+      wantsPlaying = playing;
+      if (!playing) {
+        video.pause();
+        return;
+      }
+      video.play().catch(() => {
+        // Playing with sound can be refused; a silent clip beats a still one
+        if (wantsPlaying && !video.muted) {
+          video.muted = true;
+          void video.play().catch(() => undefined);
+        }
+      });
+    },
+    setMuted: (muted) => {
+      video.muted = muted;
+    },
+    update: () => undefined,
+    get isAudible() {
+      return wantsPlaying && !video.paused && !video.muted;
+    },
+    dispose: () => {
+      video.removeEventListener("loadeddata", handleLoadedData);
+      video.pause();
+      video.removeAttribute("src");
+      video.load();
+      texture.dispose();
+    },
+  };
+}
+
+const FALLBACK_FRAME_MS = 1000 / 30;
+
+/**
+ * Animated GIF/APNG drawn onto a canvas. Browsers with WebCodecs decode the
+ * frames themselves (with their own timings); elsewhere the image animates
+ * in a hidden <img> that is copied to the canvas.
+ */
+export function createAnimatedMedia(url: string): FrameMedia {
+  const canvas = document.createElement("canvas");
+  canvas.width = 1;
+  canvas.height = 1;
+  const context = canvas.getContext("2d");
+  const texture = new CanvasTexture(canvas);
+  texture.colorSpace = SRGBColorSpace;
+
+  let playing = false;
+  let disposed = false;
+  let decoder: ImageDecoder | null = null;
+  let fallbackImage: HTMLImageElement | null = null;
+  let frameIndex = 0;
+  let nextFrameAt = 0;
+  let decoding = false;
+
+  const draw = (source: CanvasImageSource, width: number, height: number) => {
+    if (!context || width === 0 || height === 0) {
+      return;
+    }
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+      // The GPU copy was allocated at the old size
+      texture.dispose();
+    }
+    context.clearRect(0, 0, width, height);
+    context.drawImage(source, 0, 0, width, height);
+    texture.needsUpdate = true;
+  };
+
+  const showFrame = async (index: number) => {
+    if (!decoder) {
+      return;
+    }
+    decoding = true;
+    try {
+      const { image } = await decoder.decode({ frameIndex: index });
+      if (!disposed) {
+        draw(image, image.displayWidth, image.displayHeight);
+        // Durations are in microseconds; a missing one means a still image
+        nextFrameAt = performance.now() + (image.duration ?? 1e9) / 1000;
+      }
+      image.close();
+    } finally {
+      decoding = false;
+    }
+  };
+
+  const startFallback = () => {
+    const image = new Image();
+    image.crossOrigin = "anonymous";
+    image.decoding = "async";
+    image.alt = "";
+    image.setAttribute("aria-hidden", "true");
+    // Some browsers only animate images that are in the document
+    Object.assign(image.style, {
+      position: "fixed",
+      left: "0",
+      top: "0",
+      width: "1px",
+      height: "1px",
+      opacity: "0.01",
+      pointerEvents: "none",
+    });
+    image.onload = () => draw(image, image.naturalWidth, image.naturalHeight);
+    image.src = url;
+    document.body.appendChild(image);
+    fallbackImage = image;
+  };
+
+  const start = async () => {
+    if (typeof ImageDecoder === "undefined") {
+      startFallback();
+      return;
+    }
+    const response = await fetch(url);
+    if (!response.ok || !response.body) {
+      throw new Error(`Could not load ${url} (HTTP ${response.status})`);
+    }
+    const type =
+      response.headers.get("content-type")?.split(";")[0] ??
+      (extensionOf(url) === "gif" ? "image/gif" : "image/apng");
+    if (disposed) {
+      return;
+    }
+    if (!(await ImageDecoder.isTypeSupported(type))) {
+      startFallback();
+      return;
+    }
+    decoder = new ImageDecoder({ data: response.body, type });
+    await decoder.tracks.ready;
+    await showFrame(0);
+  };
+
+  start().catch((error: unknown) => {
+    console.warn(`Animated picture ${url} failed to load`, error);
+  });
+
+  return {
+    texture,
+    setPlaying: (next) => {
+      playing = next;
+    },
+    setMuted: () => undefined,
+    update: () => {
+      if (!playing || disposed) {
+        return;
+      }
+      const now = performance.now();
+      if (fallbackImage) {
+        if (now >= nextFrameAt && fallbackImage.complete) {
+          draw(fallbackImage, fallbackImage.naturalWidth, fallbackImage.naturalHeight);
+          nextFrameAt = now + FALLBACK_FRAME_MS;
+        }
+        return;
+      }
+      const frameCount = decoder?.tracks.selectedTrack?.frameCount ?? 0;
+      if (decoding || frameCount < 2 || now < nextFrameAt) {
+        return;
+      }
+      frameIndex = (frameIndex + 1) % frameCount;
+      showFrame(frameIndex).catch(() => {
+        // A frame that fails to decode is skipped on the next tick
+      });
+    },
+    isAudible: false,
+    dispose: () => {
+      disposed = true;
+      decoder?.close();
+      fallbackImage?.remove();
+      texture.dispose();
+    },
+  };
+}
+
+/** Still images are loaded through useTexture; everything else is created here. */
+export function createFrameMedia(photo: FramePhoto): FrameMedia | null {
+  switch (mediaKindOf(photo)) {
+    case "video":
+      return createVideoMedia(photo.image);
+    case "animated":
+      return createAnimatedMedia(photo.image);
+    case "image":
+      return null;
+  }
+}
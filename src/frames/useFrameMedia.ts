@@ -0,0 +1,21 @@
+import { useEffect, useState } from "react";
+import { createFrameMedia, type FrameMedia } from "./media";
+import type { FramePhoto } from "./gallery";
+
+/**
+ * Video and animated sources for a frame's photos, by index (null for still
+ * images). Sources are created on mount and released when the photos change.
+ */
+export function useFrameMedia(photos: ReadonlyArray<FramePhoto>) {
+  const [media, setMedia] = useState<ReadonlyArray<FrameMedia | null>>([]);
+
+  useEffect(() => {
+    const created = photos.map(createFrameMedia);
+    setMedia(created);
+    return () => {
+      created.forEach((source) => source?.dispose());
+    };
+  }, [photos]);
+
+  return media;
+}
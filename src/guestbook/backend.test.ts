@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import {
+  createMemoryGuestbook,
+  MAX_AUTHOR_LENGTH,
+  MAX_MESSAGE_LENGTH,
+  type GuestbookEntry,
+  type GuestbookEvent,
+} from "./backend";
+
+const NOW = Date.UTC(2026, 9, 18, 20);
+
+const fixedClock = () => NOW;
+
+describe("createMemoryGuestbook", () => {
+  it("trims messages and names before storing them", async () => {
+    const guestbook = createMemoryGuestbook({ now: fixedClock });
+    const entry = await guestbook.post("  Sam  ", "  Happy birthday!\n");
+
+    expect(entry).toMatchObject({ author: "Sam", text: "Happy birthday!", at: NOW });
+    expect(await guestbook.entries()).toEqual([entry]);
+  });
+
+  it("cuts long messages and names down to size", async () => {
+    const guestbook = createMemoryGuestbook();
+    const entry = await guestbook.post("n".repeat(100), "x".repeat(1000));
+
+    expect(entry.text).toHaveLength(MAX_MESSAGE_LENGTH);
+    expect(entry.author).toHaveLength(MAX_AUTHOR_LENGTH);
+  });
+
+  it("calls guests with no name 'guest'", async () => {
+    const entry = await createMemoryGuestbook().post("   ", "hi");
+
+    expect(entry.author).toBe("guest");
+  });
+
+  it("refuses empty messages", async () => {
+    const saved: ReadonlyArray<GuestbookEntry>[] = [];
+    const guestbook = createMemoryGuestbook({ onEntriesChange: (entries) => saved.push(entries) });
+
+    await expect(guestbook.post("Sam", "  \n ")).rejects.toThrow("cannot be empty");
+    expect(await guestbook.entries()).toEqual([]);
+    expect(saved).toEqual([]);
+  });
+
+  it("keeps earlier entries, oldest first, and reports every change", async () => {
+    const earlier: GuestbookEntry = { id: "e1", author: "Priya", text: "Hi!", at: NOW - 1000 };
+    const saved: ReadonlyArray<GuestbookEntry>[] = [];
+    const guestbook = createMemoryGuestbook({
+      initialEntries: [earlier],
+      onEntriesChange: (entries) => saved.push(entries),
+      now: fixedClock,
+    });
+    const entry = await guestbook.post("Sam", "Cake!");
+
+    expect(await guestbook.entries()).toEqual([earlier, entry]);
+    expect(saved).toEqual([[earlier, entry]]);
+  });
+
+  it("hands out copies, so callers can't change what is stored", async () => {
+    const guestbook = createMemoryGuestbook();
+    await guestbook.post("Sam", "one");
+    (await guestbook.entries()).length = 0;
+
+    expect(await guestbook.entries()).toHaveLength(1);
+  });
+
+  it("tells listeners about entries and reactions until they unsubscribe", async () => {
+    const guestbook = createMemoryGuestbook({ now: fixedClock });
+    const heard: GuestbookEvent[] = [];
+    const unsubscribe = guestbook.subscribe((event) => heard.push(event));
+
+    const entry = await guestbook.post("Sam", "Hello");
+    const reaction = await guestbook.react(" Priya ", "🎉");
+    unsubscribe();
+    await guestbook.post("Sam", "Anyone there?");
+    await guestbook.react("Sam", "🎂");
+
+    expect(reaction).toMatchObject({ author: "Priya", emoji: "🎉", at: NOW });
+    expect(heard).toEqual([
+      { type: "entry", entry },
+      { type: "reaction", reaction },
+    ]);
+  });
+
+  it("doesn't store reactions", async () => {
+    const guestbook = createMemoryGuestbook();
+    await guestbook.react("Sam", "👏");
+
+    expect(await guestbook.entries()).toEqual([]);
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Where guests' reactions and guestbook messages go. The overlay only talks
+ * to a `GuestbookBackend`, so a shared service can be put behind it; the
+ * ones here keep everything in memory, optionally saved in the browser.
+ */
+
+export type GuestbookEntry = {
+  id: string;
+  author: string;
+  text: string;
+  /** Milliseconds since the epoch. */
+  at: number;
+};
+
+export type Reaction = {
+  id: string;
+  emoji: string;
+  author: string;
+  at: number;
+};
+
+export type GuestbookEvent =
+  | { type: "entry"; entry: GuestbookEntry }
+  | { type: "reaction"; reaction: Reaction };
+
+export type GuestbookBackend = {
+  /** The messages so far, oldest first. */
+  entries: () => Promise<GuestbookEntry[]>;
+  /** Stores a message; listeners hear about it, the poster's included. */
+  post: (author: string, text: string) => Promise<GuestbookEntry>;
+  /** Reactions are fleeting: they are passed on but not stored. */
+  react: (author: string, emoji: string) => Promise<Reaction>;
+  subscribe: (listener: (event: GuestbookEvent) => void) => () => void;
+};
+
+export const DEFAULT_REACTIONS: ReadonlyArray<string> = ["🎉", "🎂", "❤️", "🥳", "👏", "😂"];
+export const MAX_MESSAGE_LENGTH = 280;
+export const MAX_AUTHOR_LENGTH = 24;
+const MAX_STORED_ENTRIES = 200;
+
+const createId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const normalizeAuthor = (author: string) =>
+  author.trim().slice(0, MAX_AUTHOR_LENGTH) || "guest";
+
+type MemoryGuestbookOptions = {
+  initialEntries?: ReadonlyArray<GuestbookEntry>;
+  /** Called with every entry after a post, e.g. to save them. */
+  onEntriesChange?: (entries: ReadonlyArray<GuestbookEntry>) => void;
+  now?: () => number;
+};
+
+/** Keeps messages for as long as the page is open. */
+export function createMemoryGuestbook({
+  initialEntries = [],
+  onEntriesChange,
+  now = Date.now,
+}: MemoryGuestbookOptions = {}): GuestbookBackend {
+  let entries = [...initialEntries];
+  const listeners = new Set<(event: GuestbookEvent) => void>();
+  const emit = (event: GuestbookEvent) => listeners.forEach((listener) => listener(event));
+
+  return {
+    entries: async () => [...entries],
+    post: async (author, text) => {
+      const trimmed = text.trim();
+      if (!trimmed) {
+        throw new Error("A guestbook message cannot be empty");
+      }
+      const entry: GuestbookEntry = {
+        id: createId(),
+        author: normalizeAuthor(author),
+        text: trimmed.slice(0, MAX_MESSAGE_LENGTH),
+        at: now(),
+      };
+      entries = [...entries, entry].slice(-MAX_STORED_ENTRIES);
+      onEntriesChange?.(entries);
+      emit({ type: "entry", entry });
+      return entry;
+    },
+    react: async (author, emoji) => {
+      const reaction: Reaction = {
+        id: createId(),
+        emoji,
+        author: normalizeAuthor(author),
+        at: now(),
+      };
+      emit({ type: "reaction", reaction });
+      return reaction;
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+const storageKey = (recipient: string) => `birthday-cake:guestbook:${recipient}`;
+
+const isEntry = (value: unknown): value is GuestbookEntry => {
+  const entry = value as GuestbookEntry | null;
+  return (
+    typeof entry === "object" &&
+    entry !== null &&
+    typeof entry.id === "string" &&
+    typeof entry.author === "string" &&
+    typeof entry.text === "string" &&
+    typeof entry.at === "number"
+  );
+};
+
+function loadEntries(recipient: string): GuestbookEntry[] {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(storageKey(recipient)) ?? "[]");
+    return Array.isArray(stored) ? stored.filter(isEntry) : [];
+  } catch {
+    return [];
+  }
+}
+
+/** An in-memory guestbook saved in this browser, per recipient. */
+export function createLocalGuestbook(recipient: string): GuestbookBackend {
+  return createMemoryGuestbook({
+    initialEntries: loadEntries(recipient),
+    onEntriesChange: (entries) => {
+      try {
+        window.localStorage.setItem(storageKey(recipient), JSON.stringify(entries));
+      } catch {
+        // Storage can be unavailable (private mode, quota); the page keeps them
+      }
+    },
+  });
+}
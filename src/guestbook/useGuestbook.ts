@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useState } from "react";
+import type { GuestbookBackend, GuestbookEntry, Reaction } from "./backend";
+
+// How long a reaction stays around to be drawn
+const REACTION_LIFETIME_MS = 4000;
+const MAX_LIVE_REACTIONS = 40;
+
+/**
+ * Follows a guestbook backend: its messages, and the reactions sent in the
+ * last few seconds (for drawing them as they float away).
+ */
+export function useGuestbook(backend: GuestbookBackend) {
+  const [entries, setEntries] = useState<ReadonlyArray<GuestbookEntry>>([]);
+  const [reactions, setReactions] = useState<ReadonlyArray<Reaction>>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const timers: number[] = [];
+    const unsubscribe = backend.subscribe((event) => {
+      if (event.type === "entry") {
+        setEntries((current) =>
+          current.some((entry) => entry.id === event.entry.id)
+            ? current
+            : [...current, event.entry]
+        );
+        return;
+      }
+      const { reaction } = event;
+      setReactions((current) => [...current, reaction].slice(-MAX_LIVE_REACTIONS));
+      timers.push(
+        window.setTimeout(() => {
+          setReactions((current) => current.filter((other) => other.id !== reaction.id));
+        }, REACTION_LIFETIME_MS)
+      );
+    });
+    backend.entries().then(
+      (loaded) => {
+        if (!cancelled) {
+          setEntries(loaded);
+        }
+      },
+      (error: unknown) => console.warn("Could not load the guestbook", error)
+    );
+    return () => {
+      cancelled = true;
+      unsubscribe();
+      timers.forEach((handle) => window.clearTimeout(handle));
+    };
+  }, [backend]);
+
+  const post = useCallback(
+    (author: string, text: string) => backend.post(author, text),
+    [backend]
+  );
+
+  const react = useCallback(
+    (author: string, emoji: string) => {
+      backend.react(author, emoji).catch((error: unknown) => {
+        console.warn("Could not send the reaction", error);
+      });
+    },
+    [backend]
+  );
+
+  return { entries, reactions, post, react };
+}
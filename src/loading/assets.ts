@@ -0,0 +1,59 @@
+import { toMusicConfig } from "../audio/audioManager";
+import { toFramePhotos } from "../frames/gallery";
+import { mediaKindOf } from "../frames/media";
+import type { SceneManifest } from "../scene/manifest";
+
+/** The models every scene loads, whatever its manifest says. */
+export const MODEL_URLS = {
+  cake: "/cake.glb",
+  table: "/table.glb",
+  candle: "/candle.glb",
+  pictureFrame: "/picture_frame.glb",
+} as const;
+
+/**
+ * How an asset is used, which decides what happens when it fails: models
+ * and the environment get stand-ins, textures a placeholder picture, and
+ * audio is simply skipped by the audio manager.
+ */
+export type AssetKind = "model" | "texture" | "environment" | "audio";
+
+export type SceneAsset = {
+  url: string;
+  kind: AssetKind;
+};
+
+/**
+ * Everything the scene downloads before it can be shown, once per URL.
+ * Videos, animated pictures and voice notes stream when played, so they are
+ * left out.
+ */
+export function collectSceneAssets(manifest: SceneManifest): SceneAsset[] {
+  const assets = new Map<string, AssetKind>();
+  const add = (kind: AssetKind, url: string | undefined) => {
+    // Inlined photos are already in memory
+    if (url && !url.startsWith("data:") && !assets.has(url)) {
+      assets.set(url, kind);
+    }
+  };
+
+  // A scene with its own cake settings generates the cake unless it names a model
+  const { cake, ...models } = MODEL_URLS;
+  add("model", manifest.cake ? manifest.cake.model : cake);
+  Object.values(models).forEach((url) => add("model", url));
+  manifest.cards.forEach((card) => add("texture", card.image));
+  manifest.frames.forEach((frame) =>
+    toFramePhotos(frame.image, frame.photos)
+      .filter((photo) => mediaKindOf(photo) === "image")
+      .forEach((photo) => add("texture", photo.image))
+  );
+  manifest.contributors.forEach((contributor) => add("texture", contributor.avatar));
+  add("environment", manifest.environment?.file);
+
+  const music = toMusicConfig(manifest.music);
+  [...music.intro, ...music.celebration].forEach((url) => add("audio", url));
+  Object.values(manifest.sounds ?? {}).forEach((url) => add("audio", url));
+  add("audio", manifest.singAlong?.song);
+
+  return [...assets].map(([url, kind]) => ({ url, kind }));
+}
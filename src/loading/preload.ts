@@ -0,0 +1,156 @@
+import { DefaultLoadingManager } from "three";
+import type { SceneAsset } from "./assets";
+
+/**
+ * Downloads a scene's assets up front so the intro never waits on the
+ * network. Models, textures and the environment are kept as blobs and handed
+ * to three's loaders in place of their URLs; audio only warms the HTTP cache,
+ * since music streams through an audio element.
+ */
+
+export type PreloadProgress = {
+  /** Assets finished, whether they loaded or failed. */
+  loaded: number;
+  total: number;
+  /** 0..1, counting bytes within each asset where the size is known. */
+  progress: number;
+};
+
+type PreloadOptions = {
+  signal: AbortSignal;
+  onProgress: (progress: PreloadProgress) => void;
+};
+
+const CONCURRENCY = 4;
+const PLACEHOLDER_SIZE: [number, number] = [512, 384];
+const PLACEHOLDER_BACKGROUND = "#3a2f4a";
+const PLACEHOLDER_TEXT = "#fff2e4";
+
+// Original URL -> the blob (or placeholder) three should load instead
+const resolvedUrls = new Map<string, string>();
+let isUrlModifierInstalled = false;
+let placeholderUrl: string | null = null;
+
+function installUrlModifier() {
+  if (!isUrlModifierInstalled) {
+    isUrlModifierInstalled = true;
+    DefaultLoadingManager.setURLModifier((url) => resolvedUrls.get(url) ?? url);
+  }
+}
+
+/** A dark card saying the picture is missing, drawn once. */
+function placeholderPicture() {
+  if (!placeholderUrl) {
+    const canvas = document.createElement("canvas");
+    [canvas.width, canvas.height] = PLACEHOLDER_SIZE;
+    const context = canvas.getContext("2d");
+    if (context) {
+      context.fillStyle = PLACEHOLDER_BACKGROUND;
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.fillStyle = PLACEHOLDER_TEXT;
+      context.font = '600 32px "Courier New", Courier, monospace';
+      context.textAlign = "center";
+      context.textBaseline = "middle";
+      context.fillText("> picture missing", canvas.width / 2, canvas.height / 2);
+    }
+    placeholderUrl = canvas.toDataURL("image/png");
+  }
+  return placeholderUrl;
+}
+
+/** Reads a response to the end, reporting 0..1 when its size is known. */
+async function download(
+  url: string,
+  keep: boolean,
+  signal: AbortSignal,
+  onFraction: (fraction: number) => void
+): Promise<Blob | null> {
+  const response = await fetch(url, { signal });
+  // Static hosts and the dev server answer unknown paths with the page itself
+  const type = response.headers.get("content-type") ?? "";
+  if (!response.ok || !response.body || type.startsWith("text/html")) {
+    throw new Error(`Could not load ${url} (HTTP ${response.status})`);
+  }
+  const size = Number(response.headers.get("content-length")) || 0;
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    received += value.length;
+    if (keep) {
+      chunks.push(value);
+    }
+    if (size > 0) {
+      // Compressed responses report their compressed size
+      onFraction(Math.min(1, received / size));
+    }
+  }
+  return keep ? new Blob(chunks as BlobPart[], { type }) : null;
+}
+
+/**
+ * Preloads every asset, a few at a time, and resolves with the ones that
+ * failed. Failed textures are swapped for a placeholder picture; the caller
+ * decides what stands in for the rest.
+ */
+export async function preloadAssets(
+  assets: ReadonlyArray<SceneAsset>,
+  { signal, onProgress }: PreloadOptions
+): Promise<SceneAsset[]> {
+  installUrlModifier();
+  const fractions = assets.map(() => 0);
+  const failed: SceneAsset[] = [];
+  let loaded = 0;
+  let reportedPercent = -1;
+  let next = 0;
+
+  const report = (force = false) => {
+    const progress =
+      assets.length === 0 ? 1 : fractions.reduce((sum, value) => sum + value, 0) / assets.length;
+    const percent = Math.floor(progress * 100);
+    if (force || percent !== reportedPercent) {
+      reportedPercent = percent;
+      onProgress({ loaded, total: assets.length, progress });
+    }
+  };
+
+  const work = async () => {
+    while (next < assets.length) {
+      const index = next;
+      next += 1;
+      const asset = assets[index];
+      const resolved = resolvedUrls.get(asset.url);
+      if (resolved === undefined || resolved === placeholderUrl) {
+        try {
+          const blob = await download(asset.url, asset.kind !== "audio", signal, (fraction) => {
+            fractions[index] = fraction;
+            report();
+          });
+          if (blob) {
+            resolvedUrls.set(asset.url, URL.createObjectURL(blob));
+          }
+        } catch (error) {
+          if (signal.aborted) {
+            throw error;
+          }
+          console.warn(`Asset ${asset.url} failed to preload`, error);
+          failed.push(asset);
+          if (asset.kind === "texture") {
+            resolvedUrls.set(asset.url, placeholderPicture());
+          }
+        }
+      }
+      fractions[index] = 1;
+      loaded += 1;
+      report(true);
+    }
+  };
+
+  report(true);
+  await Promise.all(Array.from({ length: Math.min(CONCURRENCY, assets.length) }, work));
+  return failed;
+}
@@ -0,0 +1,61 @@
+import { useEffect, useState } from "react";
+import type { SceneAsset } from "./assets";
+import { preloadAssets, type PreloadProgress } from "./preload";
+
+export type AssetPreload = PreloadProgress & {
+  status: "loading" | "ready";
+  /** Assets that could not be loaded and are shown with a stand-in. */
+  failed: ReadonlyArray<SceneAsset>;
+};
+
+const NO_FAILURES: ReadonlyArray<SceneAsset> = [];
+
+/** Starts preloading as soon as the page opens; `assets` should be memoised. */
+export function useAssetPreload(assets: ReadonlyArray<SceneAsset>): AssetPreload {
+  const [state, setState] = useState<AssetPreload>(() => ({
+    status: "loading",
+    loaded: 0,
+    total: assets.length,
+    progress: 0,
+    failed: NO_FAILURES,
+  }));
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setState({
+      status: "loading",
+      loaded: 0,
+      total: assets.length,
+      progress: 0,
+      failed: NO_FAILURES,
+    });
+    preloadAssets(assets, {
+      signal: controller.signal,
+      onProgress: (progress) => {
+        if (!controller.signal.aborted) {
+          setState((current) => ({ ...current, ...progress }));
+        }
+      },
+    }).then(
+      (failed) => {
+        if (!controller.signal.aborted) {
+          setState((current) => ({
+            ...current,
+            status: "ready",
+            failed: failed.length > 0 ? failed : NO_FAILURES,
+          }));
+        }
+      },
+      (error: unknown) => {
+        if (!controller.signal.aborted) {
+          // Not expected (failures are per asset); let the loaders try themselves
+          console.warn("Preloading stopped", error);
+          setState((current) => ({ ...current, status: "ready" }));
+        }
+      }
+    );
+    return () => controller.abort();
+  }, [assets]);
+
+  return state;
+}
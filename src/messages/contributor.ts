@@ -0,0 +1,57 @@
+type Vec3 = [number, number, number];
+
+/** The object a message sits in on the table. */
+export type MessageObject = "envelope" | "phone" | "tablet";
+
+export type MessageKind = "audio" | "video";
+
+/** A friend's recorded message, placed on the table like a card. */
+export type Contributor = {
+  id: string;
+  name: string;
+  /** Shown on the object (the phone's screen, the envelope's seal). */
+  avatar?: string;
+  /** A voice note or a video; the kind is guessed from the extension. */
+  media: string;
+  kind?: MessageKind;
+  object?: MessageObject;
+  position: Vec3;
+  rotation: Vec3;
+};
+
+const VIDEO_EXTENSIONS = ["mp4", "webm", "mov", "m4v", "ogv"];
+
+const extensionOf = (url: string) =>
+  url.split(/[?#]/)[0].split(".").pop()?.toLowerCase() ?? "";
+
+export function messageKindOf(contributor: Contributor): MessageKind {
+  if (contributor.kind) {
+    return contributor.kind;
+  }
+  return VIDEO_EXTENSIONS.includes(extensionOf(contributor.media)) ? "video" : "audio";
+}
+
+/** Video notes come on a phone and voice notes in an envelope unless set. */
+export const messageObjectOf = (contributor: Contributor): MessageObject =>
+  contributor.object ?? (messageKindOf(contributor) === "video" ? "phone" : "envelope");
+
+const storageKey = (recipient: string) => `birthday-cake:read:${recipient}`;
+
+export function loadReadMessages(recipient: string): ReadonlySet<string> {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(storageKey(recipient)) ?? "[]");
+    return new Set(
+      Array.isArray(stored) ? stored.filter((id) => typeof id === "string") : []
+    );
+  } catch {
+    return new Set();
+  }
+}
+
+export function persistReadMessages(recipient: string, ids: ReadonlySet<string>) {
+  try {
+    window.localStorage.setItem(storageKey(recipient), JSON.stringify([...ids]));
+  } catch {
+    // Storage can be unavailable (private mode, quota); read marks are optional
+  }
+}
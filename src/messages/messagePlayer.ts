@@ -0,0 +1,94 @@
+import { SRGBColorSpace, VideoTexture } from "three";
+import type { MessageKind } from "./contributor";
+
+export type MessageStatus = "idle" | "playing" | "paused" | "ended" | "unavailable";
+
+export type MessagePlayer = {
+  /** The video picture; null for voice notes. */
+  readonly texture: VideoTexture | null;
+  /** Plays from the start, or resumes after a pause. */
+  play: () => void;
+  pause: () => void;
+  /** Stops and rewinds, e.g. when the message goes back on the table. */
+  stop: () => void;
+  dispose: () => void;
+};
+
+/**
+ * One friend's voice or video note. Unlike frame clips these play once, with
+ * sound, and report their status so the object can show it.
+ */
+export function createMessagePlayer(
+  url: string,
+  kind: MessageKind,
+  onStatus: (status: MessageStatus) => void
+): MessagePlayer {
+  const element =
+    kind === "video" ? document.createElement("video") : document.createElement("audio");
+  element.crossOrigin = "anonymous";
+  element.preload = "metadata";
+  if (element instanceof HTMLVideoElement) {
+    element.playsInline = true;
+  }
+  element.src = url;
+
+  let texture: VideoTexture | null = null;
+  if (element instanceof HTMLVideoElement) {
+    texture = new VideoTexture(element);
+    texture.colorSpace = SRGBColorSpace;
+  }
+
+  let unavailable = false;
+  const handleError = () => {
+    unavailable = true;
+    console.warn(`Message ${url} failed to load`);
+    onStatus("unavailable");
+  };
+  const handlePlaying = () => onStatus("playing");
+  const handlePause = () => {
+    if (!element.ended && !unavailable) {
+      onStatus("paused");
+    }
+  };
+  const handleEnded = () => onStatus("ended");
+  element.addEventListener("error", handleError);
+  element.addEventListener("playing", handlePlaying);
+  element.addEventListener("pause", handlePause);
+  element.addEventListener("ended", handleEnded);
+
+  return {
+    texture,
+    play: () => {
+      if (unavailable) {
+        return;
+      }
+      if (element.ended) {
+        element.currentTime = 0;
+      }
+      element.play().catch(() => {
+        // Refused (no gesture yet) or unsupported; the label says paused
+        onStatus(unavailable ? "unavailable" : "paused");
+      });
+    },
+    pause: () => element.pause(),
+    stop: () => {
+      element.pause();
+      if (element.readyState > 0) {
+        element.currentTime = 0;
+      }
+      if (!unavailable) {
+        onStatus("idle");
+      }
+    },
+    dispose: () => {
+      element.removeEventListener("error", handleError);
+      element.removeEventListener("playing", handlePlaying);
+      element.removeEventListener("pause", handlePause);
+      element.removeEventListener("ended", handleEnded);
+      element.pause();
+      element.removeAttribute("src");
+      element.load();
+      texture?.dispose();
+    },
+  };
+}
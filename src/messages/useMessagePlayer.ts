@@ -0,0 +1,22 @@
+import { useEffect, useState } from "react";
+import type { MessageKind } from "./contributor";
+import {
+  createMessagePlayer,
+  type MessagePlayer,
+  type MessageStatus,
+} from "./messagePlayer";
+
+/** A player for one message and its status, released when the media changes. */
+export function useMessagePlayer(url: string, kind: MessageKind) {
+  const [player, setPlayer] = useState<MessagePlayer | null>(null);
+  const [status, setStatus] = useState<MessageStatus>("idle");
+
+  useEffect(() => {
+    const created = createMessagePlayer(url, kind, setStatus);
+    setPlayer(created);
+    setStatus("idle");
+    return () => created.dispose();
+  }, [url, kind]);
+
+  return { player, status };
+}
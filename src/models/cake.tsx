@@ -1,18 +1,47 @@
 import { useCursor } from "@react-three/drei";
-import { useLoader, type ThreeEvent } from "@react-three/fiber";
-import type { ThreeElements } from "@react-three/fiber";
+import type { ThreeElements, ThreeEvent } from "@react-three/fiber";
 import { useCallback, useMemo, useState } from "react";
-import type { Group } from "three";
-import { GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader.js";
+import { Box3, Vector3, type Group } from "three";
+import { buildCake } from "../cake/buildCake";
+import { DEFAULT_CAKE, type CakeConfig } from "../cake/layout";
+import { MODEL_URLS } from "../loading/assets";
+import { ModelScene } from "./modelScene";
 
 type CakeProps = ThreeElements["group"] & {
+  /** Generates the cake from these settings; without them `/cake.glb` is loaded. */
+  config?: CakeConfig;
+  /** Fills `{name}` and `{age}` in the piped text. */
+  templateValues?: Readonly<Record<string, string>>;
   onClick?: () => void;
 };
 
-export function Cake({ children, onClick, ...groupProps }: CakeProps) {
-  const gltf = useLoader(GLTFLoader, "/cake.glb");
-  const cakeScene = useMemo<Group | null>(() => gltf.scene?.clone(true) ?? null, [gltf.scene]);
+const NO_VALUES: Readonly<Record<string, string>> = {};
+
+export function Cake({ config, templateValues = NO_VALUES, ...props }: CakeProps) {
+  // The generated cake also stands in for a model that fails to load
+  const generate = useCallback(
+    () => buildCake(config ?? DEFAULT_CAKE, templateValues),
+    [config, templateValues]
+  );
+
+  return (
+    <ModelScene url={config ? config.model : MODEL_URLS.cake} standIn={generate}>
+      {(scene) => <CakeBody {...props} cakeScene={scene} />}
+    </ModelScene>
+  );
+}
+
+function CakeBody({
+  children,
+  onClick,
+  cakeScene,
+  ...groupProps
+}: CakeProps & { cakeScene: Group }) {
   const [isHovered, setIsHovered] = useState(false);
+  const { boxSize, boxCenter } = useMemo(() => {
+    const box = new Box3().setFromObject(cakeScene);
+    return { boxSize: box.getSize(new Vector3()), boxCenter: box.getCenter(new Vector3()) };
+  }, [cakeScene]);
 
   useCursor(isHovered && !!onClick, "pointer");
 
@@ -39,23 +68,19 @@ export function Cake({ children, onClick, ...groupProps }: CakeProps) {
     event.stopPropagation();
   }, [onClick]);
 
-  if (!cakeScene) {
-    return null;
-  }
-
   return (
     <group {...groupProps}>
       <primitive object={cakeScene} />
       {onClick && (
-        // Invisible mesh for click detection (cake is roughly 1.5 units wide/tall)
+        // Invisible mesh for click detection, the size of the cake
         <mesh
-          position={[0, 0.5, 0]}
+          position={boxCenter}
           onClick={handleClick}
           onPointerOver={handlePointerOver}
           onPointerOut={handlePointerOut}
           onPointerDown={handlePointerDown}
         >
-          <boxGeometry args={[1.5, 1, 1.5]} />
+          <boxGeometry args={[boxSize.x, boxSize.y, boxSize.z]} />
           <meshBasicMaterial transparent opacity={0} />
         </mesh>
       )}
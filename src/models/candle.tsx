@@ -1,22 +1,37 @@
-import { useFrame, useLoader } from "@react-three/fiber";
+import { useFrame } from "@react-three/fiber";
 import type { ThreeElements } from "@react-three/fiber";
-import { useEffect, useMemo, useRef } from "react";
+import { useEffect, useMemo, useRef, useState, type RefObject } from "react";
 import type { Group, Mesh, PointLight } from "three";
-import { DoubleSide, MathUtils, ShaderMaterial } from "three";
+import { DoubleSide, MathUtils, ShaderMaterial, Vector2, Vector3 } from "three";
 import type { IUniform } from "three";
-import { GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader.js";
+import { MODEL_URLS } from "../loading/assets";
+import { ModelScene } from "./modelScene";
+import { createCandleStandIn } from "./standIns";
+
+/** Live breath on the flame: strength bends it, progress dims it. */
+export type CandleWind = {
+  strength: number;
+  progress: number;
+};
 
 type CandleProps = ThreeElements["group"] & {
   isLit?: boolean;
+  wind?: RefObject<CandleWind>;
+  /** Point lights are expensive; large clusters only light a few candles. */
+  withLight?: boolean;
 };
 
 type FlameUniforms = {
   time: IUniform<number>;
   strength: IUniform<number>;
+  bend: IUniform<number>;
+  bendDirection: IUniform<Vector2>;
 };
 
 const vertexShader = `
   uniform float time;
+  uniform float bend;
+  uniform vec2 bendDirection;
   varying vec2 vUv;
   varying float hValue;
 
@@ -48,6 +63,11 @@ const vertexShader = `
     pos.x += sin(time * 1.5 + position.y * 2.0) * hValue * 0.08;
     pos.z += cos(time * 1.3 + position.y * 2.0) * hValue * 0.08;
 
+    // Lean the tip away from the wind; the base stays on the wick
+    float lean = bend * max(hValue, 0.0) * max(hValue, 0.0);
+    pos.xz += bendDirection * lean * 0.9;
+    pos.y *= 1.0 - bend * 0.35;
+
     gl_Position = projectionMatrix * modelViewMatrix * vec4(pos, 1.0);
   }
 `;
@@ -82,19 +102,38 @@ const fragmentShader = `
   }
 `;
 
-export function Candle({ children, isLit = true, ...groupProps }: CandleProps) {
-  const gltf = useLoader(GLTFLoader, "/candle.glb");
-  const candleScene = useMemo<Group | null>(() => gltf.scene?.clone(true) ?? null, [gltf.scene]);
+export function Candle(props: CandleProps) {
+  return (
+    <ModelScene url={MODEL_URLS.candle} standIn={createCandleStandIn}>
+      {(scene) => <CandleBody {...props} candleScene={scene} />}
+    </ModelScene>
+  );
+}
+
+function CandleBody({
+  children,
+  isLit = true,
+  wind,
+  withLight = true,
+  candleScene,
+  ...groupProps
+}: CandleProps & { candleScene: Group }) {
   const lightRef = useRef<PointLight>(null);
   const flameMeshRef = useRef<Mesh>(null);
-  const lightStrengthRef = useRef(isLit ? 1 : 0);
+  // Candles that mount unlit start dark; after that the flame fades in and out
+  const [initialStrength] = useState(isLit ? 1 : 0);
+  const lightStrengthRef = useRef(initialStrength);
+  // The breath that blew the candle out keeps the flame leaning while it fades
+  const lastGustRef = useRef(0);
 
   const flameUniforms = useMemo<FlameUniforms>(
     () => ({
       time: { value: 0 },
-      strength: { value: 1 },
+      strength: { value: initialStrength },
+      bend: { value: 0 },
+      bendDirection: { value: new Vector2(1, 0) },
     }),
-    []
+    [initialStrength]
   );
 
   const flameMaterial = useMemo(
@@ -115,21 +154,40 @@ export function Candle({ children, isLit = true, ...groupProps }: CandleProps) {
     };
   }, [flameMaterial]);
 
-  useEffect(() => {
-    flameUniforms.strength.value = isLit ? 1 : 0;
-    lightStrengthRef.current = isLit ? 1 : 0;
-  }, [isLit, flameUniforms]);
+  const tmpCamera = useMemo(() => new Vector3(), []);
 
-  useFrame(({ clock }, delta) => {
+  useFrame(({ clock, camera }, delta) => {
     const elapsed = clock.elapsedTime;
     flameUniforms.time.value = elapsed;
-    const targetStrength = isLit ? 1 : 0;
+    const gust = isLit ? wind?.current : undefined;
+    if (isLit) {
+      lastGustRef.current = gust?.strength ?? 0;
+    }
+    flameUniforms.bend.value = MathUtils.damp(
+      flameUniforms.bend.value,
+      lastGustRef.current,
+      8,
+      delta
+    );
+    const flame = flameMeshRef.current;
+    if (isLit && flame?.parent && flameUniforms.bend.value > 0.001) {
+      // Blow comes from the viewer, so bend along camera -> flame
+      const cameraLocal = flame.parent.worldToLocal(tmpCamera.copy(camera.position));
+      flameUniforms.bendDirection.value
+        .set(flame.position.x - cameraLocal.x, flame.position.z - cameraLocal.z)
+        .normalize();
+    }
+    const targetStrength = isLit ? 1 - (gust?.progress ?? 0) * 0.5 : 0;
     flameUniforms.strength.value = MathUtils.damp(
       flameUniforms.strength.value,
       targetStrength,
       4,
       delta
     );
+    const strength = flameUniforms.strength.value;
+    if (flameMeshRef.current) {
+      flameMeshRef.current.visible = strength > 0.02;
+    }
 
     const light = lightRef.current;
     if (!light) {
@@ -147,28 +205,22 @@ export function Candle({ children, isLit = true, ...groupProps }: CandleProps) {
       Math.sin(elapsed * 15.3) * 0.04 +
       Math.sin(elapsed * 8.7) * 0.03;
 
-    const strength = flameUniforms.strength.value;
     light.intensity = Math.max(0, lightStrengthRef.current + flicker * strength * 0.5);
     light.position.y = 3.5 + Math.sin(elapsed * 5.0) * 0.1;
     light.position.x = Math.sin(elapsed * 3.0) * 0.05;
     light.position.z = Math.cos(elapsed * 2.7) * 0.05;
     light.visible = strength > 0.02;
-    if (flameMeshRef.current) {
-      flameMeshRef.current.visible = strength > 0.02;
-    }
   });
 
-  if (!candleScene) {
-    return null;
-  }
-
   return (
     <group {...groupProps}>
       <primitive object={candleScene} />
       <mesh ref={flameMeshRef} scale={0.4} position={[0, 2.9, 0]} material={flameMaterial}>
         <sphereGeometry args={[0.5, 32, 32]} />
       </mesh>
-      <pointLight ref={lightRef} distance={5} color="#ffffffff" decay={1} />
+      {withLight && (
+        <pointLight ref={lightRef} distance={5} color="#ffffffff" decay={1} />
+      )}
       {children}
     </group>
   );
@@ -0,0 +1,46 @@
+import { useLoader } from "@react-three/fiber";
+import { useEffect, useMemo, type ReactNode } from "react";
+import type { Group } from "three";
+import { GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader.js";
+import { ErrorBoundary } from "../components/ErrorBoundary";
+import { disposeStandIn } from "./standIns";
+
+type RenderModel = (scene: Group, isStandIn: boolean) => ReactNode;
+
+type ModelSceneProps = {
+  /** Without a URL the stand-in is shown straight away. */
+  url?: string;
+  /** Builds the procedural model used when the GLB fails to load. */
+  standIn: () => Group;
+  children: RenderModel;
+};
+
+function GltfScene({ url, children }: { url: string; children: RenderModel }) {
+  const gltf = useLoader(GLTFLoader, url);
+  const scene = useMemo(() => gltf.scene.clone(true), [gltf.scene]);
+  return children(scene, false);
+}
+
+function StandInScene({ build, children }: { build: () => Group; children: RenderModel }) {
+  const scene = useMemo(build, [build]);
+  useEffect(() => () => disposeStandIn(scene), [scene]);
+  return children(scene, true);
+}
+
+/**
+ * Loads a GLB and hands a clone of its scene to `children`; a missing or
+ * broken file falls back to the stand-in instead of failing the page.
+ */
+export function ModelScene({ url, standIn, children }: ModelSceneProps) {
+  if (!url) {
+    return <StandInScene build={standIn}>{children}</StandInScene>;
+  }
+  return (
+    <ErrorBoundary
+      label={`Model ${url} failed to load; using a stand-in`}
+      fallback={<StandInScene build={standIn}>{children}</StandInScene>}
+    >
+      <GltfScene url={url}>{children}</GltfScene>
+    </ErrorBoundary>
+  );
+}
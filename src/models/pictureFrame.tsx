@@ -1,4 +1,4 @@
-import { useCursor, useTexture } from "@react-three/drei";
+import { Html, useCursor, useTexture } from "@react-three/drei";
 import { useFrame, useThree, type ThreeEvent } from "@react-three/fiber";
 import {
   useCallback,
@@ -8,22 +8,59 @@ import {
   useState,
   type ReactNode,
 } from "react";
-import { useLoader } from "@react-three/fiber";
-import { GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader.js";
 import {
   Box3,
+  BufferGeometry,
   DoubleSide,
+  Frustum,
+  Matrix4,
+  Mesh,
   Euler,
   Group,
   MeshStandardMaterial,
   Quaternion,
   SRGBColorSpace,
+  Sphere,
   Vector3,
+  type Texture,
 } from "three";
+import {
+  DEFAULT_SLIDESHOW_INTERVAL,
+  edgeZoneAt,
+  slideshowOffset,
+  stepPhoto,
+  swipeStep,
+  toFramePhotos,
+  type FramePhoto,
+} from "../frames/gallery";
+import {
+  createFittedPlane,
+  DEFAULT_FOCAL_POINT,
+  fitPhoto,
+  shouldTurnFrame,
+  textureAspect,
+  type FocalPoint,
+  type FrameOrientation,
+  type PhotoFit,
+} from "../frames/fit";
+import { mediaKindOf } from "../frames/media";
+import { useFrameMedia } from "../frames/useFrameMedia";
+import { MODEL_URLS } from "../loading/assets";
+import { ModelScene } from "./modelScene";
+import { createPictureFrameStandIn, FRAME_STAND_IN_DEPTH } from "./standIns";
 
 type PictureFrameProps = {
   id?: string;
-  image: string;
+  /** A single photo; use `photos` for a gallery. */
+  image?: string;
+  photos?: ReadonlyArray<FramePhoto>;
+  /** Seconds between photos while unfocused; 0 turns the slideshow off. */
+  slideshowInterval?: number;
+  /** How photos fill the picture area; photos can override it. */
+  fit?: PhotoFit;
+  focalPoint?: FocalPoint;
+  /** "auto" turns the frame to match each photo's shape. */
+  orientation?: FrameOrientation;
   imageScale?: number | [number, number];
   imageOffset?: [number, number, number];
   imageInset?: number;
@@ -34,6 +71,8 @@ type PictureFrameProps = {
   scale?: number;
   isActive?: boolean;
   onToggle?: (id: string) => void;
+  /** Reports whether a video in this frame is currently playing with sound. */
+  onAudibleChange?: (id: string, audible: boolean) => void;
   children?: ReactNode;
 };
 
@@ -41,38 +80,99 @@ const DEFAULT_IMAGE_SCALE: [number, number] = [0.82, 0.82];
 const CAMERA_DISTANCE = 1.2;
 const CAMERA_Y_FLOOR = 0.8;
 const HOVER_LIFT = 0.04;
+const CROSSFADE_SECONDS = 0.6;
+const IMAGE_ROTATION = new Euler(0.435, Math.PI, 0);
+// The frame turns about the picture's normal, so it stays leaning the same way
+const IMAGE_NORMAL = new Vector3(0, 0, 1).applyEuler(IMAGE_ROTATION);
+const QUARTER_TURN = new Quaternion().setFromAxisAngle(IMAGE_NORMAL, Math.PI / 2);
+const DEFAULT_IMAGE_OFFSET: [number, number, number] = [0, 0.05, -0.27];
+// The stand-in board is centred on its bounding box, so the photo sits just off its face
+const STAND_IN_IMAGE_OFFSET = IMAGE_NORMAL.clone()
+  .multiplyScalar(FRAME_STAND_IN_DEPTH / 2 + 0.003)
+  .toArray();
+
+export function PictureFrame(props: PictureFrameProps) {
+  return (
+    <ModelScene url={MODEL_URLS.pictureFrame} standIn={createPictureFrameStandIn}>
+      {(scene, isStandIn) => (
+        <PictureFrameBody {...props} frameScene={scene} isStandIn={isStandIn} />
+      )}
+    </ModelScene>
+  );
+}
 
-export function PictureFrame({
+function PictureFrameBody({
   id,
   image,
+  photos: photoList,
+  slideshowInterval = DEFAULT_SLIDESHOW_INTERVAL,
+  fit = "cover",
+  focalPoint = DEFAULT_FOCAL_POINT,
+  orientation = "auto",
   imageScale = DEFAULT_IMAGE_SCALE,
   imageOffset,
   tablePosition,
   tableRotation,
   isActive = false,
   onToggle,
+  onAudibleChange,
   children,
   position,
   rotation,
   scale,
-}: PictureFrameProps) {
+  frameScene,
+  isStandIn,
+}: PictureFrameProps & { frameScene: Group; isStandIn: boolean }) {
   const groupRef = useRef<Group>(null);
   const { gl, camera } = useThree();
   const [isHovered, setIsHovered] = useState(false);
 
   useCursor((isHovered || isActive) && !!id && !!onToggle, "pointer");
 
-  const gltf = useLoader(GLTFLoader, "/picture_frame.glb");
-  const pictureTexture = useTexture(image);
+  const photos = useMemo(() => toFramePhotos(image, photoList), [image, photoList]);
+  // Stills go through useTexture; video and animated sources are created per photo
+  const stillUrls = useMemo(
+    () =>
+      photos
+        .filter((photo) => mediaKindOf(photo) === "image")
+        .map((photo) => photo.image),
+    [photos]
+  );
+  const stillTextures = useTexture(stillUrls);
+  const media = useFrameMedia(photos);
+  const pictureTextures = useMemo(() => {
+    let stillIndex = 0;
+    return photos.map((photo, index): Texture | undefined =>
+      mediaKindOf(photo) === "image"
+        ? stillTextures[stillIndex++]
+        : media[index]?.texture
+    );
+  }, [photos, stillTextures, media]);
+  const audibleRef = useRef(false);
+  const crossfadeMeshRef = useRef<Mesh>(null);
+  // Photo shapes, filled in as each texture's size becomes known
+  const [photoAspects, setPhotoAspects] = useState<ReadonlyArray<number | undefined>>(
+    () => pictureTextures.map(textureAspect)
+  );
+  const [photoIndex, setPhotoIndex] = useState(0);
+  // The photo being faded out, and how far the crossfade has got (0..1)
+  const crossfadeRef = useRef({ from: 0, progress: 1 });
+  const slideshowTimerRef = useRef(
+    id ? slideshowOffset(id, slideshowInterval) : 0
+  );
+  const swipeStartRef = useRef<{ x: number; y: number } | null>(null);
+  const swipedRef = useRef(false);
 
-  pictureTexture.colorSpace = SRGBColorSpace;
   const maxAnisotropy =
     typeof gl.capabilities.getMaxAnisotropy === "function"
       ? gl.capabilities.getMaxAnisotropy()
       : 1;
-  pictureTexture.anisotropy = maxAnisotropy;
-
-  const frameScene = useMemo(() => gltf.scene.clone(true), [gltf.scene]);
+  for (const texture of pictureTextures) {
+    if (texture) {
+      texture.colorSpace = SRGBColorSpace;
+      texture.anisotropy = maxAnisotropy;
+    }
+  }
 
   const { frameSize, frameCenter } = useMemo(() => {
     const box = new Box3().setFromObject(frameScene);
@@ -94,7 +194,8 @@ export function PictureFrame({
   const imageWidth = frameSize.x * imageScaleX;
   const imageHeight = frameSize.y * imageScaleY;
 
-  const [offsetX, offsetY, offsetZ] = imageOffset ?? [0, 0.05, -0.27];
+  const [offsetX, offsetY, offsetZ] =
+    imageOffset ?? (isStandIn ? STAND_IN_IMAGE_OFFSET : DEFAULT_IMAGE_OFFSET);
 
   const imagePosition: [number, number, number] = [
     frameCenter.x + offsetX,
@@ -102,22 +203,87 @@ export function PictureFrame({
     frameCenter.z + offsetZ,
   ];
 
+  const currentIndex = Math.min(photoIndex, Math.max(0, photos.length - 1));
+  const isTurned = shouldTurnFrame(
+    orientation,
+    frameSize.x / frameSize.y,
+    photoAspects[currentIndex]
+  );
+  // Turning the model swaps the picture area's sides, and lifting it by half
+  // the difference keeps its lower edge on the table
+  const areaWidth = isTurned ? imageHeight : imageWidth;
+  const areaHeight = isTurned ? imageWidth : imageHeight;
+  const turnLift = isTurned ? Math.abs(frameSize.x - frameSize.y) / 2 : 0;
+
+  const fittedPhotos = useMemo(
+    () =>
+      photos.map((photo, index) =>
+        fitPhoto(
+          photo.fit ?? fit,
+          photoAspects[index],
+          areaWidth,
+          areaHeight,
+          photo.focalPoint ?? focalPoint
+        )
+      ),
+    [photos, photoAspects, fit, focalPoint, areaWidth, areaHeight]
+  );
+  const photoGeometries = useMemo<ReadonlyArray<BufferGeometry>>(
+    () => fittedPhotos.map(createFittedPlane),
+    [fittedPhotos]
+  );
+
+  useEffect(() => {
+    return () => {
+      photoGeometries.forEach((geometry) => geometry.dispose());
+    };
+  }, [photoGeometries]);
+
   const pictureMaterial = useMemo(
     () =>
       new MeshStandardMaterial({
-        map: pictureTexture,
         roughness: 0.08,
         metalness: 0,
         side: DoubleSide,
       }),
-    [pictureTexture]
+    []
+  );
+  // Drawn just in front of the picture while the previous photo fades out
+  const crossfadeMaterial = useMemo(
+    () =>
+      new MeshStandardMaterial({
+        roughness: 0.08,
+        metalness: 0,
+        side: DoubleSide,
+        transparent: true,
+        depthWrite: false,
+      }),
+    []
   );
 
   useEffect(() => {
     return () => {
       pictureMaterial.dispose();
+      crossfadeMaterial.dispose();
     };
-  }, [pictureMaterial]);
+  }, [pictureMaterial, crossfadeMaterial]);
+
+  useEffect(() => {
+    pictureMaterial.map = pictureTextures[currentIndex] ?? null;
+    pictureMaterial.needsUpdate = true;
+  }, [pictureMaterial, pictureTextures, currentIndex]);
+
+  const showPhoto = useCallback(
+    (step: number) => {
+      if (photos.length < 2) {
+        return;
+      }
+      crossfadeRef.current = { from: currentIndex, progress: 0 };
+      slideshowTimerRef.current = 0;
+      setPhotoIndex(stepPhoto(currentIndex, step, photos.length));
+    },
+    [currentIndex, photos.length]
+  );
 
   // For interactive frames, use tablePosition/tableRotation; otherwise use position/rotation props
   const defaultPosition = useMemo(() => {
@@ -162,6 +328,32 @@ export function PictureFrame({
     }
   }, [isActive]);
 
+  useEffect(() => {
+    if (!isActive || photos.length < 2) {
+      return;
+    }
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "ArrowLeft" || event.key === "ArrowRight") {
+        event.preventDefault();
+        showPhoto(event.key === "ArrowLeft" ? -1 : 1);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [isActive, photos.length, showPhoto]);
+
+  useEffect(() => {
+    return () => {
+      if (audibleRef.current && id) {
+        onAudibleChange?.(id, false);
+      }
+    };
+  }, [id, onAudibleChange]);
+
+  const frustum = useMemo(() => new Frustum(), []);
+  const viewProjection = useMemo(() => new Matrix4(), []);
+  const boundingSphere = useMemo(() => new Sphere(), []);
+
   const tmpPosition = useMemo(() => new Vector3(), []);
   const tmpQuaternion = useMemo(() => new Quaternion(), []);
   const tmpDirection = useMemo(() => new Vector3(), []);
@@ -171,6 +363,65 @@ export function PictureFrame({
   const pitchCorrection = useMemo(() => new Quaternion().setFromAxisAngle(new Vector3(1, 0, 0), -0.35), []);
 
   useFrame((_, delta) => {
+    const crossfade = crossfadeRef.current;
+    if (crossfade.progress < 1) {
+      crossfade.progress = Math.min(1, crossfade.progress + delta / CROSSFADE_SECONDS);
+      const texture = pictureTextures[crossfade.from] ?? null;
+      if (crossfadeMaterial.map !== texture) {
+        crossfadeMaterial.map = texture;
+        crossfadeMaterial.needsUpdate = true;
+      }
+      crossfadeMaterial.opacity = 1 - crossfade.progress;
+    }
+    crossfadeMaterial.visible = crossfade.progress < 1;
+    const crossfadeMesh = crossfadeMeshRef.current;
+    const crossfadeGeometry = photoGeometries[crossfade.from];
+    if (crossfadeMesh && crossfadeGeometry && crossfadeMesh.geometry !== crossfadeGeometry) {
+      crossfadeMesh.geometry = crossfadeGeometry;
+    }
+
+    // Video and animated sources only report their size once loaded
+    if (pictureTextures.some((texture, index) => textureAspect(texture) !== photoAspects[index])) {
+      setPhotoAspects(pictureTextures.map(textureAspect));
+    }
+
+    // Only the photo on show plays, and only while the frame is on screen.
+    // Videos play when focused; animated pictures loop whenever visible.
+    const frameGroup = groupRef.current;
+    let onScreen = true;
+    if (frameGroup) {
+      viewProjection.multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse);
+      frustum.setFromProjectionMatrix(viewProjection);
+      boundingSphere.center.setFromMatrixPosition(frameGroup.matrixWorld);
+      boundingSphere.radius = frameSize.length() * frameGroup.scale.x;
+      onScreen = frustum.intersectsSphere(boundingSphere);
+    }
+    let audible = false;
+    media.forEach((source, index) => {
+      if (!source) {
+        return;
+      }
+      const isShown = index === currentIndex && onScreen;
+      const isVideo = mediaKindOf(photos[index]) === "video";
+      source.setMuted(!isActive);
+      source.setPlaying(isShown && (!isVideo || isActive));
+      source.update();
+      audible ||= source.isAudible;
+    });
+    if (audible !== audibleRef.current) {
+      audibleRef.current = audible;
+      if (id) {
+        onAudibleChange?.(id, audible);
+      }
+    }
+
+    if (!isActive && photos.length > 1 && slideshowInterval > 0) {
+      slideshowTimerRef.current += delta;
+      if (slideshowTimerRef.current >= slideshowInterval) {
+        showPhoto(1);
+      }
+    }
+
     const group = groupRef.current;
     if (!group || !id || !onToggle) {
       return;
@@ -234,36 +485,98 @@ export function PictureFrame({
     (event: ThreeEvent<PointerEvent>) => {
       if (!id || !onToggle) return;
       event.stopPropagation();
+      swipeStartRef.current = isActive ? { x: event.clientX, y: event.clientY } : null;
+      swipedRef.current = false;
     },
-    [id, onToggle]
+    [id, onToggle, isActive]
+  );
+
+  const handlePointerUp = useCallback(
+    (event: ThreeEvent<PointerEvent>) => {
+      const start = swipeStartRef.current;
+      swipeStartRef.current = null;
+      if (!start || !isActive) return;
+      const step = swipeStep(event.clientX - start.x, event.clientY - start.y);
+      if (step !== 0) {
+        event.stopPropagation();
+        swipedRef.current = true;
+        showPhoto(step);
+      }
+    },
+    [isActive, showPhoto]
   );
 
   const handleClick = useCallback(
     (event: ThreeEvent<MouseEvent>) => {
       if (!id || !onToggle) return;
       event.stopPropagation();
+      if (swipedRef.current) {
+        swipedRef.current = false;
+        return;
+      }
+      // While focused, the edges of a gallery page through it. The UVs may
+      // be cropped, so measure across the plane itself.
+      const localPoint = event.object.worldToLocal(event.point.clone());
+      const photoWidth = fittedPhotos[currentIndex]?.width ?? imageWidth;
+      const zone = edgeZoneAt(localPoint.x / photoWidth + 0.5);
+      if (isActive && photos.length > 1 && zone !== 0) {
+        showPhoto(zone);
+        return;
+      }
       onToggle(id);
     },
-    [id, onToggle]
+    [id, onToggle, isActive, photos.length, showPhoto, fittedPhotos, currentIndex, imageWidth]
   );
 
+  const caption = photos[currentIndex]?.caption;
+  const counter =
+    photos.length > 1 ? `${currentIndex + 1} / ${photos.length}` : undefined;
+
   const isInteractive = !!id && !!onToggle;
 
   return (
     <group ref={groupRef}>
-      <group rotation={[0.04, 0, 0]}>
-        <primitive object={frameScene} />
+      <group rotation={[0.04, 0, 0]} position={[0, turnLift, 0]}>
+        <group position={imagePosition} quaternion={isTurned ? QUARTER_TURN : undefined}>
+          <primitive
+            object={frameScene}
+            position={[-imagePosition[0], -imagePosition[1], -imagePosition[2]]}
+          />
+        </group>
         <mesh
           position={imagePosition}
-          rotation={[0.435, Math.PI, 0]}
+          rotation={IMAGE_ROTATION}
+          geometry={photoGeometries[currentIndex]}
           material={pictureMaterial}
           onPointerOver={isInteractive ? handlePointerOver : undefined}
           onPointerOut={isInteractive ? handlePointerOut : undefined}
           onPointerDown={isInteractive ? handlePointerDown : undefined}
+          onPointerUp={isInteractive ? handlePointerUp : undefined}
           onClick={isInteractive ? handleClick : undefined}
         >
-          <planeGeometry args={[imageWidth, imageHeight]} />
+          <mesh
+            ref={crossfadeMeshRef}
+            position={[0, 0, 0.001]}
+            material={crossfadeMaterial}
+            raycast={() => null}
+          />
         </mesh>
+        {isActive && (caption || counter) && (
+          <Html
+            center
+            position={[
+              frameCenter.x,
+              frameCenter.y - (isTurned ? frameSize.x : frameSize.y) / 2 - 0.08,
+              frameCenter.z,
+            ]}
+            style={{ pointerEvents: "none" }}
+          >
+            <div className="frame-caption">
+              {caption && <span>{caption}</span>}
+              {counter && <span className="frame-caption__counter">{counter}</span>}
+            </div>
+          </Html>
+        )}
         {children}
       </group>
     </group>
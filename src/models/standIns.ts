@@ -0,0 +1,97 @@
+import {
+  BoxGeometry,
+  CylinderGeometry,
+  Euler,
+  Group,
+  Mesh,
+  MeshStandardMaterial,
+  type BufferGeometry,
+} from "three";
+
+/**
+ * Plain stand-ins for the GLB models, built to the same measurements (table
+ * top at y 0.08, candle flame at y 2.9) so everything placed on them still
+ * lines up when a model fails to load. The cake's stand-in is the generated
+ * cake (see src/cake/).
+ */
+
+const TABLE_TOP_Y = 0.08;
+const TABLE_SIZE: [number, number] = [5.2, 7.2];
+const TABLE_THICKNESS = 0.1;
+const TABLE_LEG_HEIGHT = 1.2;
+const TABLE_LEG_WIDTH = 0.14;
+
+const CANDLE_HEIGHT = 2.6;
+const CANDLE_RADIUS = 0.18;
+
+// Matches the picture_frame.glb board: leaning back, photo facing -z
+const FRAME_TILT = new Euler(0.435, Math.PI, 0);
+const FRAME_SIZE: [number, number] = [0.95, 1.2];
+export const FRAME_STAND_IN_DEPTH = 0.05;
+// Bottom edge on the table at the default frame height and scale
+const FRAME_BOTTOM_Y = (TABLE_TOP_Y - 0.735) / 0.75;
+
+const mesh = (geometry: BufferGeometry, color: string, roughness = 0.7) =>
+  new Mesh(geometry, new MeshStandardMaterial({ color, roughness, metalness: 0 }));
+
+/** Frees the stand-in's geometries, materials and textures. */
+export function disposeStandIn(group: Group) {
+  group.traverse((object) => {
+    if (object instanceof Mesh) {
+      const material = object.material as MeshStandardMaterial;
+      object.geometry.dispose();
+      material.map?.dispose();
+      material.dispose();
+    }
+  });
+}
+
+export function createTableStandIn() {
+  const group = new Group();
+  const [width, depth] = TABLE_SIZE;
+  const top = mesh(new BoxGeometry(width, TABLE_THICKNESS, depth), "#7a4e34");
+  top.position.y = TABLE_TOP_Y - TABLE_THICKNESS / 2;
+  group.add(top);
+  for (const x of [-1, 1]) {
+    for (const z of [-1, 1]) {
+      const leg = mesh(
+        new BoxGeometry(TABLE_LEG_WIDTH, TABLE_LEG_HEIGHT, TABLE_LEG_WIDTH),
+        "#5c3924"
+      );
+      leg.position.set(
+        x * (width / 2 - TABLE_LEG_WIDTH),
+        TABLE_TOP_Y - TABLE_THICKNESS - TABLE_LEG_HEIGHT / 2,
+        z * (depth / 2 - TABLE_LEG_WIDTH)
+      );
+      group.add(leg);
+    }
+  }
+  return group;
+}
+
+export function createCandleStandIn() {
+  const group = new Group();
+  const body = mesh(
+    new CylinderGeometry(CANDLE_RADIUS, CANDLE_RADIUS, CANDLE_HEIGHT, 24),
+    "#f4e9ff",
+    0.5
+  );
+  body.position.y = CANDLE_HEIGHT / 2;
+  group.add(body);
+  const wick = mesh(new CylinderGeometry(0.02, 0.02, 0.2, 8), "#2b2118");
+  wick.position.y = CANDLE_HEIGHT + 0.1;
+  group.add(wick);
+  return group;
+}
+
+export function createPictureFrameStandIn() {
+  const group = new Group();
+  const [width, height] = FRAME_SIZE;
+  const board = mesh(new BoxGeometry(width, height, FRAME_STAND_IN_DEPTH), "#d8c3a5", 0.55);
+  board.rotation.copy(FRAME_TILT);
+  const halfHeight =
+    (height * Math.cos(FRAME_TILT.x) + FRAME_STAND_IN_DEPTH * Math.sin(FRAME_TILT.x)) / 2;
+  board.position.y = FRAME_BOTTOM_Y + halfHeight;
+  group.add(board);
+  return group;
+}
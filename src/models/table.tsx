@@ -1,23 +1,19 @@
-import { useLoader } from "@react-three/fiber";
 import type { ThreeElements } from "@react-three/fiber";
-import { useMemo } from "react";
-import type { Group } from "three";
-import { GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader.js";
+import { MODEL_URLS } from "../loading/assets";
+import { ModelScene } from "./modelScene";
+import { createTableStandIn } from "./standIns";
 
 type TableProps = ThreeElements["group"];
 
 export function Table({ children, ...groupProps }: TableProps) {
-  const gltf = useLoader(GLTFLoader, "/table.glb");
-  const tableScene = useMemo<Group | null>(() => gltf.scene?.clone(true) ?? null, [gltf.scene]);
-
-  if (!tableScene) {
-    return null;
-  }
-
   return (
-    <group {...groupProps}>
-      <primitive object={tableScene} />
-      {children}
-    </group>
+    <ModelScene url={MODEL_URLS.table} standIn={createTableStandIn}>
+      {(tableScene) => (
+        <group {...groupProps}>
+          <primitive object={tableScene} />
+          {children}
+        </group>
+      )}
+    </ModelScene>
   );
 }
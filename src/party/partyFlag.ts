@@ -0,0 +1,28 @@
+import { DEFAULT_RELAY_PORT } from "./protocol";
+
+export type PartyOptions = {
+  room: string;
+  /** The relay's WebSocket URL. */
+  server: string;
+  name: string;
+};
+
+/**
+ * Party mode is switched on with `?party=<room>` in the page URL. Guests on
+ * the same room and relay see the same table; `&relay=ws://host:port`
+ * points at a relay elsewhere than this host, and `&guest=<name>` is the
+ * name the others see.
+ */
+export function getPartyOptions(): PartyOptions | null {
+  const params = new URLSearchParams(window.location.search);
+  const room = params.get("party");
+  if (!room) {
+    return null;
+  }
+  return {
+    room,
+    server:
+      params.get("relay") ?? `ws://${window.location.hostname}:${DEFAULT_RELAY_PORT}`,
+    name: params.get("guest") ?? "",
+  };
+}
@@ -0,0 +1,251 @@
+import { describe, expect, it } from "vitest";
+import {
+  createPageSync,
+  createRoom,
+  diffState,
+  followBroadcast,
+  INITIAL_SHARED_STATE,
+  join,
+  leave,
+  parseClientMessage,
+  receive,
+  sentState,
+  type Outgoing,
+  type PageSync,
+  type Room,
+  type SharedState,
+} from "./protocol";
+
+const STARTED: SharedState = { phase: "ready", litCandleIds: ["c1", "c2"], activeItemId: null };
+
+function roomWith(...names: string[]): Room {
+  return names.reduce((room, name) => join(room, name, name)[0], createRoom());
+}
+
+const broadcasts = (outgoing: Outgoing[]) =>
+  outgoing.flatMap(({ message }) => (message.type === "state" ? [message] : []));
+
+describe("join", () => {
+  it("welcomes the new guest with the room so far and tells the others", () => {
+    const [room, outgoing] = join(roomWith("a"), "b", "Bea");
+
+    expect(room.guests.map((guest) => guest.id)).toEqual(["a", "b"]);
+    expect(outgoing).toEqual([
+      {
+        to: "b",
+        message: {
+          type: "welcome",
+          you: "b",
+          state: null,
+          revision: 0,
+          guests: [room.guests[0]],
+        },
+      },
+      { except: "b", message: { type: "joined", guest: room.guests[1] } },
+    ]);
+  });
+
+  it("names and colours guests who gave no name", () => {
+    const [room] = join(roomWith("a"), "b", "");
+
+    expect(room.guests[1].name).toBe("guest 2");
+    expect(room.guests[1].color).not.toBe(room.guests[0].color);
+  });
+});
+
+describe("leave", () => {
+  it("drops the guest and tells the others", () => {
+    const [room, outgoing] = leave(roomWith("a", "b"), "a");
+
+    expect(room.guests.map((guest) => guest.id)).toEqual(["b"]);
+    expect(outgoing).toEqual([{ except: "a", message: { type: "left", id: "a" } }]);
+  });
+
+  it("ignores guests who never joined", () => {
+    const before = roomWith("a");
+
+    expect(leave(before, "z")).toEqual([before, []]);
+  });
+});
+
+describe("receive", () => {
+  it("seeds the state from the first patch and bumps the revision", () => {
+    const [room, outgoing] = receive(roomWith("a"), "a", {
+      type: "state",
+      state: { phase: "typing" },
+    });
+
+    expect(room.state).toEqual({ ...INITIAL_SHARED_STATE, phase: "typing" });
+    expect(room.revision).toBe(1);
+    expect(outgoing).toEqual([
+      { message: { type: "state", state: room.state, revision: 1, from: "a" } },
+    ]);
+  });
+
+  it("merges later patches into the state", () => {
+    const [seeded] = receive(roomWith("a", "b"), "a", { type: "state", state: STARTED });
+    const [room] = receive(seeded, "b", { type: "state", state: { activeItemId: "card1" } });
+
+    expect(room.state).toEqual({ ...STARTED, activeItemId: "card1" });
+    expect(room.revision).toBe(2);
+  });
+
+  it("refuses a second hello", () => {
+    const before = roomWith("a");
+    const [room, outgoing] = receive(before, "a", {
+      type: "hello",
+      version: 1,
+      room: "party",
+      name: "a",
+    });
+
+    expect(room).toBe(before);
+    expect(outgoing).toEqual([
+      { to: "a", message: { type: "error", message: "already joined" } },
+    ]);
+  });
+
+  it("passes cursors and cheers to everyone else", () => {
+    const [room, outgoing] = receive(roomWith("a", "b"), "a", {
+      type: "cursor",
+      position: [1, 0.08, 2],
+    });
+
+    expect(room.guests[0].cursor).toEqual([1, 0.08, 2]);
+    expect(outgoing).toEqual([
+      { except: "a", message: { type: "cursor", id: "a", position: [1, 0.08, 2] } },
+    ]);
+    expect(receive(room, "b", { type: "cheer" })[1]).toEqual([
+      { except: "b", message: { type: "cheer", id: "b" } },
+    ]);
+  });
+});
+
+describe("parseClientMessage", () => {
+  it("accepts well-formed messages", () => {
+    expect(
+      parseClientMessage('{"type":"hello","version":1,"room":"party","name":"  Sam  "}')
+    ).toEqual({ type: "hello", version: 1, room: "party", name: "Sam" });
+    expect(parseClientMessage('{"type":"state","state":{"activeItemId":null}}')).toEqual({
+      type: "state",
+      state: { activeItemId: null },
+    });
+  });
+
+  it("drops unknown fields from a state patch", () => {
+    expect(parseClientMessage('{"type":"state","state":{"phase":"ready","x":1}}')).toEqual({
+      type: "state",
+      state: { phase: "ready" },
+    });
+  });
+
+  it.each([
+    ["not JSON", "{"],
+    ["not an object", "[1]"],
+    ["an unknown type", '{"type":"shout"}'],
+    ["a hello without a room", '{"type":"hello","version":1,"name":"a"}'],
+    ["a non-string phase", '{"type":"state","state":{"phase":3}}'],
+    ["an empty phase", '{"type":"state","state":{"phase":""}}'],
+    ["candle ids that are not strings", '{"type":"state","state":{"litCandleIds":[1]}}'],
+    ["a cursor with two coordinates", '{"type":"cursor","position":[1,2]}'],
+    ["a cursor that is not finite", '{"type":"cursor","position":[1,2,"x"]}'],
+  ])("rejects %s", (_, raw) => {
+    expect(parseClientMessage(raw)).toBeNull();
+  });
+
+  it("rejects too many candles", () => {
+    const ids = Array.from({ length: 201 }, (_, index) => `c${index}`);
+
+    expect(
+      parseClientMessage(JSON.stringify({ type: "state", state: { litCandleIds: ids } }))
+    ).toBeNull();
+  });
+});
+
+describe("diffState", () => {
+  it("sends everything when nothing is shared yet", () => {
+    expect(diffState(null, STARTED)).toBe(STARTED);
+  });
+
+  it("sends only the changed fields, or nothing", () => {
+    expect(diffState(STARTED, { ...STARTED, litCandleIds: ["c1"] })).toEqual({
+      litCandleIds: ["c1"],
+    });
+    expect(diffState(STARTED, { ...STARTED, litCandleIds: ["c1", "c2"] })).toBeNull();
+  });
+});
+
+describe("page sync", () => {
+  /** One page: what it shows, and its view of the relay. */
+  type Page = { id: string; shows: SharedState; sync: PageSync };
+
+  const publish = (page: Page, local: SharedState) => {
+    const patch = diffState(page.sync.shared, local);
+    page.shows = local;
+    if (patch) {
+      page.sync = sentState(page.sync, local, patch);
+    }
+    return patch;
+  };
+
+  const deliver = (page: Page, outgoing: Outgoing[]) => {
+    for (const message of broadcasts(outgoing)) {
+      const [sync, follow] = followBroadcast(page.sync, page.id, message);
+      page.sync = sync;
+      page.shows = follow ?? page.shows;
+    }
+  };
+
+  function startedParty() {
+    const [room] = receive(roomWith("a", "b"), "a", { type: "state", state: STARTED });
+    const a: Page = { id: "a", shows: STARTED, sync: createPageSync(STARTED) };
+    const b: Page = { id: "b", shows: STARTED, sync: createPageSync(STARTED) };
+    return { room, a, b };
+  }
+
+  it("follows another guest's change", () => {
+    const { room, a, b } = startedParty();
+    const patch = publish(a, { ...STARTED, activeItemId: "card1" });
+    const [, outgoing] = receive(room, "a", { type: "state", state: patch! });
+    deliver(a, outgoing);
+    deliver(b, outgoing);
+
+    expect(b.shows.activeItemId).toBe("card1");
+    expect(diffState(b.sync.shared, b.shows)).toBeNull();
+  });
+
+  it("converges on the relay's order when two changes race", () => {
+    const { room, a, b } = startedParty();
+    const patchA = publish(a, { ...STARTED, activeItemId: "card1" });
+    const patchB = publish(b, { ...STARTED, activeItemId: "frame2" });
+
+    // The relay gets A's patch first, so B's wins
+    const [afterA, fromA] = receive(room, "a", { type: "state", state: patchA! });
+    const [settled, fromB] = receive(afterA, "b", { type: "state", state: patchB! });
+    for (const page of [a, b]) {
+      deliver(page, fromA);
+      deliver(page, fromB);
+    }
+
+    expect(settled.state?.activeItemId).toBe("frame2");
+    expect(a.shows.activeItemId).toBe("frame2");
+    expect(b.shows.activeItemId).toBe("frame2");
+    // Neither page has anything left to send
+    expect(diffState(a.sync.shared, a.shows)).toBeNull();
+    expect(diffState(b.sync.shared, b.shows)).toBeNull();
+  });
+
+  it("keeps its own newer change while older ones echo back", () => {
+    const { room, a } = startedParty();
+    const patch1 = publish(a, { ...STARTED, activeItemId: "card1" });
+    const patch2 = publish(a, { ...STARTED, activeItemId: "frame2" });
+    const [first, echo1] = receive(room, "a", { type: "state", state: patch1! });
+    const [, echo2] = receive(first, "a", { type: "state", state: patch2! });
+
+    deliver(a, echo1);
+    expect(a.shows.activeItemId).toBe("frame2");
+    deliver(a, echo2);
+    expect(a.shows.activeItemId).toBe("frame2");
+    expect(a.sync.pending).toBe(0);
+  });
+});
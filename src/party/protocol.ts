@@ -0,0 +1,340 @@
+/**
+ * The party-mode sync protocol, shared by the page and the relay server
+ * (server/relay.ts). Messages are JSON over a WebSocket.
+ *
+ *   guest → relay   hello, state, cursor, cheer
+ *   relay → guest   welcome, state, joined, left, cursor, cheer, error
+ *
+ * The relay keeps one shared state per room and a revision number. The
+ * first guest to start the experience seeds the state; after that a guest
+ * sends the fields it changed, and the relay applies them, bumps the
+ * revision and sends the whole state to everyone (the sender included), so
+ * every page converges on the relay's order of events. Nothing here touches a
+ * socket: `receive` is a pure reducer from a room and a message to the next
+ * room and the messages to send, which keeps the relay a thin I/O shell.
+ * `sentState` and `followBroadcast` do the same for a page's side.
+ */
+
+type Vec3 = [number, number, number];
+
+export const PROTOCOL_VERSION = 1;
+export const DEFAULT_RELAY_PORT = 8787;
+
+/** What every guest at the table sees the same way. */
+export type SharedState = {
+  /** An experience phase; pages ignore phases they don't know. */
+  phase: string;
+  litCandleIds: string[];
+  /** The card, frame or message brought up, if any. */
+  activeItemId: string | null;
+};
+
+export type Guest = {
+  id: string;
+  name: string;
+  color: string;
+  /** Where the guest is pointing on the table, or null when off it. */
+  cursor: Vec3 | null;
+};
+
+export type ClientMessage =
+  | { type: "hello"; version: number; room: string; name: string }
+  | { type: "state"; state: Partial<SharedState> }
+  | { type: "cursor"; position: Vec3 | null }
+  | { type: "cheer" };
+
+export type ServerMessage =
+  | {
+      type: "welcome";
+      you: string;
+      /** Null until a guest has started the experience. */
+      state: SharedState | null;
+      revision: number;
+      guests: Guest[];
+    }
+  | { type: "state"; state: SharedState; revision: number; from: string }
+  | { type: "joined"; guest: Guest }
+  | { type: "left"; id: string }
+  | { type: "cursor"; id: string; position: Vec3 | null }
+  | { type: "cheer"; id: string }
+  | { type: "error"; message: string };
+
+export type Room = {
+  state: SharedState | null;
+  revision: number;
+  guests: ReadonlyArray<Guest>;
+};
+
+/** A message to send: to one guest, or to the whole room but `except`. */
+export type Outgoing = {
+  message: ServerMessage;
+  to?: string;
+  except?: string;
+};
+
+export const INITIAL_SHARED_STATE: SharedState = {
+  phase: "idle",
+  litCandleIds: [],
+  activeItemId: null,
+};
+
+const GUEST_COLORS = ["#ff6f91", "#ffc75f", "#4ffbdf", "#845ec2", "#f9f871", "#00c9a7"];
+const MAX_NAME_LENGTH = 24;
+const MAX_ID_LENGTH = 64;
+const MAX_CANDLES = 200;
+
+export const createRoom = (): Room => ({
+  state: null,
+  revision: 0,
+  guests: [],
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isShortString = (value: unknown, max: number): value is string =>
+  typeof value === "string" && value.length > 0 && value.length <= max;
+
+const isPosition = (value: unknown): value is Vec3 =>
+  Array.isArray(value) &&
+  value.length === 3 &&
+  value.every((part) => typeof part === "number" && Number.isFinite(part));
+
+/** The valid fields of a state patch; anything else is dropped. */
+function parseStatePatch(value: unknown): Partial<SharedState> | null {
+  if (!isRecord(value)) {
+    return null;
+  }
+  const patch: Partial<SharedState> = {};
+  if (value.phase !== undefined) {
+    if (!isShortString(value.phase, MAX_ID_LENGTH)) {
+      return null;
+    }
+    patch.phase = value.phase;
+  }
+  if (value.litCandleIds !== undefined) {
+    const ids = value.litCandleIds;
+    if (
+      !Array.isArray(ids) ||
+      ids.length > MAX_CANDLES ||
+      !ids.every((id) => isShortString(id, MAX_ID_LENGTH))
+    ) {
+      return null;
+    }
+    patch.litCandleIds = ids;
+  }
+  if (value.activeItemId !== undefined) {
+    if (value.activeItemId !== null && !isShortString(value.activeItemId, MAX_ID_LENGTH)) {
+      return null;
+    }
+    patch.activeItemId = value.activeItemId;
+  }
+  return patch;
+}
+
+/** Parses and validates a guest's message; null for anything malformed. */
+export function parseClientMessage(raw: string): ClientMessage | null {
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (!isRecord(value)) {
+    return null;
+  }
+  switch (value.type) {
+    case "hello":
+      return typeof value.version === "number" &&
+        isShortString(value.room, MAX_ID_LENGTH) &&
+        typeof value.name === "string"
+        ? {
+            type: "hello",
+            version: value.version,
+            room: value.room,
+            name: value.name.trim().slice(0, MAX_NAME_LENGTH),
+          }
+        : null;
+    case "state": {
+      const state = parseStatePatch(value.state);
+      return state ? { type: "state", state } : null;
+    }
+    case "cursor":
+      return value.position === null || isPosition(value.position)
+        ? { type: "cursor", position: value.position }
+        : null;
+    case "cheer":
+      return { type: "cheer" };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parses a relay message. The relay is trusted to speak the protocol, so
+ * this only checks the envelope.
+ */
+export function parseServerMessage(raw: string): ServerMessage | null {
+  try {
+    const value: unknown = JSON.parse(raw);
+    return isRecord(value) && typeof value.type === "string"
+      ? (value as ServerMessage)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Adds a guest who has said hello, and tells everyone. */
+export function join(room: Room, id: string, name: string): [Room, Outgoing[]] {
+  const guest: Guest = {
+    id,
+    name: name || `guest ${room.guests.length + 1}`,
+    color: GUEST_COLORS[room.guests.length % GUEST_COLORS.length],
+    cursor: null,
+  };
+  const next: Room = { ...room, guests: [...room.guests, guest] };
+  return [
+    next,
+    [
+      {
+        to: id,
+        message: {
+          type: "welcome",
+          you: id,
+          state: next.state,
+          revision: next.revision,
+          guests: next.guests.filter((other) => other.id !== id),
+        },
+      },
+      { except: id, message: { type: "joined", guest } },
+    ],
+  ];
+}
+
+export function leave(room: Room, id: string): [Room, Outgoing[]] {
+  if (!room.guests.some((guest) => guest.id === id)) {
+    return [room, []];
+  }
+  return [
+    { ...room, guests: room.guests.filter((guest) => guest.id !== id) },
+    [{ except: id, message: { type: "left", id } }],
+  ];
+}
+
+/** Applies a message from a guest already in the room. */
+export function receive(
+  room: Room,
+  from: string,
+  message: ClientMessage
+): [Room, Outgoing[]] {
+  switch (message.type) {
+    case "hello":
+      // Only the first message may be a hello; the relay handles that one
+      return [room, [{ to: from, message: { type: "error", message: "already joined" } }]];
+    case "state": {
+      const state = { ...(room.state ?? INITIAL_SHARED_STATE), ...message.state };
+      const revision = room.revision + 1;
+      return [
+        { ...room, state, revision },
+        [{ message: { type: "state", state, revision, from } }],
+      ];
+    }
+    case "cursor":
+      return [
+        {
+          ...room,
+          guests: room.guests.map((guest) =>
+            guest.id === from ? { ...guest, cursor: message.position } : guest
+          ),
+        },
+        [
+          {
+            except: from,
+            message: { type: "cursor", id: from, position: message.position },
+          },
+        ],
+      ];
+    case "cheer":
+      return [room, [{ except: from, message: { type: "cheer", id: from } }]];
+  }
+}
+
+const sameIds = (a: ReadonlyArray<string>, b: ReadonlyArray<string>) =>
+  a.length === b.length && a.every((id, index) => id === b[index]);
+
+/**
+ * The fields of `local` that differ from `shared`, or null if none do. With
+ * no shared state yet, all of `local` seeds it.
+ */
+export function diffState(
+  shared: SharedState | null,
+  local: SharedState
+): Partial<SharedState> | null {
+  if (!shared) {
+    return local;
+  }
+  const patch: Partial<SharedState> = {};
+  if (local.phase !== shared.phase) {
+    patch.phase = local.phase;
+  }
+  if (!sameIds(local.litCandleIds, shared.litCandleIds)) {
+    patch.litCandleIds = local.litCandleIds;
+  }
+  if (local.activeItemId !== shared.activeItemId) {
+    patch.activeItemId = local.activeItemId;
+  }
+  return Object.keys(patch).length > 0 ? patch : null;
+}
+
+/** A page's view of the room's state; see sentState and followBroadcast. */
+export type PageSync = {
+  /** The relay's state, as far as this page knows. */
+  shared: SharedState | null;
+  /** What the page shows. */
+  local: SharedState | null;
+  /** Patches sent that the relay has not broadcast back yet. */
+  pending: number;
+};
+
+export const createPageSync = (state: SharedState | null = null): PageSync => ({
+  shared: state,
+  local: state,
+  pending: 0,
+});
+
+/** Records a patch (from diffState) the page has sent. */
+export const sentState = (
+  sync: PageSync,
+  local: SharedState,
+  patch: Partial<SharedState>
+): PageSync => ({
+  shared: sync.shared ? { ...sync.shared, ...patch } : local,
+  local,
+  pending: sync.pending + 1,
+});
+
+/**
+ * Takes in a state broadcast. Returns the next sync and the state the page
+ * should switch to, or null to keep what it shows. The page's own patches
+ * come back too: once the last of them is in, a difference means another
+ * guest's change landed after it, and the page follows the relay's order.
+ */
+export function followBroadcast(
+  sync: PageSync,
+  self: string | null,
+  message: { state: SharedState; from: string }
+): [PageSync, SharedState | null] {
+  const isOwn = message.from === self;
+  const pending = isOwn ? Math.max(0, sync.pending - 1) : sync.pending;
+  const follow =
+    !isOwn || (pending === 0 && (!sync.local || diffState(sync.local, message.state) !== null));
+  return [
+    {
+      shared: message.state,
+      local: follow ? message.state : sync.local,
+      pending,
+    },
+    follow ? message.state : null,
+  ];
+}
@@ -0,0 +1,190 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { PartyOptions } from "./partyFlag";
+import {
+  createPageSync,
+  diffState,
+  followBroadcast,
+  parseServerMessage,
+  PROTOCOL_VERSION,
+  sentState,
+  type ClientMessage,
+  type Guest,
+  type SharedState,
+} from "./protocol";
+
+export type PartyStatus = "connecting" | "connected" | "disconnected";
+
+type UsePartySyncOptions = {
+  /** Null when the page is not in party mode. */
+  party: PartyOptions | null;
+  /** Another guest changed the shared state. */
+  onRemoteState: (state: SharedState) => void;
+  onCheer?: (guest: Guest) => void;
+};
+
+const RECONNECT_MIN_MS = 1000;
+const RECONNECT_MAX_MS = 10_000;
+
+/**
+ * Keeps this page in a party room on the relay. Local changes go out with
+ * `publish`, which sends only what differs from the last shared state, so
+ * applying a remote change and publishing it back is a no-op. When another
+ * guest's change races one of ours, the page ends up on whichever the relay
+ * applied last. A dropped connection is retried with a growing delay.
+ */
+export function usePartySync({ party, onRemoteState, onCheer }: UsePartySyncOptions) {
+  const [status, setStatus] = useState<PartyStatus>("connecting");
+  const [guests, setGuests] = useState<ReadonlyArray<Guest>>([]);
+  const socketRef = useRef<WebSocket | null>(null);
+  const selfRef = useRef<string | null>(null);
+  const syncRef = useRef(createPageSync());
+  const guestsRef = useRef(guests);
+  const onRemoteStateRef = useRef(onRemoteState);
+  const onCheerRef = useRef(onCheer);
+
+  useEffect(() => {
+    onRemoteStateRef.current = onRemoteState;
+    onCheerRef.current = onCheer;
+  }, [onRemoteState, onCheer]);
+
+  useEffect(() => {
+    guestsRef.current = guests;
+  }, [guests]);
+
+  const room = party?.room;
+  const server = party?.server;
+  const name = party?.name;
+
+  useEffect(() => {
+    if (room === undefined || server === undefined) {
+      return;
+    }
+    let closed = false;
+    let retryTimer = 0;
+    let retryDelay = RECONNECT_MIN_MS;
+
+    const connect = () => {
+      setStatus("connecting");
+      const socket = new WebSocket(server);
+      socketRef.current = socket;
+
+      socket.addEventListener("open", () => {
+        const hello: ClientMessage = {
+          type: "hello",
+          version: PROTOCOL_VERSION,
+          room,
+          name: name ?? "",
+        };
+        socket.send(JSON.stringify(hello));
+      });
+
+      socket.addEventListener("message", (event) => {
+        const message = parseServerMessage(String(event.data));
+        if (!message) {
+          return;
+        }
+        switch (message.type) {
+          case "welcome":
+            retryDelay = RECONNECT_MIN_MS;
+            selfRef.current = message.you;
+            syncRef.current = createPageSync(message.state);
+            setGuests(message.guests);
+            setStatus("connected");
+            if (message.state) {
+              onRemoteStateRef.current(message.state);
+            }
+            break;
+          case "state": {
+            const [sync, follow] = followBroadcast(syncRef.current, selfRef.current, message);
+            syncRef.current = sync;
+            if (follow) {
+              onRemoteStateRef.current(follow);
+            }
+            break;
+          }
+          case "joined":
+            setGuests((current) => [...current, message.guest]);
+            break;
+          case "left":
+            setGuests((current) => current.filter((guest) => guest.id !== message.id));
+            break;
+          case "cursor":
+            setGuests((current) =>
+              current.map((guest) =>
+                guest.id === message.id ? { ...guest, cursor: message.position } : guest
+              )
+            );
+            break;
+          case "cheer": {
+            const guest = guestsRef.current.find((other) => other.id === message.id);
+            if (guest) {
+              onCheerRef.current?.(guest);
+            }
+            break;
+          }
+          case "error":
+            console.warn(`Party relay: ${message.message}`);
+            break;
+        }
+      });
+
+      socket.addEventListener("close", () => {
+        if (closed) {
+          return;
+        }
+        socketRef.current = null;
+        selfRef.current = null;
+        syncRef.current = createPageSync();
+        setGuests([]);
+        setStatus("disconnected");
+        retryTimer = window.setTimeout(connect, retryDelay);
+        retryDelay = Math.min(retryDelay * 2, RECONNECT_MAX_MS);
+      });
+    };
+
+    connect();
+    return () => {
+      closed = true;
+      window.clearTimeout(retryTimer);
+      socketRef.current?.close();
+      socketRef.current = null;
+      selfRef.current = null;
+      syncRef.current = createPageSync();
+    };
+  }, [room, server, name]);
+
+  const send = useCallback((message: ClientMessage) => {
+    const socket = socketRef.current;
+    if (socket && socket.readyState === WebSocket.OPEN && selfRef.current) {
+      socket.send(JSON.stringify(message));
+      return true;
+    }
+    return false;
+  }, []);
+
+  const publish = useCallback(
+    (local: SharedState) => {
+      const sync = syncRef.current;
+      const patch = diffState(sync.shared, local);
+      if (patch && send({ type: "state", state: patch })) {
+        syncRef.current = sentState(sync, local, patch);
+      } else {
+        syncRef.current = { ...sync, local };
+      }
+    },
+    [send]
+  );
+
+  const sendCursor = useCallback(
+    (position: [number, number, number] | null) => {
+      send({ type: "cursor", position });
+    },
+    [send]
+  );
+
+  const cheer = useCallback(() => {
+    send({ type: "cheer" });
+  }, [send]);
+
+  return { status, guests, publish, sendCursor, cheer };
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_CAKE_TOP,
+  layoutCandles,
+  pickCandlesToBlow,
+  type CandlePlacement,
+} from "./candles";
+
+const closestPair = (candles: ReadonlyArray<CandlePlacement>) => {
+  let closest = Infinity;
+  candles.forEach(({ position: a }, index) => {
+    for (const { position: b } of candles.slice(index + 1)) {
+      closest = Math.min(closest, Math.hypot(a[0] - b[0], a[2] - b[2]));
+    }
+  });
+  return closest;
+};
+
+describe("layoutCandles", () => {
+  it("puts a single candle in the middle", () => {
+    const layout = layoutCandles({ arrangement: "single" }, 30);
+
+    expect(layout.candles).toEqual([{ id: "candle-0", position: [0, 1.1, 0] }]);
+  });
+
+  it("uses the age when a ring has no count", () => {
+    expect(layoutCandles({ arrangement: "ring" }, 7).candles).toHaveLength(7);
+  });
+
+  it.each([2, 8, 30, 46, 60, 100, 200])("never stacks %i candles", (count) => {
+    const { candles, scale } = layoutCandles({ arrangement: "ring", count }, undefined);
+    const gap = closestPair(candles);
+
+    expect(candles).toHaveLength(count);
+    expect(new Set(candles.map((candle) => candle.id)).size).toBe(count);
+    expect(gap).toBeGreaterThan(0.05);
+    // The candles shrink with the spacing, so they stay apart
+    expect(gap).toBeGreaterThan(scale * 1.25);
+    for (const { position } of candles) {
+      expect(Math.hypot(position[0], position[2])).toBeLessThanOrEqual(
+        DEFAULT_CAKE_TOP.radius + 1e-3
+      );
+    }
+  });
+
+  it("draws the age in candles that fit on the top", () => {
+    const { candles } = layoutCandles({ arrangement: "numeral" }, 108);
+
+    expect(closestPair(candles)).toBeGreaterThan(0.05);
+    for (const { position } of candles) {
+      expect(Math.hypot(position[0], position[2])).toBeLessThanOrEqual(
+        DEFAULT_CAKE_TOP.radius + 1e-3
+      );
+    }
+  });
+});
+
+describe("pickCandlesToBlow", () => {
+  // A row along x on the cake top
+  const candles: CandlePlacement[] = [0, 0.1, 0.25, 0.5, -0.2].map((x, index) => ({
+    id: `c${index}`,
+    position: [x, 1.1, 0],
+  }));
+  const allLit = new Set(candles.map((candle) => candle.id));
+
+  it("puts out everything within reach, nearest first", () => {
+    // c4 is 0.32 away, just out of reach
+    expect(pickCandlesToBlow(candles, allLit, [0.12, 1.1, 0])).toEqual(["c1", "c0", "c2"]);
+  });
+
+  it("measures across the cake top, whatever the height", () => {
+    expect(pickCandlesToBlow(candles, allLit, [0.12, 3, 0])).toEqual(
+      pickCandlesToBlow(candles, allLit, [0.12, 1.1, 0])
+    );
+  });
+
+  it("takes the nearest candle when none is within reach", () => {
+    expect(pickCandlesToBlow(candles, allLit, [1.5, 1.1, 0.5])).toEqual(["c3"]);
+  });
+
+  it("ignores candles that are already out", () => {
+    const lit = new Set(["c2", "c3"]);
+
+    expect(pickCandlesToBlow(candles, lit, [0, 1.1, 0])).toEqual(["c2"]);
+    expect(pickCandlesToBlow(candles, new Set(["c3"]), [-0.2, 1.1, 0])).toEqual(["c3"]);
+  });
+
+  it("has nothing to blow out when no candle is lit", () => {
+    expect(pickCandlesToBlow(candles, new Set(), [0, 1.1, 0])).toEqual([]);
+    expect(pickCandlesToBlow([], allLit, [0, 1.1, 0])).toEqual([]);
+  });
+});
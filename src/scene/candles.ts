@@ -0,0 +1,211 @@
+import type { Vec3 } from "./manifest";
+
+export type CandleArrangement = "single" | "ring" | "numeral";
+
+export type CandlesConfig = {
+  arrangement: CandleArrangement;
+  /** Number of candles for "ring"; defaults to the recipient's age. */
+  count?: number;
+};
+
+export type CandlePlacement = {
+  id: string;
+  position: Vec3;
+};
+
+export type CandleLayout = {
+  candles: CandlePlacement[];
+  scale: number;
+};
+
+export type CakeTop = {
+  /** Height of the cake's top surface, where candle bases sit. */
+  height: number;
+  /** Usable radius of the top surface. */
+  radius: number;
+};
+
+export const DEFAULT_CAKE_TOP: CakeTop = { height: 1.1, radius: 0.55 };
+
+const SINGLE_SCALE = 0.25;
+const CLUSTER_SCALE = 0.12;
+const RING_SPACING = 0.16;
+const DIGIT_WIDTH = 0.2;
+const DIGIT_HEIGHT = 0.36;
+const DIGIT_GAP = 0.1;
+const SEGMENT_STEP = 0.09;
+
+const candleId = (index: number) => `candle-${index}`;
+
+const round = (value: number) => Math.round(value * 1e4) / 1e4;
+
+const toPlacements = (points: Array<[number, number]>, height: number) =>
+  points.map(([x, z], index) => ({
+    id: candleId(index),
+    position: [round(x), height, round(z)] as Vec3,
+  }));
+
+const ringCapacity = (ringRadius: number, spacing: number) =>
+  Math.max(1, Math.floor((2 * Math.PI * ringRadius) / spacing));
+
+/** How many candles rings `spacing` apart hold, with one more in the middle. */
+function ringsCapacity(outerRadius: number, spacing: number) {
+  let total = 1;
+  for (let ringRadius = outerRadius; ringRadius >= spacing / 2; ringRadius -= spacing) {
+    total += ringCapacity(ringRadius, spacing);
+  }
+  return total;
+}
+
+/**
+ * Concentric rings filled from the outside in, so a handful of candles sits
+ * near the rim and large counts pack towards the middle. Counts the top
+ * can't hold at the usual spacing close the rings up instead of stacking.
+ */
+function ringPoints(count: number, radius: number) {
+  const points: Array<[number, number]> = [];
+  const outerRadius = count <= 8 ? radius * 0.6 : radius;
+  let spacing = RING_SPACING;
+  while (ringsCapacity(outerRadius, spacing) < count) {
+    spacing *= 0.95;
+  }
+
+  let remaining = count;
+  for (let ringRadius = outerRadius; remaining > 0; ringRadius -= spacing) {
+    if (ringRadius < spacing / 2 || remaining === 1) {
+      points.push([0, 0]);
+      break;
+    }
+    const onRing = Math.min(ringCapacity(ringRadius, spacing), remaining);
+    for (let i = 0; i < onRing; i += 1) {
+      const angle = (i / onRing) * Math.PI * 2;
+      points.push([Math.cos(angle) * ringRadius, Math.sin(angle) * ringRadius]);
+    }
+    remaining -= onRing;
+  }
+  return { points, spacing };
+}
+
+// Seven-segment encoding: top, top-right, bottom-right, bottom, bottom-left, top-left, middle
+const DIGIT_SEGMENTS: Record<string, string> = {
+  "0": "1111110",
+  "1": "0110000",
+  "2": "1101101",
+  "3": "1111001",
+  "4": "0110011",
+  "5": "1011011",
+  "6": "1011111",
+  "7": "1110000",
+  "8": "1111111",
+  "9": "1111011",
+};
+
+type Segment = [[number, number], [number, number]];
+
+const segmentLines = (w: number, h: number): Segment[] => [
+  [[0, h], [w, h]],
+  [[w, h], [w, h / 2]],
+  [[w, h / 2], [w, 0]],
+  [[0, 0], [w, 0]],
+  [[0, h / 2], [0, 0]],
+  [[0, h], [0, h / 2]],
+  [[0, h / 2], [w, h / 2]],
+];
+
+/** Candle points (u right, v up) tracing a number in seven-segment style. */
+function numeralPoints(value: number): Array<[number, number]> {
+  const digits = String(Math.max(0, Math.floor(value)));
+  const lines = segmentLines(DIGIT_WIDTH, DIGIT_HEIGHT);
+  const keys = new Set<string>();
+  const points: Array<[number, number]> = [];
+  const totalWidth = digits.length * DIGIT_WIDTH + (digits.length - 1) * DIGIT_GAP;
+
+  [...digits].forEach((digit, digitIndex) => {
+    const originU = digitIndex * (DIGIT_WIDTH + DIGIT_GAP) - totalWidth / 2;
+    const originV = -DIGIT_HEIGHT / 2;
+    const mask = DIGIT_SEGMENTS[digit];
+    lines.forEach(([[u0, v0], [u1, v1]], segmentIndex) => {
+      if (mask[segmentIndex] !== "1") {
+        return;
+      }
+      const length = Math.hypot(u1 - u0, v1 - v0);
+      const steps = Math.max(1, Math.round(length / SEGMENT_STEP));
+      for (let i = 0; i <= steps; i += 1) {
+        const u = originU + u0 + ((u1 - u0) * i) / steps;
+        const v = originV + v0 + ((v1 - v0) * i) / steps;
+        // Segments share their end points; only place one candle there
+        const key = `${u.toFixed(3)}:${v.toFixed(3)}`;
+        if (!keys.has(key)) {
+          keys.add(key);
+          points.push([u, v]);
+        }
+      }
+    });
+  });
+  return points;
+}
+
+/**
+ * Places candles on the cake top. Numerals are laid out to read correctly
+ * from the default camera, which looks along -X (screen right is -Z).
+ */
+export function layoutCandles(
+  config: CandlesConfig,
+  age: number | undefined,
+  top: CakeTop = DEFAULT_CAKE_TOP
+): CandleLayout {
+  switch (config.arrangement) {
+    case "single":
+      return {
+        candles: toPlacements([[0, 0]], top.height),
+        scale: SINGLE_SCALE,
+      };
+    case "ring": {
+      const count = Math.max(1, Math.floor(config.count ?? age ?? 1));
+      const { points, spacing } = ringPoints(count, top.radius);
+      return {
+        candles: toPlacements(points, top.height),
+        // Closer rings get thinner candles, so neighbours don't overlap
+        scale:
+          count === 1 ? SINGLE_SCALE : CLUSTER_SCALE * Math.min(1, spacing / RING_SPACING),
+      };
+    }
+    case "numeral": {
+      const points = numeralPoints(age ?? config.count ?? 1);
+      const extent = Math.max(...points.map(([u, v]) => Math.hypot(u, v)), 1e-6);
+      const fit = Math.min(1, top.radius / extent);
+      return {
+        candles: toPlacements(
+          points.map(([u, v]) => [-v * fit, -u * fit]),
+          top.height
+        ),
+        scale: CLUSTER_SCALE * fit,
+      };
+    }
+  }
+}
+
+const BLOW_RADIUS = 0.3;
+
+/**
+ * Orders the lit candles a single blow reaches: everything within
+ * BLOW_RADIUS of the blow point on the cake top, nearest first, or just the
+ * nearest candle when none is that close.
+ */
+export function pickCandlesToBlow(
+  candles: ReadonlyArray<CandlePlacement>,
+  litIds: ReadonlySet<string>,
+  origin: Vec3
+): string[] {
+  const distanceTo = ({ position }: CandlePlacement) =>
+    Math.hypot(position[0] - origin[0], position[2] - origin[2]);
+  const lit = candles
+    .filter((candle) => litIds.has(candle.id))
+    .map((candle) => ({ id: candle.id, distance: distanceTo(candle) }))
+    .sort((a, b) => a.distance - b.distance);
+  if (lit.length === 0) {
+    return [];
+  }
+  const reached = lit.filter((candle) => candle.distance <= BLOW_RADIUS);
+  return (reached.length > 0 ? reached : lit.slice(0, 1)).map((candle) => candle.id);
+}
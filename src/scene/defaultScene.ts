@@ -0,0 +1,73 @@
+import {
+  DEFAULT_BLOW,
+  DEFAULT_CANDLES,
+  DEFAULT_CELEBRATION,
+  DEFAULT_TIMINGS,
+  type SceneManifest,
+} from "./manifest";
+
+/** Built-in scene used when the page is opened without a `?scene=` parameter. */
+export const DEFAULT_SCENE: SceneManifest = {
+  recipient: {
+    name: "juliana",
+  },
+  typedLines: [
+    "> juliana",
+    "...",
+    "> since i cant meet you in person",
+    "...",
+    "> welcome to our online dinner table hehe",
+    "...",
+    "> hope you enjoy this virtual meal",
+    "...",
+    "٩(◕‿◕)۶ ٩(◕‿◕)۶ ٩(◕‿◕)۶",
+  ],
+  cards: [
+    {
+      id: "confetti",
+      image: "/card.png",
+      position: [1, 0.081, -2],
+      rotation: [-Math.PI / 2, 0, Math.PI / 3],
+    },
+  ],
+  frames: [
+    {
+      id: "frame1",
+      image: "/frame2.jpg",
+      position: [0, 0.735, 3],
+      rotation: [0, 5.6, 0],
+      scale: 0.75,
+    },
+    {
+      id: "frame2",
+      image: "/frame3.jpg",
+      position: [0, 0.735, -3],
+      rotation: [0, 4.0, 0],
+      scale: 0.75,
+    },
+    {
+      id: "frame3",
+      image: "/frame4.jpg",
+      position: [-1.5, 0.735, 2.5],
+      rotation: [0, 5.4, 0],
+      scale: 0.75,
+    },
+    {
+      id: "frame4",
+      image: "/frame1.jpg",
+      position: [-1.5, 0.735, -2.5],
+      rotation: [0, 4.2, 0],
+      scale: 0.75,
+    },
+  ],
+  contributors: [],
+  music: "/music.mp3",
+  environment: {
+    file: "/shanghai_bund_4k.hdr",
+    rotation: 3.3,
+  },
+  candles: DEFAULT_CANDLES,
+  blow: DEFAULT_BLOW,
+  celebration: DEFAULT_CELEBRATION,
+  timings: DEFAULT_TIMINGS,
+};
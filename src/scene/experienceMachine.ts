@@ -0,0 +1,123 @@
+/**
+ * The experience flow as an explicit state machine:
+ *
+ *   idle → typing → sceneIntro → (singing →) ready ⇄ celebrating → cutting
+ *
+ * The sing-along only happens when the scene has a song: the intro then
+ * ends with START_SONG instead of INTRO_DONE.
+ * Once the candles are out, the cake can be cut and served (cutting).
+ * Controls can short-circuit it (skip the intro, jump to the celebration or
+ * replay from the start), and the phase is persisted so a reload picks up
+ * where the recipient left off. In party mode, SYNC follows the phase of
+ * another guest's page wherever it is.
+ */
+
+export type ExperiencePhase =
+  | "idle"
+  | "typing"
+  | "sceneIntro"
+  | "singing"
+  | "ready"
+  | "celebrating"
+  | "cutting";
+
+export type ExperienceEvent =
+  | { type: "START" }
+  | { type: "RESUME"; phase: ExperiencePhase }
+  | { type: "SYNC"; phase: ExperiencePhase }
+  | { type: "TYPING_DONE" }
+  | { type: "INTRO_DONE" }
+  | { type: "START_SONG" }
+  | { type: "SONG_DONE" }
+  | { type: "CANDLES_OUT" }
+  | { type: "RELIGHT" }
+  | { type: "SKIP_INTRO" }
+  | { type: "CELEBRATE" }
+  | { type: "CUT_CAKE" }
+  | { type: "REPLAY" };
+
+type EventType = ExperienceEvent["type"];
+
+const TRANSITIONS: Record<
+  ExperiencePhase,
+  Partial<Record<Exclude<EventType, "RESUME" | "SYNC">, ExperiencePhase>>
+> = {
+  idle: { START: "typing" },
+  typing: { TYPING_DONE: "sceneIntro", SKIP_INTRO: "ready", REPLAY: "typing" },
+  sceneIntro: {
+    INTRO_DONE: "ready",
+    START_SONG: "singing",
+    SKIP_INTRO: "ready",
+    REPLAY: "typing",
+  },
+  singing: {
+    SONG_DONE: "ready",
+    SKIP_INTRO: "ready",
+    CELEBRATE: "celebrating",
+    REPLAY: "typing",
+  },
+  ready: { CANDLES_OUT: "celebrating", CELEBRATE: "celebrating", REPLAY: "typing" },
+  celebrating: { RELIGHT: "ready", CUT_CAKE: "cutting", REPLAY: "typing" },
+  cutting: { REPLAY: "typing" },
+};
+
+const PHASE_ORDER: ReadonlyArray<ExperiencePhase> = [
+  "idle",
+  "typing",
+  "sceneIntro",
+  "singing",
+  "ready",
+  "celebrating",
+  "cutting",
+];
+
+/** Returns the next phase, or the current one if the event does not apply. */
+export function transition(
+  phase: ExperiencePhase,
+  event: ExperienceEvent
+): ExperiencePhase {
+  if (event.type === "RESUME") {
+    return phase === "idle" && event.phase !== "idle" ? event.phase : phase;
+  }
+  if (event.type === "SYNC") {
+    return event.phase;
+  }
+  return TRANSITIONS[phase][event.type] ?? phase;
+}
+
+/** True once the flow has reached (or passed) the given phase. */
+export const hasReached = (phase: ExperiencePhase, target: ExperiencePhase) =>
+  PHASE_ORDER.indexOf(phase) >= PHASE_ORDER.indexOf(target);
+
+export const canSkipIntro = (phase: ExperiencePhase) =>
+  phase === "typing" || phase === "sceneIntro" || phase === "singing";
+
+export const isPhase = (value: unknown): value is ExperiencePhase =>
+  PHASE_ORDER.includes(value as ExperiencePhase);
+
+const storageKey = (recipient: string) => `birthday-cake:phase:${recipient}`;
+
+export function loadPersistedPhase(recipient: string): ExperiencePhase {
+  try {
+    const stored = window.localStorage.getItem(storageKey(recipient));
+    // A reload mid-song picks up after it rather than singing again
+    if (stored === "singing") {
+      return "ready";
+    }
+    // The cuts are not kept, so the cake comes back whole
+    if (stored === "cutting") {
+      return "celebrating";
+    }
+    return isPhase(stored) ? stored : "idle";
+  } catch {
+    return "idle";
+  }
+}
+
+export function persistPhase(recipient: string, phase: ExperiencePhase) {
+  try {
+    window.localStorage.setItem(storageKey(recipient), phase);
+  } catch {
+    // Storage can be unavailable (private mode, quota); resuming is optional
+  }
+}
@@ -0,0 +1,121 @@
+import type { TimelineDefinition } from "../timeline/timeline";
+import type { SceneTimings } from "./manifest";
+
+const CAKE_START_Y = 10;
+const CAKE_END_Y = 0;
+
+const TABLE_START_Z = 30;
+const TABLE_END_Z = 0;
+
+const CANDLE_START_Y = 5;
+const CANDLE_END_Y = 0;
+
+const BACKGROUND_FADE_OFFSET = 0;
+
+/** Track names used by the intro; AnimatedScene binds its groups to these. */
+export const INTRO_TARGETS = {
+  cake: "cake",
+  table: "table",
+  candles: "candles",
+  background: "background",
+} as const;
+
+/** Marker names fired as the intro passes each beat. */
+export const INTRO_MARKERS = {
+  tableArrived: "tableArrived",
+  cakeLanded: "cakeLanded",
+  candlesDropping: "candlesDropping",
+  candlesLanded: "candlesLanded",
+} as const;
+
+/**
+ * The intro choreography: the cake spins down from above, the table slides
+ * in underneath just before it lands, then the candles drop while the
+ * terminal background fades into the environment.
+ */
+export function createIntroTimeline(timings: SceneTimings): TimelineDefinition {
+  const tableSlideStart = Math.max(
+    timings.cakeDescent - timings.tableSlide - 0.1,
+    0
+  );
+  const tableSlideEnd = tableSlideStart + timings.tableSlide;
+  const candleDropStart = Math.max(timings.cakeDescent, tableSlideEnd) + 1.0;
+  const candleDropEnd = candleDropStart + timings.candleDrop;
+  const backgroundFadeEnd = Math.max(
+    candleDropStart - BACKGROUND_FADE_OFFSET,
+    timings.backgroundFade
+  );
+  const backgroundFadeStart = Math.max(
+    backgroundFadeEnd - timings.backgroundFade,
+    0
+  );
+
+  return {
+    tracks: {
+      [INTRO_TARGETS.cake]: {
+        position: [
+          { time: 0, value: [0, CAKE_START_Y, 0] },
+          {
+            time: timings.cakeDescent,
+            value: [0, CAKE_END_Y, 0],
+            easing: "easeOutCubic",
+          },
+        ],
+        rotation: [
+          { time: 0, value: [0, 0, 0] },
+          {
+            time: timings.cakeDescent,
+            value: [0, Math.PI * 2, 0],
+            easing: "easeOutCubic",
+          },
+          // Settle on the equivalent zero rotation once it has landed
+          { time: candleDropEnd, value: [0, 0, 0], easing: "step" },
+        ],
+      },
+      [INTRO_TARGETS.table]: {
+        position: [
+          { time: 0, value: [0, 0, TABLE_START_Z] },
+          { time: tableSlideStart, value: [0, 0, TABLE_START_Z] },
+          {
+            time: tableSlideEnd,
+            value: [0, 0, TABLE_END_Z],
+            easing: "easeOutCubic",
+          },
+        ],
+        rotation: [{ time: 0, value: [0, 0, 0] }],
+      },
+      [INTRO_TARGETS.candles]: {
+        position: [
+          { time: 0, value: [0, CANDLE_START_Y, 0] },
+          { time: candleDropStart, value: [0, CANDLE_START_Y, 0] },
+          {
+            time: candleDropEnd,
+            value: [0, CANDLE_END_Y, 0],
+            easing: "easeOutCubic",
+          },
+        ],
+        visible: [
+          { time: 0, value: false },
+          { time: candleDropStart, value: true, easing: "step" },
+        ],
+      },
+      [INTRO_TARGETS.background]: {
+        opacity: [
+          { time: 0, value: 1 },
+          { time: backgroundFadeStart, value: 1 },
+          {
+            time: backgroundFadeStart + timings.backgroundFade,
+            value: 0,
+            easing: "easeOutCubic",
+          },
+        ],
+      },
+    },
+    markers: [
+      { time: tableSlideEnd, name: INTRO_MARKERS.tableArrived },
+      { time: timings.cakeDescent, name: INTRO_MARKERS.cakeLanded },
+      { time: candleDropStart, name: INTRO_MARKERS.candlesDropping },
+      { time: candleDropEnd, name: INTRO_MARKERS.candlesLanded },
+    ],
+  };
+}
@@ -0,0 +1,528 @@
+import type { CandlesConfig } from "./candles";
+import { DEFAULT_CAKE, type CakeConfig, type CakeTier } from "../cake/layout";
+import {
+  DEFAULT_CROSSFADE,
+  type MusicConfig,
+  type SoundFiles,
+} from "../audio/audioManager";
+import type { CardMessage } from "../cards/cardMessage";
+import type { CardTemplate } from "../cards/cardTemplate";
+import type { FocalPoint, FrameOrientation, PhotoFit } from "../frames/fit";
+import type { FramePhoto } from "../frames/gallery";
+import type { Contributor } from "../messages/contributor";
+import {
+  PALETTE_NAMES,
+  shellTime,
+  type FireworkShow,
+  type ShellConfig,
+} from "../fireworks/show";
+import {
+  compileScript,
+  type TypedLineConfig,
+  type TypedScriptLine,
+} from "../typewriter/script";
+import {
+  array,
+  boolean,
+  either,
+  formatIssues,
+  number,
+  object,
+  optional,
+  record,
+  string,
+  oneOf,
+  vec2,
+  vec3,
+  withDefault,
+  type SchemaIssue,
+  type Validator,
+} from "./schema";
+
+export type Vec3 = [number, number, number];
+
+export type BirthdayCardConfig = {
+  id: string;
+  /** Front artwork: a raster image, or an HTML template rendered at runtime. */
+  image?: string;
+  template?: CardTemplate;
+  position: Vec3;
+  rotation: Vec3;
+  /** Written on the back; the card turns over on a second click. */
+  message?: CardMessage;
+};
+
+export type PictureFrameConfig = {
+  id: string;
+  /** A single photo, or `photos` for a gallery the viewer can page through. */
+  image?: string;
+  photos?: FramePhoto[];
+  /** Seconds between photos while the frame is unfocused; 0 to disable. */
+  slideshowInterval?: number;
+  /** "cover" (default) crops around `focalPoint`, "contain" shows it all. */
+  fit?: PhotoFit;
+  focalPoint?: FocalPoint;
+  /** "auto" (default) turns the frame to match each photo's shape. */
+  orientation?: FrameOrientation;
+  position: Vec3;
+  rotation: Vec3;
+  scale: number;
+};
+
+export type EnvironmentConfig = {
+  file: string;
+  /** Y rotation (radians) applied to both the background and the lighting. */
+  rotation: number;
+};
+
+export type BlowConfig = {
+  /** Offer microphone blow detection alongside tap-to-blow. */
+  microphone: boolean;
+  /** 0 (needs a hard blow) to 1 (reacts to a light breath). */
+  sensitivity: number;
+};
+
+export type CelebrationEffect = "fireworks" | "confetti" | "balloons" | "sparklers";
+
+export type CelebrationConfig = {
+  /** Effects that play together once the candles are out. */
+  effects: CelebrationEffect[];
+};
+
+export type SingAlongConfig = {
+  /** Plays once the intro has finished; blowing out the candles waits for it. */
+  song: string;
+  /** Timed lyrics in LRC format; `{name}` and `{age}` are filled in. */
+  lyrics?: string;
+};
+
+/** How links to the page look when shared; see tools/ogTags.ts. */
+export type PreviewConfig = {
+  /** The preview picture (og:image), ideally 1200×630. */
+  image?: string;
+  description?: string;
+};
+
+/** All durations are in seconds except the typing delays, which are in ms. */
+export type SceneTimings = {
+  typedCharDelay: number;
+  postTypingDelay: number;
+  cakeDescent: number;
+  tableSlide: number;
+  candleDrop: number;
+  backgroundFade: number;
+};
+
+export type SceneManifest = {
+  recipient: {
+    name: string;
+    age?: number;
+  };
+  /** Intro script; see src/typewriter/script.ts for the line markup. */
+  typedLines: TypedScriptLine[];
+  cards: BirthdayCardConfig[];
+  frames: PictureFrameConfig[];
+  /** Friends' voice and video notes, placed on the table. */
+  contributors: Contributor[];
+  /** One looping file, or playlists for the intro and the celebration. */
+  music?: string | MusicConfig;
+  /** Recordings that replace the built-in sound effects. */
+  sounds?: SoundFiles;
+  singAlong?: SingAlongConfig;
+  environment?: EnvironmentConfig;
+  /** Settings for a generated cake; without them the built-in model is used. */
+  cake?: CakeConfig;
+  candles: CandlesConfig;
+  blow: BlowConfig;
+  /** The celebration's firework show; a built-in one plays if left out. */
+  fireworks?: FireworkShow;
+  celebration: CelebrationConfig;
+  preview?: PreviewConfig;
+  timings: SceneTimings;
+};
+
+export const DEFAULT_TIMINGS: SceneTimings = {
+  typedCharDelay: 100,
+  postTypingDelay: 1000,
+  cakeDescent: 3,
+  tableSlide: 0.7,
+  candleDrop: 1.2,
+  backgroundFade: 1,
+};
+
+export const DEFAULT_CANDLES: CandlesConfig = {
+  arrangement: "single",
+};
+
+export const DEFAULT_BLOW: BlowConfig = {
+  microphone: true,
+  sensitivity: 0.5,
+};
+
+export const CELEBRATION_EFFECTS: ReadonlyArray<CelebrationEffect> = [
+  "fireworks",
+  "confetti",
+  "balloons",
+  "sparklers",
+];
+
+export const DEFAULT_CELEBRATION: CelebrationConfig = {
+  effects: [...CELEBRATION_EFFECTS],
+};
+
+export class ManifestError extends Error {
+  readonly issues: ReadonlyArray<SchemaIssue>;
+  readonly source: string;
+
+  constructor(source: string, issues: ReadonlyArray<SchemaIssue>) {
+    super(
+      [`Invalid scene manifest (${source}):`, ...formatIssues(issues)].join("\n")
+    );
+    this.name = "ManifestError";
+    this.source = source;
+    this.issues = issues;
+  }
+}
+
+const duration = () => number({ min: 0 });
+
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+const color = () => string({ pattern: HEX_COLOR, expected: 'a colour like "#ff6f91"' });
+
+const photoFit = oneOf<PhotoFit>(["cover", "contain", "stretch"]);
+
+const birthdayCardSchema = object<BirthdayCardConfig>({
+  id: string({ nonEmpty: true }),
+  image: optional(string({ nonEmpty: true })),
+  template: optional(
+    object<CardTemplate>({
+      url: string({ nonEmpty: true }),
+      values: optional(record(string())),
+      width: optional(number({ min: 1, max: 4096, integer: true })),
+      height: optional(number({ min: 1, max: 4096, integer: true })),
+    })
+  ),
+  position: vec3(),
+  rotation: withDefault(vec3(), [0, 0, 0]),
+  message: optional(
+    object<CardMessage>({
+      text: string({ nonEmpty: true }),
+      font: optional(string({ nonEmpty: true })),
+      fontSize: optional(number({ min: 12, max: 160 })),
+      color: optional(string({ nonEmpty: true })),
+      background: optional(string({ nonEmpty: true })),
+      handwriting: optional(boolean()),
+    })
+  ),
+});
+
+const pictureFrameSchema = object<PictureFrameConfig>({
+  id: string({ nonEmpty: true }),
+  image: optional(string({ nonEmpty: true })),
+  photos: optional(
+    array(
+      object<FramePhoto>({
+        image: string({ nonEmpty: true }),
+        caption: optional(string()),
+        kind: optional(oneOf(["image", "video", "animated"])),
+        fit: optional(photoFit),
+        focalPoint: optional(vec2({ min: 0, max: 1 })),
+      }),
+      { minLength: 1 }
+    )
+  ),
+  slideshowInterval: optional(duration()),
+  fit: optional(photoFit),
+  focalPoint: optional(vec2({ min: 0, max: 1 })),
+  orientation: optional(oneOf(["auto", "landscape", "portrait"])),
+  position: vec3(),
+  rotation: withDefault(vec3(), [0, 0, 0]),
+  scale: withDefault(number({ min: 0 }), 0.75),
+});
+
+const timingsSchema = object<SceneTimings>({
+  typedCharDelay: withDefault(duration(), DEFAULT_TIMINGS.typedCharDelay),
+  postTypingDelay: withDefault(duration(), DEFAULT_TIMINGS.postTypingDelay),
+  cakeDescent: withDefault(duration(), DEFAULT_TIMINGS.cakeDescent),
+  tableSlide: withDefault(duration(), DEFAULT_TIMINGS.tableSlide),
+  candleDrop: withDefault(duration(), DEFAULT_TIMINGS.candleDrop),
+  backgroundFade: withDefault(duration(), DEFAULT_TIMINGS.backgroundFade),
+});
+
+const manifestSchema: Validator<SceneManifest> = object<SceneManifest>({
+  recipient: object({
+    name: string({ nonEmpty: true }),
+    age: optional(number({ min: 0, max: 150, integer: true })),
+  }),
+  typedLines: array(
+    either(
+      string(),
+      object<TypedLineConfig>({
+        text: string(),
+        speed: optional(duration()),
+        pauseAfter: optional(duration()),
+      })
+    )
+  ),
+  cards: withDefault(array(birthdayCardSchema), []),
+  frames: withDefault(array(pictureFrameSchema), []),
+  contributors: withDefault(
+    array(
+      object<Contributor>({
+        id: string({ nonEmpty: true }),
+        name: string({ nonEmpty: true }),
+        avatar: optional(string({ nonEmpty: true })),
+        media: string({ nonEmpty: true }),
+        kind: optional(oneOf(["audio", "video"])),
+        object: optional(oneOf(["envelope", "phone", "tablet"])),
+        position: vec3(),
+        // Lying face up on the table, like the cards
+        rotation: withDefault(vec3(), [-Math.PI / 2, 0, 0]),
+      })
+    ),
+    []
+  ),
+  music: optional(
+    either(
+      string({ nonEmpty: true }),
+      object<MusicConfig>({
+        intro: array(string({ nonEmpty: true }), { minLength: 1 }),
+        celebration: withDefault(array(string({ nonEmpty: true })), []),
+        crossfade: withDefault(duration(), DEFAULT_CROSSFADE),
+      })
+    )
+  ),
+  sounds: optional(
+    object<SoundFiles>({
+      typing: optional(string({ nonEmpty: true })),
+      thud: optional(string({ nonEmpty: true })),
+      whoosh: optional(string({ nonEmpty: true })),
+      pop: optional(string({ nonEmpty: true })),
+    })
+  ),
+  singAlong: optional(
+    object<SingAlongConfig>({
+      song: string({ nonEmpty: true }),
+      lyrics: optional(string({ nonEmpty: true })),
+    })
+  ),
+  environment: optional(
+    object<EnvironmentConfig>({
+      file: string({ nonEmpty: true }),
+      rotation: withDefault(number(), 0),
+    })
+  ),
+  cake: optional(
+    object<CakeConfig>({
+      model: optional(string({ nonEmpty: true })),
+      tiers: withDefault(
+        array(
+          object<CakeTier>({
+            radius: number({ min: 0.1, max: 1.5 }),
+            height: number({ min: 0.05, max: 1 }),
+          }),
+          { minLength: 1 }
+        ),
+        DEFAULT_CAKE.tiers
+      ),
+      frosting: withDefault(color(), DEFAULT_CAKE.frosting),
+      drip: optional(color()),
+      topping: withDefault(oneOf(["none", "sprinkles", "fruit"]), DEFAULT_CAKE.topping),
+      text: optional(string({ nonEmpty: true })),
+      textColor: withDefault(color(), DEFAULT_CAKE.textColor),
+    })
+  ),
+  candles: withDefault(
+    object<CandlesConfig>({
+      arrangement: oneOf(["single", "ring", "numeral"]),
+      count: optional(number({ min: 1, max: 200, integer: true })),
+    }),
+    DEFAULT_CANDLES
+  ),
+  blow: withDefault(
+    object<BlowConfig>({
+      microphone: withDefault(boolean(), DEFAULT_BLOW.microphone),
+      sensitivity: withDefault(number({ min: 0, max: 1 }), DEFAULT_BLOW.sensitivity),
+    }),
+    DEFAULT_BLOW
+  ),
+  fireworks: optional(
+    object<FireworkShow>({
+      shells: array(
+        object<ShellConfig>({
+          time: optional(duration()),
+          beat: optional(number({ min: 0 })),
+          shape: oneOf(["peony", "ring", "willow", "heart", "text"]),
+          palette: optional(
+            either(
+              oneOf(PALETTE_NAMES),
+              array(color(), { minLength: 1 })
+            )
+          ),
+          at: optional(vec3()),
+          size: optional(number({ min: 1 })),
+          text: optional(string({ nonEmpty: true })),
+          rise: optional(number({ min: 0.1 })),
+        }),
+        { minLength: 1 }
+      ),
+      bpm: optional(number({ min: 1, max: 400 })),
+      beatOffset: optional(duration()),
+      loop: optional(boolean()),
+      duration: optional(number({ min: 0.1 })),
+      seed: optional(number({ integer: true })),
+      density: optional(number({ min: 0.1, max: 100 })),
+    })
+  ),
+  celebration: withDefault(
+    object<CelebrationConfig>({
+      effects: withDefault(
+        array(oneOf(CELEBRATION_EFFECTS)),
+        DEFAULT_CELEBRATION.effects
+      ),
+    }),
+    DEFAULT_CELEBRATION
+  ),
+  preview: optional(
+    object<PreviewConfig>({
+      image: optional(string({ nonEmpty: true })),
+      description: optional(string()),
+    })
+  ),
+  timings: withDefault(timingsSchema, DEFAULT_TIMINGS),
+});
+
+// Checks that span several fields and so cannot live in the schema itself.
+const findCrossFieldIssues = (manifest: SceneManifest) => {
+  const issues: SchemaIssue[] = [];
+  const script = compileScript(manifest.typedLines, manifest.timings.typedCharDelay);
+  for (const issue of script.issues) {
+    issues.push({ path: `typedLines[${issue.line}]`, message: issue.message });
+  }
+  if (
+    manifest.candles.arrangement === "numeral" &&
+    manifest.recipient.age === undefined &&
+    manifest.candles.count === undefined
+  ) {
+    issues.push({
+      path: "candles.arrangement",
+      message: `"numeral" needs recipient.age (or candles.count) to know which number to draw`,
+    });
+  }
+
+  manifest.cake?.tiers.forEach((tier, index, tiers) => {
+    if (index > 0 && tier.radius > tiers[index - 1].radius) {
+      issues.push({
+        path: `cake.tiers[${index}].radius`,
+        message: "is wider than the tier below it",
+      });
+    }
+  });
+
+  manifest.cards.forEach((card, index) => {
+    if ((card.image === undefined) === (card.template === undefined)) {
+      issues.push({
+        path: `cards[${index}]`,
+        message: "needs either an image or a template (not both)",
+      });
+    }
+  });
+
+  const show = manifest.fireworks;
+  show?.shells.forEach((shell, index) => {
+    const path = `fireworks.shells[${index}]`;
+    if (shell.time === undefined && shell.beat === undefined) {
+      issues.push({ path, message: "needs a launch time or beat" });
+    } else if (shell.beat !== undefined && !show.bpm) {
+      issues.push({
+        path: `${path}.beat`,
+        message: "needs fireworks.bpm to know how long a beat is",
+      });
+    } else if (show.duration !== undefined && shellTime(shell, show) > show.duration) {
+      issues.push({ path, message: "launches after the show's duration" });
+    }
+  });
+
+  manifest.frames.forEach((frame, index) => {
+    if ((frame.image === undefined) === (frame.photos === undefined)) {
+      issues.push({
+        path: `frames[${index}]`,
+        message: "needs either an image or photos (not both)",
+      });
+    }
+  });
+
+  const seen = new Map<string, string>();
+  const items: Array<[string, { id: string }[]]> = [
+    ["cards", manifest.cards],
+    ["frames", manifest.frames],
+    ["contributors", manifest.contributors],
+  ];
+  for (const [group, list] of items) {
+    list.forEach((item, index) => {
+      const path = `${group}[${index}].id`;
+      const previous = seen.get(item.id);
+      if (previous) {
+        issues.push({ path, message: `"${item.id}" is already used by ${previous}` });
+      } else {
+        seen.set(item.id, path);
+      }
+    });
+  }
+  return issues;
+};
+
+/**
+ * Validates raw JSON against the manifest schema, filling in defaults.
+ * Throws a ManifestError listing every problem found.
+ */
+export function parseManifest(input: unknown, source = "manifest"): SceneManifest {
+  const issues: SchemaIssue[] = [];
+  const manifest = manifestSchema(input, "", issues);
+  if (!manifest || issues.length > 0) {
+    throw new ManifestError(source, issues);
+  }
+  const crossFieldIssues = findCrossFieldIssues(manifest);
+  if (crossFieldIssues.length > 0) {
+    throw new ManifestError(source, crossFieldIssues);
+  }
+  return manifest;
+}
+
+/**
+ * `?scene=alice` resolves to `/scenes/alice.json`; anything that already looks
+ * like a path or URL is used as-is.
+ */
+export function resolveSceneUrl(scene: string) {
+  if (scene.includes("/") || scene.endsWith(".json")) {
+    return scene;
+  }
+  return `/scenes/${encodeURIComponent(scene)}.json`;
+}
+
+export async function loadManifest(url: string): Promise<SceneManifest> {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (error) {
+    throw new ManifestError(url, [
+      { path: "", message: `could not be fetched (${(error as Error).message})` },
+    ]);
+  }
+  if (!response.ok) {
+    throw new ManifestError(url, [
+      { path: "", message: `request failed with HTTP ${response.status}` },
+    ]);
+  }
+
+  let json: unknown;
+  try {
+    json = await response.json();
+  } catch (error) {
+    throw new ManifestError(url, [
+      { path: "", message: `is not valid JSON (${(error as Error).message})` },
+    ]);
+  }
+  return parseManifest(json, url);
+}
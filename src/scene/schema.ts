@@ -0,0 +1,222 @@
+export type SchemaIssue = {
+  path: string;
+  message: string;
+};
+
+/**
+ * A validator checks an unknown value and either returns it typed or records
+ * one or more issues (and returns undefined). Validators never throw so that a
+ * single pass can report every problem in a manifest at once.
+ */
+export type Validator<T> = (
+  value: unknown,
+  path: string,
+  issues: SchemaIssue[]
+) => T | undefined;
+
+type Shape<T> = { [K in keyof T]-?: Validator<T[K]> };
+
+const describe = (value: unknown) => {
+  if (value === undefined) return "nothing";
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "an array";
+  return typeof value === "string" ? `"${value}"` : typeof value;
+};
+
+const joinPath = (path: string, key: string | number) => {
+  if (typeof key === "number") return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+};
+
+export const string =
+  (
+    options: { nonEmpty?: boolean; pattern?: RegExp; expected?: string } = {}
+  ): Validator<string> =>
+  (value, path, issues) => {
+    if (typeof value !== "string") {
+      issues.push({ path, message: `expected a string, got ${describe(value)}` });
+      return undefined;
+    }
+    if (options.nonEmpty && value.trim().length === 0) {
+      issues.push({ path, message: "must not be empty" });
+      return undefined;
+    }
+    if (options.pattern && !options.pattern.test(value)) {
+      issues.push({
+        path,
+        message: `expected ${options.expected ?? `a match for ${options.pattern}`}, got ${describe(value)}`,
+      });
+      return undefined;
+    }
+    return value;
+  };
+
+export const number =
+  (options: { min?: number; max?: number; integer?: boolean } = {}): Validator<number> =>
+  (value, path, issues) => {
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      issues.push({ path, message: `expected a number, got ${describe(value)}` });
+      return undefined;
+    }
+    if (options.integer && !Number.isInteger(value)) {
+      issues.push({ path, message: `expected a whole number, got ${value}` });
+      return undefined;
+    }
+    if (options.min !== undefined && value < options.min) {
+      issues.push({ path, message: `must be at least ${options.min}, got ${value}` });
+      return undefined;
+    }
+    if (options.max !== undefined && value > options.max) {
+      issues.push({ path, message: `must be at most ${options.max}, got ${value}` });
+      return undefined;
+    }
+    return value;
+  };
+
+export const boolean = (): Validator<boolean> => (value, path, issues) => {
+  if (typeof value !== "boolean") {
+    issues.push({ path, message: `expected true or false, got ${describe(value)}` });
+    return undefined;
+  }
+  return value;
+};
+
+export const oneOf =
+  <T extends string>(choices: ReadonlyArray<T>): Validator<T> =>
+  (value, path, issues) => {
+    if (typeof value !== "string" || !choices.includes(value as T)) {
+      issues.push({
+        path,
+        message: `expected one of ${choices.map((c) => `"${c}"`).join(", ")}, got ${describe(value)}`,
+      });
+      return undefined;
+    }
+    return value as T;
+  };
+
+export const vec3 = (): Validator<[number, number, number]> => (value, path, issues) => {
+  if (
+    !Array.isArray(value) ||
+    value.length !== 3 ||
+    value.some((entry) => typeof entry !== "number" || !Number.isFinite(entry))
+  ) {
+    issues.push({ path, message: `expected [x, y, z] numbers, got ${describe(value)}` });
+    return undefined;
+  }
+  return [value[0], value[1], value[2]];
+};
+
+export const vec2 =
+  (options: { min?: number; max?: number } = {}): Validator<[number, number]> =>
+  (value, path, issues) => {
+    if (
+      !Array.isArray(value) ||
+      value.length !== 2 ||
+      value.some(
+        (entry) =>
+          typeof entry !== "number" ||
+          !Number.isFinite(entry) ||
+          (options.min !== undefined && entry < options.min) ||
+          (options.max !== undefined && entry > options.max)
+      )
+    ) {
+      const range =
+        options.min !== undefined && options.max !== undefined
+          ? ` between ${options.min} and ${options.max}`
+          : "";
+      issues.push({ path, message: `expected [x, y] numbers${range}, got ${describe(value)}` });
+      return undefined;
+    }
+    return [value[0], value[1]];
+  };
+
+export const array =
+  <T>(item: Validator<T>, options: { minLength?: number } = {}): Validator<T[]> =>
+  (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, message: `expected an array, got ${describe(value)}` });
+      return undefined;
+    }
+    if (options.minLength !== undefined && value.length < options.minLength) {
+      issues.push({ path, message: `expected at least ${options.minLength} item(s)` });
+      return undefined;
+    }
+    const before = issues.length;
+    const result = value.map((entry, index) => item(entry, joinPath(path, index), issues));
+    return issues.length === before ? (result as T[]) : undefined;
+  };
+
+/** An object used as a dictionary: any keys, every value of one type. */
+export const record =
+  <T>(item: Validator<T>): Validator<Record<string, T>> =>
+  (value, path, issues) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      issues.push({ path, message: `expected an object, got ${describe(value)}` });
+      return undefined;
+    }
+    const before = issues.length;
+    const result: Record<string, T> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      const parsed = item(entry, joinPath(path, key), issues);
+      if (parsed !== undefined) {
+        result[key] = parsed;
+      }
+    }
+    return issues.length === before ? result : undefined;
+  };
+
+export const optional =
+  <T>(inner: Validator<T>): Validator<T | undefined> =>
+  (value, path, issues) =>
+    value === undefined ? undefined : inner(value, path, issues);
+
+export const withDefault =
+  <T>(inner: Validator<T>, fallback: T): Validator<T> =>
+  (value, path, issues) =>
+    value === undefined ? fallback : inner(value, path, issues);
+
+/**
+ * Accepts either of two shapes, preferring the first. If both fail, the
+ * issues reported are the second's when it got past the top-level type
+ * check (its issues sit deeper than `path`), and the first's otherwise.
+ */
+export const either =
+  <A, B>(first: Validator<A>, second: Validator<B>): Validator<A | B> =>
+  (value, path, issues) => {
+    const firstIssues: SchemaIssue[] = [];
+    const a = first(value, path, firstIssues);
+    if (firstIssues.length === 0) return a;
+    const secondIssues: SchemaIssue[] = [];
+    const b = second(value, path, secondIssues);
+    if (secondIssues.length === 0) return b;
+    const secondMatchedShape = secondIssues.some((issue) => issue.path !== path);
+    issues.push(...(secondMatchedShape ? secondIssues : firstIssues));
+    return undefined;
+  };
+
+export const object =
+  <T>(shape: Shape<T>): Validator<T> =>
+  (value, path, issues) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      issues.push({ path, message: `expected an object, got ${describe(value)}` });
+      return undefined;
+    }
+    const record = value as Record<string, unknown>;
+    const before = issues.length;
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(shape) as Array<keyof T & string>) {
+      const parsed = shape[key](record[key], joinPath(path, key), issues);
+      if (parsed !== undefined) {
+        result[key] = parsed;
+      }
+    }
+    for (const key of Object.keys(record)) {
+      if (!(key in shape)) {
+        issues.push({ path: joinPath(path, key), message: "unknown field" });
+      }
+    }
+    return issues.length === before ? (result as T) : undefined;
+  };
+
+export const formatIssues = (issues: ReadonlyArray<SchemaIssue>) =>
+  issues.map((issue) => `${issue.path || "(root)"}: ${issue.message}`);
@@ -0,0 +1,80 @@
+import { useEffect, useState } from "react";
+import { decodeSharedScene, hasSharedScene, toManifest } from "../share/shareLink";
+import { DEFAULT_SCENE } from "./defaultScene";
+import {
+  loadManifest,
+  ManifestError,
+  resolveSceneUrl,
+  type SceneManifest,
+} from "./manifest";
+
+export type SceneManifestState =
+  | { status: "loading" }
+  | { status: "ready"; manifest: SceneManifest }
+  | { status: "error"; error: ManifestError };
+
+type SceneSource = { label: string; load: () => Promise<SceneManifest> };
+
+function getSceneSource(): SceneSource | null {
+  const { hash, search } = window.location;
+  if (hasSharedScene(hash)) {
+    return {
+      label: "share link",
+      load: () => decodeSharedScene(hash).then((scene) => toManifest(scene)),
+    };
+  }
+  // A build made with VITE_SCENE opens that scene by default
+  const sceneParam =
+    new URLSearchParams(search).get("scene") ?? import.meta.env.VITE_SCENE;
+  if (sceneParam) {
+    const url = resolveSceneUrl(sceneParam);
+    return { label: url, load: () => loadManifest(url) };
+  }
+  return null;
+}
+
+/**
+ * Loads the scene from a share link (`#s=…`) or the manifest named by the
+ * `?scene=` URL parameter (or the build's VITE_SCENE), or falls back to the
+ * built-in default scene when neither is present.
+ */
+export function useSceneManifest(): SceneManifestState {
+  const [source] = useState(getSceneSource);
+  const [state, setState] = useState<SceneManifestState>(() =>
+    source
+      ? { status: "loading" }
+      : { status: "ready", manifest: DEFAULT_SCENE }
+  );
+
+  useEffect(() => {
+    if (!source) {
+      return;
+    }
+    let cancelled = false;
+    source
+      .load()
+      .then((manifest) => {
+        if (!cancelled) {
+          setState({ status: "ready", manifest });
+        }
+      })
+      .catch((error: unknown) => {
+        if (cancelled) {
+          return;
+        }
+        const manifestError =
+          error instanceof ManifestError
+            ? error
+            : new ManifestError(source.label, [
+                { path: "", message: String(error) },
+              ]);
+        console.error(manifestError.message);
+        setState({ status: "error", error: manifestError });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [source]);
+
+  return state;
+}
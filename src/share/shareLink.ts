@@ -0,0 +1,138 @@
+/**
+ * Personalised pages without a deploy. The creator wizard's answers are
+ * deflated and base64url-encoded into the URL fragment:
+ *
+ *   https://example.com/#s=1.<data>
+ *
+ * The fragment never reaches the server, so any static host can serve every
+ * link. Only text and photo URLs fit in a link; photos picked from the
+ * creator's computer go into a bundle instead (see `createBundle`).
+ */
+import { DEFAULT_SCENE } from "../scene/defaultScene";
+import {
+  ManifestError,
+  parseManifest,
+  type PictureFrameConfig,
+  type SceneManifest,
+} from "../scene/manifest";
+import { array, number, object, optional, string, type SchemaIssue } from "../scene/schema";
+
+/** What the creator wizard asks for. */
+export type SharedScene = {
+  name: string;
+  age?: number;
+  /** Intro lines, in the typewriter's markup. */
+  lines: string[];
+  /** Photo URLs, or data URLs in a bundle. */
+  photos: string[];
+  /** Written on the back of the card. */
+  message?: string;
+};
+
+const SHARE_PREFIX = "#s=";
+const SHARE_VERSION = "1";
+// Links longer than this get cut off by chat apps and some browsers
+export const MAX_SHARE_LINK_LENGTH = 8000;
+
+const sharedSceneSchema = object<SharedScene>({
+  name: string({ nonEmpty: true }),
+  age: optional(number({ min: 0, max: 150, integer: true })),
+  lines: array(string()),
+  photos: array(string({ nonEmpty: true })),
+  message: optional(string()),
+});
+
+async function pipeBytes(bytes: Uint8Array, transform: GenericTransformStream) {
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array) {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string) {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+export async function encodeSharedScene(scene: SharedScene): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify(scene));
+  const deflated = await pipeBytes(json, new CompressionStream("deflate-raw"));
+  return `${SHARE_PREFIX}${SHARE_VERSION}.${toBase64Url(deflated)}`;
+}
+
+/** The page URL for a scene, or null if it is too long to share. */
+export async function createShareLink(scene: SharedScene, base: string) {
+  const url = new URL(base);
+  url.search = "";
+  url.hash = await encodeSharedScene(scene);
+  const link = url.toString();
+  return link.length <= MAX_SHARE_LINK_LENGTH ? link : null;
+}
+
+export const hasSharedScene = (hash: string) => hash.startsWith(SHARE_PREFIX);
+
+const SOURCE = "share link";
+
+const fail = (message: string) => new ManifestError(SOURCE, [{ path: "", message }]);
+
+/** Decodes a `#s=` fragment; throws a ManifestError when it is damaged. */
+export async function decodeSharedScene(hash: string): Promise<SharedScene> {
+  const [version, data] = hash.slice(SHARE_PREFIX.length).split(".");
+  if (version !== SHARE_VERSION || !data) {
+    throw fail(`is from a newer or unknown version (${version || "none"})`);
+  }
+  let json: unknown;
+  try {
+    const bytes = await pipeBytes(fromBase64Url(data), new DecompressionStream("deflate-raw"));
+    json = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw fail("is incomplete or damaged; ask for the link again");
+  }
+  const issues: SchemaIssue[] = [];
+  const scene = sharedSceneSchema(json, "", issues);
+  if (!scene || issues.length > 0) {
+    throw new ManifestError(SOURCE, issues);
+  }
+  return scene;
+}
+
+/**
+ * Lays the wizard's answers out on the built-in table: one photo per frame,
+ * with any extra photos turning the frames into galleries.
+ */
+export function toManifest(scene: SharedScene, source = SOURCE): SceneManifest {
+  const slots = DEFAULT_SCENE.frames;
+  const frames: PictureFrameConfig[] = slots
+    .map((slot, index) => {
+      const photos = scene.photos.filter((_, photo) => photo % slots.length === index);
+      return photos.length === 1
+        ? { ...slot, image: photos[0] }
+        : { ...slot, image: undefined, photos: photos.map((image) => ({ image })) };
+    })
+    .filter((frame) => frame.image || (frame.photos && frame.photos.length > 0));
+  const [card] = DEFAULT_SCENE.cards;
+  const message = scene.message?.trim();
+  return parseManifest(
+    {
+      ...DEFAULT_SCENE,
+      recipient: { name: scene.name, age: scene.age },
+      typedLines: scene.lines.length > 0 ? scene.lines : [`> ${scene.name}`],
+      frames,
+      cards: [message ? { ...card, message: { text: message } } : card],
+    },
+    source
+  );
+}
+
+/**
+ * A scene file for photos that are too big for a link: the manifest with
+ * the photos inlined, to put in `public/scenes/` and open with `?scene=`.
+ */
+export const createBundle = (scene: SharedScene) =>
+  JSON.stringify(toManifest(scene, "bundle"), null, 2);
@@ -0,0 +1,226 @@
+/**
+ * Timed lyrics in the LRC format:
+ *
+ *   [offset:+150]                      shift every time by +150 ms
+ *   [00:12.40]Happy birthday to you
+ *   [00:20.10]Happy <00:21.00>birthday <00:21.60>dear <00:22.20>{name}
+ *
+ * A line may carry several timestamps to repeat it. Word timings (`<mm:ss>`,
+ * the "enhanced" LRC extension) are optional; words without one share out
+ * the line's time by length. `{name}` and `{age}` style placeholders are
+ * filled in from `values`. Other `[tag:…]` lines (title, artist) are ignored.
+ */
+
+export type LyricWord = {
+  text: string;
+  start: number;
+  end: number;
+};
+
+export type LyricLine = {
+  start: number;
+  end: number;
+  words: LyricWord[];
+};
+
+export type Lyrics = {
+  lines: LyricLine[];
+  /** When the last line has been sung. */
+  duration: number;
+};
+
+export type LyricsIssue = {
+  line: number;
+  message: string;
+};
+
+/** Where the singer is: indices into `lines` and its `words`, or -1. */
+export type LyricPosition = {
+  line: number;
+  word: number;
+};
+
+const TIME_TAG = /^\[(\d+):(\d{1,2}(?:\.\d{1,3})?)\]/;
+const META_TAG = /^\[([a-z#]+):(.*)\]\s*$/i;
+const WORD_TAG = /<(\d+):(\d{1,2}(?:\.\d{1,3})?)>/g;
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+// A line with nothing after it is held this long
+const LAST_LINE_HOLD = 4;
+// Words without timings are sung over this share of the gap to the next line
+const UNTIMED_SHARE = 0.85;
+
+const toSeconds = (minutes: string, seconds: string) =>
+  Number(minutes) * 60 + Number(seconds);
+
+type RawWord = { text: string; start?: number };
+
+function splitWords(text: string, values: Readonly<Record<string, string>>) {
+  const words: RawWord[] = [];
+  let start: number | undefined;
+  let cursor = 0;
+  const pushText = (chunk: string) => {
+    for (const word of chunk.split(/\s+/).filter(Boolean)) {
+      words.push({
+        text: word.replace(PLACEHOLDER, (match, key: string) => values[key] ?? match),
+        start,
+      });
+      start = undefined;
+    }
+  };
+  for (const match of text.matchAll(WORD_TAG)) {
+    pushText(text.slice(cursor, match.index));
+    start = toSeconds(match[1], match[2]);
+    cursor = match.index + match[0].length;
+  }
+  pushText(text.slice(cursor));
+  return words;
+}
+
+/** Gives untimed words a share of the time between their timed neighbours. */
+function timeWords(raw: RawWord[], lineStart: number, lineEnd: number): LyricWord[] {
+  const starts = raw.map((word, index) =>
+    index === 0 ? (word.start ?? lineStart) : word.start
+  );
+  let index = 0;
+  while (index < raw.length) {
+    if (starts[index] !== undefined) {
+      index += 1;
+      continue;
+    }
+    // A run of untimed words between two known times
+    let runEnd = index;
+    while (runEnd < raw.length && starts[runEnd] === undefined) {
+      runEnd += 1;
+    }
+    const from = starts[index - 1]!;
+    const to =
+      runEnd < raw.length ? starts[runEnd]! : from + (lineEnd - from) * UNTIMED_SHARE;
+    const weights = raw.slice(index - 1, runEnd).map((word) => word.text.length + 1);
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    let at = from;
+    for (let i = index; i < runEnd; i += 1) {
+      at += ((to - from) * weights[i - index]) / total;
+      starts[i] = at;
+    }
+    index = runEnd;
+  }
+  return raw.map((word, i) => ({
+    text: word.text,
+    start: starts[i]!,
+    end: i + 1 < raw.length ? starts[i + 1]! : lineEnd,
+  }));
+}
+
+export function parseLrc(
+  source: string,
+  values: Readonly<Record<string, string>> = {}
+): { lyrics: Lyrics; issues: LyricsIssue[] } {
+  const issues: LyricsIssue[] = [];
+  const entries: Array<{ start: number; words: RawWord[] }> = [];
+  let offset = 0;
+
+  source.split(/\r?\n/).forEach((rawLine, lineIndex) => {
+    let text = rawLine.trim();
+    if (!text) {
+      return;
+    }
+    const stamps: number[] = [];
+    let match = TIME_TAG.exec(text);
+    while (match) {
+      stamps.push(toSeconds(match[1], match[2]));
+      text = text.slice(match[0].length);
+      match = TIME_TAG.exec(text);
+    }
+    if (stamps.length === 0) {
+      const meta = META_TAG.exec(text);
+      if (!meta) {
+        issues.push({ line: lineIndex, message: `expected a [mm:ss.xx] timestamp` });
+      } else if (meta[1].toLowerCase() === "offset") {
+        const milliseconds = Number(meta[2].trim());
+        if (Number.isFinite(milliseconds)) {
+          offset = milliseconds / 1000;
+        } else {
+          issues.push({
+            line: lineIndex,
+            message: `[offset] needs milliseconds, e.g. [offset:+150]`,
+          });
+        }
+      }
+      return;
+    }
+    const words = splitWords(text, values);
+    if (words.length === 0) {
+      // An empty timed line marks where the previous line stops
+      stamps.forEach((start) => entries.push({ start, words }));
+      return;
+    }
+    let previous = stamps[0];
+    const unordered = words.some((word) => {
+      if (word.start === undefined) {
+        return false;
+      }
+      const goesBack = word.start < previous;
+      previous = word.start;
+      return goesBack;
+    });
+    if (unordered) {
+      issues.push({ line: lineIndex, message: `word timings must not go back in time` });
+    }
+    stamps.forEach((start) => {
+      // Repeats of the line move its word timings along with it
+      const shift = start - stamps[0];
+      entries.push({
+        start,
+        words: words.map((word) => ({
+          text: word.text,
+          start: word.start === undefined ? undefined : word.start + shift,
+        })),
+      });
+    });
+  });
+
+  entries.sort((a, b) => a.start - b.start);
+  const lines: LyricLine[] = [];
+  entries.forEach((entry, index) => {
+    if (entry.words.length === 0) {
+      return;
+    }
+    const start = entry.start + offset;
+    const next = entries[index + 1];
+    const end = next ? next.start + offset : start + LAST_LINE_HOLD;
+    const words = entry.words.map((word) => ({
+      text: word.text,
+      start: word.start === undefined ? undefined : word.start + offset,
+    }));
+    lines.push({ start, end, words: timeWords(words, start, end) });
+  });
+
+  return {
+    lyrics: { lines, duration: lines.length > 0 ? lines[lines.length - 1].end : 0 },
+    issues,
+  };
+}
+
+/**
+ * The line being sung at `time` and the word within it. Once the song is
+ * over, that is the last line with every word sung.
+ */
+export function lyricPosition(lyrics: Lyrics, time: number): LyricPosition {
+  const last = lyrics.lines.length - 1;
+  if (last >= 0 && time >= lyrics.duration) {
+    return { line: last, word: lyrics.lines[last].words.length };
+  }
+  const line = lyrics.lines.findIndex(
+    (candidate) => time >= candidate.start && time < candidate.end
+  );
+  if (line === -1) {
+    return { line: -1, word: -1 };
+  }
+  const { words } = lyrics.lines[line];
+  let word = -1;
+  for (let i = 0; i < words.length && words[i].start <= time; i += 1) {
+    word = i;
+  }
+  return { line, word };
+}
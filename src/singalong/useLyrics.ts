@@ -0,0 +1,51 @@
+import { useEffect, useState } from "react";
+import { parseLrc, type Lyrics } from "./lrc";
+
+/**
+ * Loads and parses an LRC file, or returns null while it is loading (or if
+ * it failed, which is logged). Lines with problems are reported and left
+ * out; the rest still show.
+ */
+export function useLyrics(
+  url: string | undefined,
+  values: Readonly<Record<string, string>>
+) {
+  const [lyrics, setLyrics] = useState<Lyrics | null>(null);
+
+  useEffect(() => {
+    if (!url) {
+      setLyrics(null);
+      return;
+    }
+    let cancelled = false;
+
+    fetch(url)
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`Lyrics ${url}: ${response.status} ${response.statusText}`);
+        }
+        return response.text();
+      })
+      .then(
+        (source) => {
+          if (cancelled) {
+            return;
+          }
+          const { lyrics: parsed, issues } = parseLrc(source, values);
+          for (const issue of issues) {
+            console.warn(`Lyrics ${url}, line ${issue.line + 1}: ${issue.message}`);
+          }
+          setLyrics(parsed);
+        },
+        (error: unknown) => {
+          console.warn(error);
+        }
+      );
+
+    return () => {
+      cancelled = true;
+    };
+  }, [url, values]);
+
+  return lyrics;
+}
@@ -0,0 +1,187 @@
+import { describe, expect, it } from "vitest";
+import {
+  createTimelinePlayer,
+  getTimelineDuration,
+  sampleTimeline,
+  sampleTrack,
+  type TimelineDefinition,
+} from "./timeline";
+
+const DEFINITION: TimelineDefinition = {
+  tracks: {
+    card: {
+      position: [
+        { time: 0, value: [0, 0, 0] },
+        { time: 2, value: [2, 4, -2] },
+        { time: 4, value: [2, 0, 0], easing: "easeInQuad" },
+      ],
+      visible: [
+        { time: 0, value: false },
+        { time: 1, value: true },
+      ],
+      opacity: [
+        { time: 1, value: 0 },
+        { time: 3, value: 1 },
+      ],
+    },
+    frame: {
+      rotation: [{ time: 0, value: [0, Math.PI, 0] }],
+    },
+  },
+  markers: [
+    { time: 3, name: "flip" },
+    { time: 1, name: "show" },
+    { time: 5, name: "end" },
+  ],
+};
+
+/** A player that writes down everything it reports. */
+function recordedPlayer(definition = DEFINITION) {
+  const heard: string[] = [];
+  const player = createTimelinePlayer(definition, {
+    onMarker: (name) => heard.push(name),
+    onComplete: () => heard.push("complete"),
+  });
+  return { player, heard };
+}
+
+describe("sampleTrack", () => {
+  const keyframes = [
+    { time: 1, value: 10 },
+    { time: 3, value: 20 },
+  ];
+  const lerp = (from: number, to: number, t: number) => from + (to - from) * t;
+
+  it("holds the first and last values outside the keyframes", () => {
+    expect(sampleTrack(keyframes, -1, lerp)).toBe(10);
+    expect(sampleTrack(keyframes, 5, lerp)).toBe(20);
+  });
+
+  it("interpolates between keyframes", () => {
+    expect(sampleTrack(keyframes, 2, lerp)).toBe(15);
+    expect(sampleTrack(keyframes, 3, lerp)).toBe(20);
+  });
+
+  it("uses the next keyframe's easing", () => {
+    const stepped = [keyframes[0], { ...keyframes[1], easing: "step" as const }];
+
+    expect(sampleTrack(stepped, 2.99, lerp)).toBe(10);
+    expect(sampleTrack(stepped, 3, lerp)).toBe(20);
+  });
+
+  it("has nothing to give without keyframes", () => {
+    expect(sampleTrack([], 1, lerp)).toBeUndefined();
+  });
+});
+
+describe("sampleTimeline", () => {
+  it("samples every track of every object", () => {
+    const sample = sampleTimeline(DEFINITION, 1);
+
+    expect(sample.card.position).toEqual([1, 2, -1]);
+    expect(sample.card.visible).toBe(true);
+    expect(sample.card.opacity).toBe(0);
+    expect(sample.frame).toEqual({ rotation: [0, Math.PI, 0] });
+  });
+
+  it("eases into a keyframe with that keyframe's curve", () => {
+    // Halfway to the easeInQuad keyframe is a quarter of the way there
+    expect(sampleTimeline(DEFINITION, 3).card.position).toEqual([2, 3, -1.5]);
+  });
+
+  it("switches visibility at the keyframe rather than blending it", () => {
+    expect(sampleTimeline(DEFINITION, 0.99).card.visible).toBe(false);
+    expect(sampleTimeline(DEFINITION, 1).card.visible).toBe(true);
+  });
+
+  it("holds the last values after the end", () => {
+    const sample = sampleTimeline(DEFINITION, 10);
+
+    expect(sample.card).toEqual({ position: [2, 0, 0], visible: true, opacity: 1 });
+  });
+});
+
+describe("getTimelineDuration", () => {
+  it("runs to the last keyframe or marker", () => {
+    expect(getTimelineDuration(DEFINITION)).toBe(5);
+    expect(getTimelineDuration({ tracks: DEFINITION.tracks })).toBe(4);
+    expect(getTimelineDuration({ tracks: {} })).toBe(0);
+  });
+});
+
+describe("createTimelinePlayer", () => {
+  it("only moves while playing", () => {
+    const { player } = recordedPlayer();
+    player.advance(1);
+    expect(player.time).toBe(0);
+
+    player.play();
+    player.advance(1.5);
+    expect(player.isPlaying).toBe(true);
+    expect(player.time).toBe(1.5);
+
+    player.pause();
+    player.advance(1);
+    expect(player.time).toBe(1.5);
+    expect(player.sample()).toEqual(sampleTimeline(DEFINITION, 1.5));
+  });
+
+  it("fires markers in order as it passes them, then completes once", () => {
+    const { player, heard } = recordedPlayer();
+    player.play();
+    player.advance(0.5);
+    expect(heard).toEqual([]);
+    player.advance(3);
+    expect(heard).toEqual(["show", "flip"]);
+
+    player.advance(10);
+    expect(player.time).toBe(5);
+    expect(player.isComplete).toBe(true);
+    expect(player.isPlaying).toBe(false);
+    expect(heard).toEqual(["show", "flip", "end", "complete"]);
+
+    player.play();
+    player.advance(1);
+    expect(heard).toEqual(["show", "flip", "end", "complete"]);
+  });
+
+  it("fires the markers a forward seek jumps over, but not a backward one", () => {
+    const { player, heard } = recordedPlayer();
+    player.seek(3);
+    expect(heard).toEqual(["show", "flip"]);
+
+    player.seek(0.5);
+    player.seek(2);
+    expect(heard).toEqual(["show", "flip", "show"]);
+  });
+
+  it("clamps seeks to the timeline", () => {
+    const { player } = recordedPlayer();
+    player.seek(-2);
+    expect(player.time).toBe(0);
+
+    player.seek(99);
+    expect(player.time).toBe(5);
+    expect(player.isComplete).toBe(true);
+  });
+
+  it("can be replayed by seeking back from the end", () => {
+    const { player, heard } = recordedPlayer();
+    player.seek(5);
+    player.seek(0);
+    expect(player.isComplete).toBe(false);
+
+    player.play();
+    player.advance(5);
+    expect(heard).toEqual(["show", "flip", "end", "complete", "show", "flip", "end", "complete"]);
+  });
+
+  it("completes an empty timeline as soon as it plays", () => {
+    const { player, heard } = recordedPlayer({ tracks: {} });
+    player.play();
+
+    expect(player.isComplete).toBe(true);
+    expect(player.isPlaying).toBe(false);
+    expect(heard).toEqual(["complete"]);
+  });
+});
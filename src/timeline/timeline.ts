@@ -0,0 +1,202 @@
+import { EASINGS, type EasingName } from "./easing";
+
+type Vec3 = [number, number, number];
+
+export type Keyframe<T> = {
+  time: number;
+  value: T;
+  /** Curve used to arrive at this keyframe from the previous one. */
+  easing?: EasingName;
+};
+
+export type ObjectTracks = {
+  position?: ReadonlyArray<Keyframe<Vec3>>;
+  rotation?: ReadonlyArray<Keyframe<Vec3>>;
+  visible?: ReadonlyArray<Keyframe<boolean>>;
+  opacity?: ReadonlyArray<Keyframe<number>>;
+};
+
+export type TimelineMarker = {
+  time: number;
+  name: string;
+};
+
+export type TimelineDefinition = {
+  tracks: Record<string, ObjectTracks>;
+  markers?: ReadonlyArray<TimelineMarker>;
+};
+
+export type ObjectSample = {
+  position?: Vec3;
+  rotation?: Vec3;
+  visible?: boolean;
+  opacity?: number;
+};
+
+export type TimelineSample = Record<string, ObjectSample>;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const lerp = (from: number, to: number, t: number) => from + (to - from) * t;
+
+type Interpolate<T> = (from: T, to: T, t: number) => T;
+
+const interpolateNumber: Interpolate<number> = lerp;
+
+const interpolateVec3: Interpolate<Vec3> = (from, to, t) => [
+  lerp(from[0], to[0], t),
+  lerp(from[1], to[1], t),
+  lerp(from[2], to[2], t),
+];
+
+const interpolateStep = <T>(from: T, to: T, t: number) => (t >= 1 ? to : from);
+
+/** Keyframes are expected in ascending time order. */
+export function sampleTrack<T>(
+  keyframes: ReadonlyArray<Keyframe<T>>,
+  time: number,
+  interpolate: Interpolate<T>
+): T | undefined {
+  if (keyframes.length === 0) {
+    return undefined;
+  }
+  if (time <= keyframes[0].time) {
+    return keyframes[0].value;
+  }
+  for (let i = 1; i < keyframes.length; i += 1) {
+    const next = keyframes[i];
+    if (time < next.time) {
+      const previous = keyframes[i - 1];
+      const span = next.time - previous.time;
+      const progress = span > 0 ? clamp01((time - previous.time) / span) : 1;
+      const eased = EASINGS[next.easing ?? "linear"](progress);
+      return interpolate(previous.value, next.value, eased);
+    }
+  }
+  return keyframes[keyframes.length - 1].value;
+}
+
+export function sampleTimeline(
+  definition: TimelineDefinition,
+  time: number
+): TimelineSample {
+  const sample: TimelineSample = {};
+  for (const [target, tracks] of Object.entries(definition.tracks)) {
+    const objectSample: ObjectSample = {};
+    if (tracks.position) {
+      objectSample.position = sampleTrack(tracks.position, time, interpolateVec3);
+    }
+    if (tracks.rotation) {
+      objectSample.rotation = sampleTrack(tracks.rotation, time, interpolateVec3);
+    }
+    if (tracks.visible) {
+      objectSample.visible = sampleTrack(tracks.visible, time, interpolateStep);
+    }
+    if (tracks.opacity) {
+      objectSample.opacity = sampleTrack(tracks.opacity, time, interpolateNumber);
+    }
+    sample[target] = objectSample;
+  }
+  return sample;
+}
+
+export function getTimelineDuration(definition: TimelineDefinition) {
+  let duration = 0;
+  for (const tracks of Object.values(definition.tracks)) {
+    for (const keyframes of Object.values(tracks)) {
+      for (const keyframe of keyframes as ReadonlyArray<Keyframe<unknown>>) {
+        duration = Math.max(duration, keyframe.time);
+      }
+    }
+  }
+  for (const marker of definition.markers ?? []) {
+    duration = Math.max(duration, marker.time);
+  }
+  return duration;
+}
+
+export type TimelineEvents = {
+  onComplete?: () => void;
+  onMarker?: (name: string) => void;
+};
+
+export type TimelinePlayer = {
+  readonly duration: number;
+  readonly time: number;
+  readonly isPlaying: boolean;
+  readonly isComplete: boolean;
+  play: () => void;
+  pause: () => void;
+  /** Jumps to a time. Moving forward fires the markers passed over. */
+  seek: (time: number) => void;
+  /** Moves the playhead by `delta` seconds if playing. */
+  advance: (delta: number) => void;
+  sample: () => TimelineSample;
+};
+
+/**
+ * A headless playhead over a timeline definition. It knows nothing about
+ * three.js or frames: callers advance it with their own clock and apply the
+ * samples, which keeps it easy to drive from useFrame or from a test.
+ */
+export function createTimelinePlayer(
+  definition: TimelineDefinition,
+  events: TimelineEvents = {}
+): TimelinePlayer {
+  const duration = getTimelineDuration(definition);
+  const markers = [...(definition.markers ?? [])].sort((a, b) => a.time - b.time);
+  let time = 0;
+  let isPlaying = false;
+  let isComplete = false;
+
+  const moveTo = (nextTime: number) => {
+    const clamped = Math.min(duration, Math.max(0, nextTime));
+    if (clamped > time) {
+      for (const marker of markers) {
+        if (marker.time > time && marker.time <= clamped) {
+          events.onMarker?.(marker.name);
+        }
+      }
+    }
+    time = clamped;
+    if (time >= duration) {
+      isPlaying = false;
+      if (!isComplete) {
+        isComplete = true;
+        events.onComplete?.();
+      }
+    } else {
+      isComplete = false;
+    }
+  };
+
+  return {
+    duration,
+    get time() {
+      return time;
+    },
+    get isPlaying() {
+      return isPlaying;
+    },
+    get isComplete() {
+      return isComplete;
+    },
+    play: () => {
+      if (time >= duration) {
+        moveTo(duration);
+        return;
+      }
+      isPlaying = true;
+    },
+    pause: () => {
+      isPlaying = false;
+    },
+    seek: (nextTime) => moveTo(nextTime),
+    advance: (delta) => {
+      if (isPlaying) {
+        moveTo(time + delta);
+      }
+    },
+    sample: () => sampleTimeline(definition, time),
+  };
+}
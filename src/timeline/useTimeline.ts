@@ -0,0 +1,111 @@
+import { useFrame } from "@react-three/fiber";
+import { useEffect, useMemo, useRef, type RefObject } from "react";
+import type { Material, Mesh, Object3D } from "three";
+import {
+  createTimelinePlayer,
+  type ObjectSample,
+  type TimelineDefinition,
+  type TimelinePlayer,
+  type TimelineSample,
+} from "./timeline";
+
+/**
+ * "rewound" holds the first frame, "playing" runs from wherever the playhead
+ * is, and "finished" jumps straight to the end (firing completion).
+ */
+export type TimelineMode = "rewound" | "playing" | "finished";
+
+type UseTimelineOptions = {
+  definition: TimelineDefinition;
+  mode: TimelineMode;
+  /** Scene objects driven by the track of the same name. */
+  targets: Record<string, RefObject<Object3D | null>>;
+  /** Receives every sample, e.g. for tracks that drive non-3D state. */
+  onSample?: (sample: TimelineSample) => void;
+  onComplete?: () => void;
+  onMarker?: (name: string) => void;
+};
+
+const applyOpacity = (object: Object3D, opacity: number) => {
+  object.traverse((child) => {
+    const material = (child as Mesh).material as Material | Material[] | undefined;
+    if (!material) {
+      return;
+    }
+    for (const entry of Array.isArray(material) ? material : [material]) {
+      entry.transparent = opacity < 1 || entry.transparent;
+      entry.opacity = opacity;
+    }
+  });
+};
+
+const applySample = (object: Object3D, sample: ObjectSample) => {
+  if (sample.position) {
+    object.position.set(...sample.position);
+  }
+  if (sample.rotation) {
+    object.rotation.set(...sample.rotation);
+  }
+  if (sample.visible !== undefined) {
+    object.visible = sample.visible;
+  }
+  if (sample.opacity !== undefined) {
+    applyOpacity(object, sample.opacity);
+  }
+};
+
+/**
+ * Drives scene objects from a timeline definition every frame and returns
+ * the player so callers can pause, seek or scrub it.
+ */
+export function useTimeline({
+  definition,
+  mode,
+  targets,
+  onSample,
+  onComplete,
+  onMarker,
+}: UseTimelineOptions): TimelinePlayer {
+  const callbacksRef = useRef({ onComplete, onMarker });
+  useEffect(() => {
+    callbacksRef.current = { onComplete, onMarker };
+  }, [onComplete, onMarker]);
+
+  const player = useMemo(
+    () =>
+      createTimelinePlayer(definition, {
+        onComplete: () => callbacksRef.current.onComplete?.(),
+        onMarker: (name) => callbacksRef.current.onMarker?.(name),
+      }),
+    [definition]
+  );
+
+  useEffect(() => {
+    switch (mode) {
+      case "playing":
+        player.play();
+        break;
+      case "finished":
+        player.seek(player.duration);
+        break;
+      case "rewound":
+        player.pause();
+        player.seek(0);
+        break;
+    }
+  }, [player, mode]);
+
+  useFrame((_, delta) => {
+    player.advance(delta);
+    const sample = player.sample();
+    for (const [name, objectSample] of Object.entries(sample)) {
+      const object = targets[name]?.current;
+      if (object) {
+        applySample(object, objectSample);
+      }
+    }
+    onSample?.(sample);
+  });
+
+  return player;
+}
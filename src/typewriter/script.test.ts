@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { compileScript, renderSteps, scriptToPlainText, type TypedScriptLine } from "./script";
+
+const CHAR_DELAY = 80;
+
+/** Compiles a script that has to be free of markup problems. */
+function compile(lines: ReadonlyArray<TypedScriptLine>) {
+  const { steps, issues } = compileScript(lines, CHAR_DELAY);
+  expect(issues).toEqual([]);
+  return steps;
+}
+
+const typed = (lines: ReadonlyArray<TypedScriptLine>) => {
+  const steps = compile(lines);
+  return scriptToPlainText(renderSteps(steps, steps.length));
+};
+
+describe("compileScript", () => {
+  it("types each character at the line's speed and starts new lines", () => {
+    const steps = compile(["hi", { text: "yo", speed: 40, pauseAfter: 500 }]);
+
+    expect(steps.map((step) => [step.kind, step.delay])).toEqual([
+      ["type", 80],
+      ["type", 80],
+      ["newline", 80],
+      ["type", 40],
+      ["type", 40],
+      ["pause", 500],
+    ]);
+  });
+
+  it("waits for {pause}", () => {
+    const steps = compile(["a{pause:600}b"]);
+
+    expect(steps[1]).toEqual({ kind: "pause", delay: 600 });
+    expect(typed(["a{pause:600}b"])).toBe("ab");
+  });
+
+  it("changes the speed for the rest of the line with {speed}", () => {
+    const steps = compile(["a{speed:20}bc", "d"]);
+
+    expect(steps.filter((step) => step.kind === "type").map((step) => step.delay)).toEqual([
+      80, 20, 20, 80,
+    ]);
+  });
+
+  it("backspaces with {back}", () => {
+    const steps = compile(["chiar{back:3}air"]);
+
+    expect(steps.filter((step) => step.kind === "delete")).toHaveLength(3);
+    expect(typed(["chiar{back:3}air"])).toBe("chair");
+  });
+
+  it("starts again at the top after {clear}", () => {
+    expect(typed(["one", "two{clear}three", "four"])).toBe("three\nfour");
+  });
+
+  it("types a literal brace for {{", () => {
+    expect(typed(["{{not a tag}"])).toBe("{not a tag}");
+  });
+});
+
+describe("renderSteps", () => {
+  it("groups characters into spans by {color} and {em}", () => {
+    const steps = compile(["a{color:#ff6f91}b{em}c{/em}{/color}d{em}e{/em}"]);
+
+    expect(renderSteps(steps, steps.length)).toEqual([
+      [
+        { text: "a", style: {} },
+        { text: "b", style: { color: "#ff6f91" } },
+        { text: "c", style: { color: "#ff6f91", emphasis: true } },
+        { text: "d", style: {} },
+        { text: "e", style: { emphasis: true } },
+      ],
+    ]);
+  });
+
+  it("shows only the steps applied so far", () => {
+    const steps = compile(["ab", "c"]);
+
+    expect(scriptToPlainText(renderSteps(steps, 0))).toBe("");
+    expect(scriptToPlainText(renderSteps(steps, 1))).toBe("a");
+    expect(scriptToPlainText(renderSteps(steps, 3))).toBe("ab\n");
+  });
+});
+
+describe("script issues", () => {
+  const issuesOf = (lines: ReadonlyArray<TypedScriptLine>) =>
+    compileScript(lines, CHAR_DELAY).issues;
+
+  it("reports unknown tags with their line", () => {
+    expect(issuesOf(["fine", "a{wave}b"])).toEqual([{ line: 1, message: "unknown tag {wave}" }]);
+  });
+
+  it("reports an unclosed tag and stops reading the line", () => {
+    const { steps, issues } = compileScript(["ab{pause:3"], CHAR_DELAY);
+
+    expect(issues).toEqual([
+      {
+        line: 0,
+        message: 'unclosed tag starting at column 3 (use "{{" for a literal brace)',
+      },
+    ]);
+    expect(steps).toHaveLength(2);
+  });
+
+  it.each([
+    ["{pause}", "{pause} needs a non-negative number, e.g. {pause:300}"],
+    ["{speed:fast}", "{speed} needs a non-negative number, e.g. {speed:300}"],
+    ["{back:-1}", "{back} needs a non-negative number, e.g. {back:300}"],
+    ["{color:#zz}", "{color} needs a colour such as {color:#ff6f91} or {color:pink}"],
+    ["{/em}", "{/em} closes a span that was never opened"],
+  ])("reports %s", (tag, message) => {
+    expect(issuesOf([`a${tag}b`])).toEqual([{ line: 0, message }]);
+  });
+
+  it("collects every problem rather than stopping at the first", () => {
+    expect(issuesOf(["{nope}", "{pause}"]).map((issue) => issue.line)).toEqual([0, 1]);
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * Script format for the terminal intro. Each entry is a line, either a plain
+ * string or `{ text, speed?, pauseAfter? }`. Line text may contain tags:
+ *
+ *   {pause:600}          wait 600 ms
+ *   {speed:40}           type the rest of the line at 40 ms per character
+ *   {back:4}             backspace 4 characters (for "typo" effects)
+ *   {clear}              clear the screen and start again at the top
+ *   {color:#ff6f91}…{/color}   coloured span
+ *   {em}…{/em}           emphasised span
+ *
+ * `{{` types a literal `{`.
+ */
+
+export type TypedLineConfig = {
+  text: string;
+  /** Milliseconds per character for this line. */
+  speed?: number;
+  /** Extra milliseconds to wait after the line is finished. */
+  pauseAfter?: number;
+};
+
+export type TypedScriptLine = string | TypedLineConfig;
+
+export type SpanStyle = {
+  color?: string;
+  emphasis?: boolean;
+};
+
+export type TypewriterStep =
+  | { kind: "type"; char: string; style: SpanStyle; delay: number }
+  | { kind: "delete"; delay: number }
+  | { kind: "pause"; delay: number }
+  | { kind: "newline"; delay: number }
+  | { kind: "clear"; delay: number };
+
+export type TypedSpan = {
+  text: string;
+  style: SpanStyle;
+};
+
+export type TypedLine = TypedSpan[];
+
+export type ScriptIssue = {
+  line: number;
+  message: string;
+};
+
+/** Injectable timer so the component can run against a fake clock. */
+export type TypewriterClock = {
+  setTimeout: (callback: () => void, ms: number) => number;
+  clearTimeout: (handle: number) => void;
+};
+
+export const browserClock: TypewriterClock = {
+  setTimeout: (callback, ms) => window.setTimeout(callback, ms),
+  clearTimeout: (handle) => window.clearTimeout(handle),
+};
+
+const COLOR_PATTERN = /^(#[0-9a-f]{3,8}|[a-z]+)$/i;
+
+const toLineConfig = (line: TypedScriptLine): TypedLineConfig =>
+  typeof line === "string" ? { text: line } : line;
+
+/**
+ * Turns a script into a flat list of timed steps. Every step waits `delay`
+ * ms before it is applied. Markup problems are collected rather than thrown
+ * one at a time so a manifest can report them all.
+ */
+export function compileScript(
+  lines: ReadonlyArray<TypedScriptLine>,
+  defaultCharDelay: number
+): { steps: TypewriterStep[]; issues: ScriptIssue[] } {
+  const steps: TypewriterStep[] = [];
+  const issues: ScriptIssue[] = [];
+
+  lines.forEach((entry, lineIndex) => {
+    const { text, speed, pauseAfter } = toLineConfig(entry);
+    let charDelay = speed ?? defaultCharDelay;
+    const styleStack: SpanStyle[] = [{}];
+    const report = (message: string) => issues.push({ line: lineIndex, message });
+
+    if (lineIndex > 0) {
+      steps.push({ kind: "newline", delay: defaultCharDelay });
+    }
+
+    let i = 0;
+    while (i < text.length) {
+      const char = text[i];
+      if (char !== "{") {
+        steps.push({
+          kind: "type",
+          char,
+          style: styleStack[styleStack.length - 1],
+          delay: charDelay,
+        });
+        i += 1;
+        continue;
+      }
+      if (text[i + 1] === "{") {
+        steps.push({
+          kind: "type",
+          char: "{",
+          style: styleStack[styleStack.length - 1],
+          delay: charDelay,
+        });
+        i += 2;
+        continue;
+      }
+
+      const end = text.indexOf("}", i);
+      if (end === -1) {
+        report(`unclosed tag starting at column ${i + 1} (use "{{" for a literal brace)`);
+        break;
+      }
+      const tag = text.slice(i + 1, end).trim();
+      const [name, argument] = tag.split(":", 2).map((part) => part.trim());
+      const amount = Number(argument);
+      i = end + 1;
+
+      switch (name) {
+        case "pause":
+        case "speed":
+        case "back":
+          if (!argument || !Number.isFinite(amount) || amount < 0) {
+            report(`{${name}} needs a non-negative number, e.g. {${name}:300}`);
+            break;
+          }
+          if (name === "pause") {
+            steps.push({ kind: "pause", delay: amount });
+          } else if (name === "speed") {
+            charDelay = amount;
+          } else {
+            for (let n = 0; n < Math.floor(amount); n += 1) {
+              steps.push({ kind: "delete", delay: charDelay });
+            }
+          }
+          break;
+        case "clear":
+          steps.push({ kind: "clear", delay: charDelay });
+          break;
+        case "color":
+          if (!argument || !COLOR_PATTERN.test(argument)) {
+            report(`{color} needs a colour such as {color:#ff6f91} or {color:pink}`);
+            break;
+          }
+          styleStack.push({ ...styleStack[styleStack.length - 1], color: argument });
+          break;
+        case "em":
+          styleStack.push({ ...styleStack[styleStack.length - 1], emphasis: true });
+          break;
+        case "/color":
+        case "/em":
+          if (styleStack.length === 1) {
+            report(`{${name}} closes a span that was never opened`);
+            break;
+          }
+          styleStack.pop();
+          break;
+        default:
+          report(`unknown tag {${tag}}`);
+      }
+    }
+
+    if (pauseAfter) {
+      steps.push({ kind: "pause", delay: pauseAfter });
+    }
+  });
+
+  return { steps, issues };
+}
+
+const sameStyle = (a: SpanStyle, b: SpanStyle) =>
+  a.color === b.color && !!a.emphasis === !!b.emphasis;
+
+/** The text on screen after the first `count` steps have been applied. */
+export function renderSteps(
+  steps: ReadonlyArray<TypewriterStep>,
+  count: number
+): TypedLine[] {
+  let lines: Array<Array<{ char: string; style: SpanStyle }>> = [[]];
+
+  for (const step of steps.slice(0, count)) {
+    const current = lines[lines.length - 1];
+    switch (step.kind) {
+      case "type":
+        current.push({ char: step.char, style: step.style });
+        break;
+      case "delete":
+        current.pop();
+        break;
+      case "newline":
+        lines.push([]);
+        break;
+      case "clear":
+        lines = [[]];
+        break;
+      case "pause":
+        break;
+    }
+  }
+
+  return lines.map((chars) => {
+    const spans: TypedSpan[] = [];
+    for (const { char, style } of chars) {
+      const last = spans[spans.length - 1];
+      if (last && sameStyle(last.style, style)) {
+        last.text += char;
+      } else {
+        spans.push({ text: char, style });
+      }
+    }
+    return spans;
+  });
+}
+
+/** Plain text of the whole script once typed, e.g. for accessibility. */
+export const scriptToPlainText = (lines: ReadonlyArray<TypedLine>) =>
+  lines.map((spans) => spans.map((span) => span.text).join("")).join("\n");
@@ -0,0 +1,268 @@
+/**
+ * Builds a self-contained static site for one recipient:
+ *
+ *   npm run export -- --scene alice.json [--out dist/alice] [--site-url https://…]
+ *
+ * The site gets the built app (opening that scene by default, with its
+ * title and preview tags), the scene file and only the files it refers to,
+ * plus the models the code itself loads. Photos are shrunk and recompressed
+ * when that makes them smaller, and photos inlined by the creator wizard's
+ * bundle are written out as files. Every missing file is listed and the
+ * export fails before anything is built; missing built-in models only warn,
+ * since the page draws stand-ins for them.
+ */
+import { createHash } from "node:crypto";
+import { existsSync } from "node:fs";
+import { copyFile, mkdir, readdir, readFile, rm, stat, writeFile } from "node:fs/promises";
+import { basename, dirname, extname, join, relative, resolve } from "node:path";
+import { parseArgs } from "node:util";
+import sharp from "sharp";
+import { build } from "vite";
+import { applyScenePreview, readScenePreview, resolveScenePath } from "./ogTags";
+
+const PUBLIC_DIR = "public";
+const SOURCE_DIR = "src";
+// The default scene is replaced by the exported one, so its files are not needed
+const IGNORED_SOURCES = [join(SOURCE_DIR, "scene", "defaultScene.ts")];
+// The built-in models have procedural stand-ins, so a missing one only warns
+const STAND_IN_SOURCES = [join(SOURCE_DIR, "loading", "assets.ts")];
+
+const ASSET_EXTENSIONS = [
+  "glb", "gltf", "hdr", "exr", "jpg", "jpeg", "png", "webp", "gif", "svg",
+  "mp3", "ogg", "wav", "m4a", "aac", "mp4", "webm", "mov", "m4v", "ogv",
+  "lrc", "html", "json", "woff", "woff2", "ttf",
+];
+const RECOMPRESSED_IMAGES = ["jpg", "jpeg", "png", "webp"];
+const MAX_IMAGE_SIZE = 2048;
+const JPEG_QUALITY = 82;
+
+const ASSET_PATH = new RegExp(`^/[^/?#][^?#]*\\.(${ASSET_EXTENSIONS.join("|")})$`, "i");
+const QUOTED_PATH = /["']([^"'\s]+)["']/g;
+const DATA_IMAGE = /^data:image\/(png|jpe?g|webp|gif);base64,(.+)$/;
+
+class ExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExportError";
+  }
+}
+
+/** Where each public file is referenced from, for the missing-file report. */
+type References = Map<string, Set<string>>;
+
+const addReference = (references: References, path: string, from: string) => {
+  const clean = path.split(/[?#]/)[0];
+  if (ASSET_PATH.test(clean)) {
+    references.set(clean, (references.get(clean) ?? new Set()).add(from));
+  }
+};
+
+function findQuotedPaths(text: string, from: string, references: References) {
+  for (const match of text.matchAll(QUOTED_PATH)) {
+    addReference(references, match[1], from);
+  }
+}
+
+async function listSources(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const nested = await Promise.all(
+    entries.map((entry) => {
+      const path = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        return listSources(path);
+      }
+      return /\.(ts|tsx)$/.test(entry.name) ? [path] : [];
+    })
+  );
+  return nested.flat();
+}
+
+/** Files the app loads whatever the scene, such as its models. */
+async function findCodeReferences(references: References) {
+  for (const path of await listSources(SOURCE_DIR)) {
+    if (!IGNORED_SOURCES.includes(path)) {
+      findQuotedPaths(await readFile(path, "utf8"), path, references);
+    }
+  }
+}
+
+/**
+ * Walks the manifest for public paths, and writes inlined photos out as
+ * files (returning the manifest with their new paths).
+ */
+async function collectManifest(
+  value: unknown,
+  path: string,
+  references: References,
+  writeInlined: (data: Buffer, extension: string) => Promise<string>
+): Promise<unknown> {
+  if (typeof value === "string") {
+    const inlined = DATA_IMAGE.exec(value);
+    if (inlined) {
+      const extension = inlined[1] === "jpeg" ? "jpg" : inlined[1];
+      return writeInlined(Buffer.from(inlined[2], "base64"), extension);
+    }
+    addReference(references, value, `scene ${path}`);
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return Promise.all(
+      value.map((item, index) =>
+        collectManifest(item, `${path}[${index}]`, references, writeInlined)
+      )
+    );
+  }
+  if (typeof value === "object" && value !== null) {
+    const entries = await Promise.all(
+      Object.entries(value).map(async ([key, item]) => [
+        key,
+        await collectManifest(item, path ? `${path}.${key}` : key, references, writeInlined),
+      ])
+    );
+    return Object.fromEntries(entries);
+  }
+  return value;
+}
+
+/** Copies a public file, recompressing photos when it makes them smaller. */
+async function copyAsset(path: string, outDir: string) {
+  const source = join(PUBLIC_DIR, path);
+  const target = join(outDir, path);
+  await mkdir(dirname(target), { recursive: true });
+  const extension = extname(path).slice(1).toLowerCase();
+  const original = await stat(source);
+  if (RECOMPRESSED_IMAGES.includes(extension)) {
+    const image = sharp(source).rotate().resize({
+      width: MAX_IMAGE_SIZE,
+      height: MAX_IMAGE_SIZE,
+      fit: "inside",
+      withoutEnlargement: true,
+    });
+    const optimized = await (extension === "png"
+      ? image.png({ compressionLevel: 9, palette: true })
+      : extension === "webp"
+        ? image.webp({ quality: JPEG_QUALITY })
+        : image.jpeg({ quality: JPEG_QUALITY, mozjpeg: true })
+    ).toBuffer();
+    if (optimized.length < original.size) {
+      await writeFile(target, optimized);
+      return { path, before: original.size, after: optimized.length };
+    }
+  } else if (extension === "json") {
+    const minified = JSON.stringify(JSON.parse(await readFile(source, "utf8")));
+    await writeFile(target, minified);
+    return { path, before: original.size, after: Buffer.byteLength(minified) };
+  }
+  await copyFile(source, target);
+  return { path, before: original.size, after: original.size };
+}
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / 1024 / 1024).toFixed(1)} MB`
+    : `${Math.ceil(bytes / 1024)} KB`;
+
+/** `alice.json`, `scenes/alice.json` or `alice` all name public/scenes/alice.json. */
+function findScene(scene: string) {
+  const candidates = [resolve(scene), resolveScenePath(scene), resolveScenePath(basename(scene, ".json"))];
+  const found = candidates.find((candidate) => existsSync(candidate));
+  if (!found) {
+    throw new ExportError(`Scene "${scene}" not found (looked for ${candidates.join(", ")})`);
+  }
+  return found;
+}
+
+async function exportScene(options: { scene: string; out?: string; siteUrl?: string }) {
+  const scenePath = findScene(options.scene);
+  const slug = basename(scenePath, ".json");
+  const outDir = resolve(options.out ?? join("dist", slug));
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(await readFile(scenePath, "utf8"));
+  } catch (error) {
+    throw new ExportError(`${scenePath} is not valid JSON (${(error as Error).message})`);
+  }
+
+  const references: References = new Map();
+  const inlined = new Map<string, Buffer>();
+  const exported = await collectManifest(manifest, "", references, async (data, extension) => {
+    const path = `/media/${createHash("sha1").update(data).digest("hex").slice(0, 12)}.${extension}`;
+    inlined.set(path, data);
+    return path;
+  });
+  await findCodeReferences(references);
+  const preview = readScenePreview(scenePath, options.siteUrl);
+  const indexHtml = applyScenePreview(await readFile("index.html", "utf8"), preview);
+  findQuotedPaths(indexHtml, "index.html", references);
+  for (const path of [...references.keys()].filter((path) => path.endsWith(".html"))) {
+    if (existsSync(join(PUBLIC_DIR, path))) {
+      findQuotedPaths(await readFile(join(PUBLIC_DIR, path), "utf8"), path, references);
+    }
+  }
+
+  const absent = [...references].filter(([path]) => !existsSync(join(PUBLIC_DIR, path)));
+  const hasStandIn = ([, from]: [string, Set<string>]) =>
+    [...from].every((source) => STAND_IN_SOURCES.includes(source));
+  const missing = absent.filter((entry) => !hasStandIn(entry));
+  if (missing.length > 0) {
+    throw new ExportError(
+      [
+        `${missing.length} referenced file(s) missing from ${PUBLIC_DIR}/:`,
+        ...missing.map(([path, from]) => `  ${path}  (from ${[...from].join(", ")})`),
+      ].join("\n")
+    );
+  }
+
+  for (const [path] of absent.filter(hasStandIn)) {
+    console.warn(`  ${path} is missing; the page will use a stand-in`);
+    references.delete(path);
+  }
+
+  await rm(outDir, { recursive: true, force: true });
+  process.env.VITE_SCENE = `/scenes/${slug}.json`;
+  process.env.SCENE_FILE = scenePath;
+  if (options.siteUrl) {
+    process.env.SITE_URL = options.siteUrl;
+  }
+  await build({
+    logLevel: "warn",
+    build: { outDir, emptyOutDir: true, copyPublicDir: false },
+  });
+
+  const copied = await Promise.all([...references.keys()].map((path) => copyAsset(path, outDir)));
+  for (const [path, data] of inlined) {
+    await mkdir(dirname(join(outDir, path)), { recursive: true });
+    await writeFile(join(outDir, path), data);
+  }
+  await mkdir(join(outDir, "scenes"), { recursive: true });
+  await writeFile(join(outDir, "scenes", `${slug}.json`), JSON.stringify(exported));
+
+  for (const { path, before, after } of copied.sort((a, b) => a.path.localeCompare(b.path))) {
+    const saved = after < before ? `  (was ${formatSize(before)})` : "";
+    console.log(`  ${path}  ${formatSize(after)}${saved}`);
+  }
+  if (inlined.size > 0) {
+    console.log(`  ${inlined.size} inlined photo(s) written to /media/`);
+  }
+  console.log(`Exported "${preview.title}" to ${relative(process.cwd(), outDir) || "."}/`);
+}
+
+const { values } = parseArgs({
+  options: {
+    scene: { type: "string" },
+    out: { type: "string" },
+    "site-url": { type: "string" },
+  },
+});
+
+if (!values.scene) {
+  console.error("Usage: npm run export -- --scene alice.json [--out dir] [--site-url https://…]");
+  process.exit(1);
+}
+
+exportScene({ scene: values.scene, out: values.out, siteUrl: values["site-url"] }).catch(
+  (error: unknown) => {
+    console.error(error instanceof ExportError ? error.message : error);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { applyScenePreview } from "./ogTags";
+
+const PAGE = `<head>
+  <title>Old title</title>
+  <meta property="og:title" content="Old title" />
+  <meta property="og:description" content="Old description" />
+  <meta property="og:image" content="/old.jpg" />
+  <meta name="twitter:title" content="Old title" />
+  <meta name="twitter:description" content="Old description" />
+  <meta name="twitter:image" content="/old.jpg" />
+</head>`;
+
+describe("applyScenePreview", () => {
+  it("titles the page and fills in the preview tags", () => {
+    const html = applyScenePreview(PAGE, {
+      title: "Happy Birthday Alice! 🎂",
+      description: "Dinner at eight",
+      image: "https://example.com/alice.jpg",
+    });
+
+    expect(html).toContain("<title>Happy Birthday Alice! 🎂</title>");
+    expect(html).toContain('<meta property="og:title" content="Happy Birthday Alice! 🎂" />');
+    expect(html).toContain('<meta name="twitter:description" content="Dinner at eight" />');
+    expect(html).toContain('<meta property="og:image" content="https://example.com/alice.jpg" />');
+    expect(html).not.toContain("Old");
+  });
+
+  it("leaves the description and image alone when the scene has none", () => {
+    const html = applyScenePreview(PAGE, { title: "Hi" });
+
+    expect(html).toContain('<meta property="og:description" content="Old description" />');
+    expect(html).toContain('<meta name="twitter:image" content="/old.jpg" />');
+  });
+
+  it("escapes the values", () => {
+    const html = applyScenePreview(PAGE, { title: 'Tom & "Jerry" <3' });
+
+    expect(html).toContain("<title>Tom &amp; &quot;Jerry&quot; &lt;3</title>");
+    expect(html).toContain('content="Tom &amp; &quot;Jerry&quot; &lt;3"');
+  });
+
+  it("keeps dollar signs as they are written", () => {
+    const html = applyScenePreview(PAGE, {
+      title: "$& and $'",
+      description: "Chip in $1 for the gift",
+    });
+
+    expect(html).toContain("<title>$&amp; and $'</title>");
+    expect(html).toContain('<meta property="og:description" content="Chip in $1 for the gift" />');
+    expect(html).toContain('<meta name="twitter:title" content="$&amp; and $\'" />');
+  });
+});
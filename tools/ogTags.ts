@@ -0,0 +1,106 @@
+import { existsSync, readFileSync } from "node:fs";
+import { isAbsolute, resolve } from "node:path";
+import type { Plugin } from "vite";
+
+/**
+ * Fills in the page title and the link-preview tags (og:*, twitter:*) in
+ * index.html from the scene a build is made for:
+ *
+ *   VITE_SCENE=alice npm run build
+ *
+ * reads public/scenes/alice.json, titles the page after the recipient and
+ * uses the manifest's `preview` image and description. SCENE_FILE reads the
+ * tags from a scene file elsewhere on disk instead. SITE_URL makes the
+ * image URL absolute, which some apps need to show it. Without VITE_SCENE
+ * the tags in index.html are left as they are. Share links (`#s=…`) can't
+ * have their own tags: the fragment never reaches the server.
+ */
+
+type ScenePreview = {
+  title: string;
+  description?: string;
+  image?: string;
+};
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+
+// Mirrors resolveSceneUrl in src/scene/manifest.ts, against public/; a path
+// on disk (SCENE_FILE) is used as it is
+export const resolveScenePath = (scene: string, publicDir = "public") =>
+  isAbsolute(scene) && existsSync(scene)
+    ? scene
+    : resolve(
+        publicDir,
+        scene.includes("/") || scene.endsWith(".json")
+          ? scene.replace(/^\//, "")
+          : `scenes/${scene}.json`
+      );
+
+export function readScenePreview(path: string, siteUrl?: string): ScenePreview {
+  let manifest: {
+    recipient?: { name?: unknown };
+    preview?: { image?: unknown; description?: unknown };
+  };
+  try {
+    manifest = JSON.parse(readFileSync(path, "utf8"));
+  } catch (error) {
+    throw new Error(`Could not read the scene for the page tags (${path}): ${(error as Error).message}`);
+  }
+  const name = manifest.recipient?.name;
+  if (typeof name !== "string" || !name) {
+    throw new Error(`${path} has no recipient.name to title the page with`);
+  }
+  const { image, description } = manifest.preview ?? {};
+  return {
+    title: `Happy Birthday ${name}! 🎂`,
+    description: typeof description === "string" ? description : undefined,
+    image:
+      typeof image === "string"
+        ? siteUrl
+          ? new URL(image, siteUrl).toString()
+          : image
+        : undefined,
+  };
+}
+
+const setMeta = (html: string, attribute: string, key: string, value: string) =>
+  html.replace(
+    new RegExp(`(<meta ${attribute}="${key}" content=")[^"]*(")`),
+    // A function, so a "$1" or "$&" in the value is kept as written
+    (_, open: string, close: string) => open + escapeHtml(value) + close
+  );
+
+export function applyScenePreview(html: string, preview: ScenePreview) {
+  let result = html.replace(
+    /<title>[^<]*<\/title>/,
+    () => `<title>${escapeHtml(preview.title)}</title>`
+  );
+  result = setMeta(result, "property", "og:title", preview.title);
+  result = setMeta(result, "name", "twitter:title", preview.title);
+  if (preview.description !== undefined) {
+    result = setMeta(result, "property", "og:description", preview.description);
+    result = setMeta(result, "name", "twitter:description", preview.description);
+  }
+  if (preview.image !== undefined) {
+    result = setMeta(result, "property", "og:image", preview.image);
+    result = setMeta(result, "name", "twitter:image", preview.image);
+  }
+  return result;
+}
+
+export function ogTags(scene?: string, siteUrl?: string): Plugin {
+  return {
+    name: "birthday-cake-og-tags",
+    transformIndexHtml(html) {
+      if (!scene) {
+        return html;
+      }
+      return applyScenePreview(html, readScenePreview(resolveScenePath(scene), siteUrl));
+    },
+  };
+}